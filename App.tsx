@@ -1,30 +1,93 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Message, ProcessingStatus, UploadedFile, TripSummary } from './types';
-import { extractTextFromPdf } from './services/pdfService';
-import { createItineraryChat, sendChatMessage, generateTripSummary } from './services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ChecklistItem, Citation, CostStatus, ExtractionProgress, Message, PinGroup, ProcessingStatus, SummaryProgress, UploadedFile, TripEvent, TripSummary, SavedTrip } from './types';
+import { extractDocument } from './services/extractorService';
+import { createItineraryChat, streamChatMessage, generateTripSummary, generateChecklist, createModelEmbedder } from './services/geminiService';
+import { createRetriever, createHashEmbedder, Retriever } from './services/retrievalService';
+import { parseCitations } from './services/citationService';
+import { checkItinerary } from './services/itineraryCheckService';
+import { classifyError } from './services/requestService';
+import { listTrips, getTrip, saveTrip, renameTrip, deleteTrip, createTripId } from './services/tripLibraryService';
+import { parseSessionJson } from './services/sessionExportService';
+import { withEventIds } from './services/summaryPipelineService';
+import { carryOverNotes, fileAnswer, getPinnedAnswer, withEventNote } from './services/tripNotesService';
+import { ExchangeRates, asksAboutMoney, loadExchangeRates, saveExchangeRates } from './services/budgetService';
+import { utcToZonedTime } from './services/eventTimeService';
+import { collectTravelers, filterEventsForTraveler } from './services/travelerService';
+import { carryOverChecklist, toggleChecklistItem } from './services/checklistService';
+import { ReminderSettings, buildReminders, createReminderScheduler, loadReminderSettings, saveReminderSettings } from './services/reminderService';
+import { getClockFromUrl } from './services/clockService';
+import { asksAboutNow, getPlanEvents, getTodayPlan } from './services/todayService';
+import { ChatSession, ProviderSettings, loadProviderSettings, saveProviderSettings } from './services/llmProvider';
 import { UploadZone } from './components/UploadZone';
+import { TripFiles } from './components/TripFiles';
+import { SourceViewer } from './components/SourceViewer';
+import { TripLibrary } from './components/TripLibrary';
+import { SettingsPanel } from './components/SettingsPanel';
 import { MessageBubble } from './components/MessageBubble';
 import { Button } from './components/Button';
 import { Timeline } from './components/Timeline';
-import { Plane, Map, Send, X, FileText, LayoutList, Sparkles, Mic, MicOff } from 'lucide-react';
-import { Chat } from '@google/genai';
+import { TripMap } from './components/TripMap';
+import { ItineraryIssuesBanner } from './components/ItineraryIssuesBanner';
+import { AnalysisStatusBanner } from './components/AnalysisStatusBanner';
+import { SessionExportMenu } from './components/SessionExportMenu';
+import { NotesPanel } from './components/NotesPanel';
+import { BudgetPanel } from './components/BudgetPanel';
+import { ChecklistPanel } from './components/ChecklistPanel';
+import { RemindersPanel } from './components/RemindersPanel';
+import { TodayView } from './components/TodayView';
+import { Plane, Map, Send, Square, X, FileText, LayoutList, Sparkles, Mic, MicOff, Briefcase, Settings, NotebookPen, Wallet, Users, ListChecks, Bell, BellRing, Sun } from 'lucide-react';
+
+const MAX_UNDO_STEPS = 50;
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
-  const [currentFile, setCurrentFile] = useState<UploadedFile | null>(null);
+  const [files, setFiles] = useState<UploadedFile[]>([]);
+  const [isUpdatingFiles, setIsUpdatingFiles] = useState(false);
   const [summary, setSummary] = useState<TripSummary | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [showTimeline, setShowTimeline] = useState(false);
+  const [showMap, setShowMap] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+  const [showBudget, setShowBudget] = useState(false);
+  const [showChecklist, setShowChecklist] = useState(false);
+  const [showReminders, setShowReminders] = useState(false);
+  const [showToday, setShowToday] = useState(false);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(loadReminderSettings);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates>(loadExchangeRates);
+  const [chatTraveler, setChatTraveler] = useState<string | null>(null); // Questions are answered for this traveler only
   const [isListening, setIsListening] = useState(false);
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const [activeTrip, setActiveTrip] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [savedTrips, setSavedTrips] = useState<SavedTrip[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState<ExtractionProgress | null>(null);
+  const [summaryProgress, setSummaryProgress] = useState<SummaryProgress | null>(null);
+  // Summaries before each timeline edit, newest last
+  const [summaryHistory, setSummaryHistory] = useState<TripSummary[]>([]);
   
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<ChatSession | null>(null);
+  const retrieverRef = useRef<Retriever | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const deliveredRemindersRef = useRef(new Set<string>()); // Survives rescheduling, so nothing is sent twice
+  // The trip as last loaded or saved, so opening a trip doesn't save it again
+  const savedTripRef = useRef<Pick<SavedTrip, 'files' | 'summary' | 'messages'> & { trip: typeof activeTrip } | null>(null);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const recognitionRef = useRef<any>(null);
 
+  // Re-checked whenever the summary changes, including for reopened trips
+  const itineraryIssues = useMemo(() => summary ? checkItinerary(summary.events) : [], [summary]);
+  const travelers = useMemo(() => summary ? collectTravelers(summary.events) : [], [summary]);
+  // Faked with ?now= to see the trip as on another day
+  const clock = useMemo(() => getClockFromUrl(window.location.search), []);
+  // Another trip, or an edit that removed them, ends the traveler mode
+  const activeChatTraveler = chatTraveler && travelers.includes(chatTraveler) ? chatTraveler : null;
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -42,21 +105,147 @@ const App: React.FC = () => {
     };
   }, []);
 
-  const handleFileSelect = async (file: File) => {
+  const refreshLibrary = async () => {
+    try {
+      setSavedTrips(await listTrips());
+    } catch (error) {
+      console.warn("Trip library unavailable", error);
+    }
+  };
+
+  useEffect(() => {
+    refreshLibrary();
+  }, []);
+
+  // Reminders for the open trip, rescheduled whenever the timeline or the lead times change
+  useEffect(() => {
+    if (!summary || !reminderSettings.enabled) return;
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    const scheduler = createReminderScheduler(buildReminders(summary.events, reminderSettings), {
+      notify: reminder => new Notification(reminder.title, { body: reminder.body, tag: reminder.id }),
+      delivered: deliveredRemindersRef.current,
+      clock,
+    });
+    return () => scheduler.stop();
+  }, [summary, reminderSettings, clock]);
+
+  // Persist the open trip whenever it settles (not on every streamed token)
+  useEffect(() => {
+    if (!activeTrip || status !== ProcessingStatus.READY || isSending || isUpdatingFiles) return;
+    // Unchanged since then: saving would only bump updatedAt and reorder the library
+    const saved = savedTripRef.current;
+    if (saved?.trip === activeTrip && saved.files === files && saved.summary === summary && saved.messages === messages) return;
+    savedTripRef.current = { trip: activeTrip, files, summary, messages };
+
+    saveTrip({
+      id: activeTrip.id,
+      name: activeTrip.name,
+      files,
+      summary,
+      messages,
+      createdAt: activeTrip.createdAt,
+      updatedAt: Date.now()
+    })
+      .then(refreshLibrary)
+      .catch(error => console.warn("Failed to save trip", error));
+  }, [activeTrip, files, summary, messages, status, isSending, isUpdatingFiles]);
+
+  const extractFiles = async (selected: File[]): Promise<UploadedFile[]> => {
+    const extracted: UploadedFile[] = [];
+    try {
+      // One at a time: PDF.js and OCR are CPU heavy and their workers are shared
+      for (const file of selected) {
+        extracted.push(await extractDocument(file, setExtractionProgress));
+      }
+    } finally {
+      setExtractionProgress(null);
+    }
+    return extracted;
+  };
+
+  const summarize = async (allFiles: UploadedFile[]): Promise<TripSummary> => {
+    try {
+      const tripSummary = await generateTripSummary(allFiles, { onProgress: setSummaryProgress });
+      if (!summary) return tripSummary;
+
+      // The user's notes survive re-analysis; ones without a matching booking go to the chat
+      const { events, orphaned } = carryOverNotes(summary.events, tripSummary.events);
+      if (orphaned.length > 0) {
+        addModelNote(`These bookings aren't in the updated timeline, so here are your notes on them:\n\n${orphaned.map(e => `- **${e.activity}** (${e.date}): ${e.note}`).join('\n')}`);
+      }
+      // So does what was ticked off in the checklist
+      return { ...tripSummary, events, checklist: carryOverChecklist(summary.checklist, tripSummary.checklist) };
+    } finally {
+      setSummaryProgress(null);
+    }
+  };
+
+  const summaryProgressText = summaryProgress && summaryProgress.total > 1
+    ? `Analyzing your documents (${summaryProgress.completed} of ${summaryProgress.total} steps)...`
+    : 'Analyzing your documents...';
+
+  const progressText = extractionProgress
+    ? extractionProgress.stage === 'ocr'
+      ? `Reading scanned page ${extractionProgress.page} of ${extractionProgress.totalPages} in ${extractionProgress.fileName} (OCR ${Math.round((extractionProgress.ocrProgress ?? 0) * 100)}%)...`
+      : `Extracting page ${extractionProgress.page} of ${extractionProgress.totalPages} from ${extractionProgress.fileName}...`
+    : summaryProgress ? summaryProgressText : undefined;
+
+  // A file with the same name as an existing one replaces it
+  const mergeFiles = (existing: UploadedFile[], added: UploadedFile[]): UploadedFile[] => [
+    ...existing.filter(f => !added.some(a => a.name === f.name)),
+    ...added,
+  ];
+
+  const indexFiles = async (added: UploadedFile[], allFiles: UploadedFile[]) => {
+    try {
+      if (!retrieverRef.current) {
+        retrieverRef.current = createRetriever(createModelEmbedder());
+      }
+      for (const file of added) {
+        await retrieverRef.current.addDocument(file);
+      }
+    } catch (error) {
+      // Vectors from different embedders can't be mixed, so re-index everything locally
+      console.warn("Embedding failed, re-indexing with local embedder instead", error);
+      const fallback = createRetriever(createHashEmbedder());
+      for (const file of allFiles) {
+        await fallback.addDocument(file);
+      }
+      retrieverRef.current = fallback;
+    }
+  };
+
+  const addModelNote = (content: string) => {
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'model',
+      content,
+      timestamp: Date.now()
+    }]);
+  };
+
+  const handleFilesSelect = async (selected: File[]) => {
     setStatus(ProcessingStatus.PARSING);
     try {
-      // 1. Extract text from PDF
-      const extractedData = await extractTextFromPdf(file);
-      setCurrentFile(extractedData);
+      // 1. Extract text from each file
+      const extracted = await extractFiles(selected);
+      const allFiles = mergeFiles([], extracted);
+      setFiles(allFiles);
       
-      // 2. Initialize Gemini Chat
-      chatSessionRef.current = createItineraryChat(extractedData.content);
+      // 2. Index the documents for retrieval
+      await indexFiles(extracted, allFiles);
+
+      // 3. Initialize Gemini Chat
+      chatSessionRef.current = createItineraryChat();
       
       setStatus(ProcessingStatus.ANALYZING);
 
-      // 3. Generate structured summary (Analysis phase)
-      const tripSummary = await generateTripSummary(extractedData.content);
+      // 4. Generate structured summary across all files (Analysis phase)
+      const tripSummary = await summarize(allFiles);
       setSummary(tripSummary);
+
+      const fileLabel = allFiles.length === 1 ? allFiles[0].name : `${allFiles.length} documents`;
+      setActiveTrip({ id: createTripId(), name: tripSummary.title || fileLabel, createdAt: Date.now() });
       
       setStatus(ProcessingStatus.READY);
       setShowTimeline(true); // Auto-open timeline on success
@@ -65,19 +254,67 @@ const App: React.FC = () => {
       setMessages([{
         id: 'init-1',
         role: 'model',
-        content: `Hi! I've analyzed **${tripSummary.title || extractedData.name}**. \n\nI found details for a trip to **${tripSummary.destination}**. You can see the timeline in the sidebar, or ask me specific questions!`,
+        content: tripSummary.analysis?.state === 'failed'
+          ? `I couldn't analyze ${fileLabel}, so the timeline may be empty. You can still ask me questions about the documents, or try **Re-analyze** above.`
+          : `Hi! I've analyzed **${tripSummary.title || fileLabel}** (${fileLabel}). \n\nI found details for a trip to **${tripSummary.destination}**. You can see the timeline in the sidebar, add more bookings above, or ask me specific questions!`,
         timestamp: Date.now()
       }]);
 
     } catch (error) {
       console.error(error);
       setStatus(ProcessingStatus.ERROR);
-      alert("Failed to process the file. Please try again.");
-      setStatus(ProcessingStatus.IDLE);
+      alert("Failed to process the files. Please try again.");
+      clearSession();
+    }
+  };
+
+  const handleAddFiles = async (selected: File[]) => {
+    setIsUpdatingFiles(true);
+    try {
+      const extracted = await extractFiles(selected);
+      const allFiles = mergeFiles(files, extracted);
+      setFiles(allFiles);
+      await indexFiles(extracted, allFiles);
+
+      setSummary(await summarize(allFiles));
+      setSummaryHistory([]);
+      addModelNote(`Added ${extracted.map(f => `**${f.name}**`).join(', ')} to this trip. The timeline has been updated${summary?.editedAt ? ' and your manual edits were replaced' : ''}.`);
+    } catch (error) {
+      console.error(error);
+      alert("Failed to add the files. Please try again.");
+    } finally {
+      setIsUpdatingFiles(false);
     }
   };
 
-  const handleSendMessage = async (e?: React.FormEvent, overrideText?: string) => {
+  const handleRemoveFile = async (fileName: string) => {
+    const remaining = files.filter(f => f.name !== fileName);
+    if (remaining.length === 0) {
+      resetSession();
+      return;
+    }
+    if (!confirm(`Remove ${fileName} from this trip?`)) return;
+
+    retrieverRef.current?.removeDocument(fileName);
+    setFiles(remaining);
+    setIsUpdatingFiles(true);
+    try {
+      setSummary(await summarize(remaining));
+      setSummaryHistory([]);
+      addModelNote(`Removed **${fileName}** from this trip. The timeline has been updated${summary?.editedAt ? ' and your manual edits were replaced' : ''}.`);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsUpdatingFiles(false);
+    }
+  };
+
+  const updateMessage = (id: string, patch: Partial<Message>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  };
+
+  // `fromToday`: asked from the Today view, so the answer depends on the time even when the question doesn't say so
+  const handleSendMessage = async (e?: React.FormEvent, overrideText?: string, traveler: string | null = activeChatTraveler, fromToday = false) => {
     e?.preventDefault();
     
     const textToSend = overrideText || inputValue.trim();
@@ -88,41 +325,134 @@ const App: React.FC = () => {
       id: Date.now().toString(),
       role: 'user',
       content: textToSend,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(traveler ? { traveler } : {})
+    };
+
+    // Placeholder that fills in as tokens arrive
+    const botId = (Date.now() + 1).toString();
+    const botMsg: Message = {
+      id: botId,
+      role: 'model',
+      content: '',
+      timestamp: Date.now(),
+      isStreaming: true
     };
 
-    setMessages(prev => [...prev, userMsg]);
+    setMessages(prev => [...prev, userMsg, botMsg]);
     setInputValue('');
     setIsSending(true);
     
     // Close sidebar on mobile when chatting
     if (window.innerWidth < 768) setShowTimeline(false);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let responseText = '';
+
     try {
-      const responseText = await sendChatMessage(chatSessionRef.current, userMsg.content);
-      
-      const botMsg: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        content: responseText,
-        timestamp: Date.now()
-      };
-      
-      setMessages(prev => [...prev, botMsg]);
+      for await (const partial of streamChatMessage(
+        chatSessionRef.current,
+        userMsg.content,
+        {
+          retriever: retrieverRef.current,
+          // Only an edited timeline is worth the prompt space; otherwise the documents say it all
+          correctedEvents: summary?.editedAt ? summary.events : null,
+          costs: summary?.events.some(e => e.costs?.length) && asksAboutMoney(userMsg.content)
+            ? { events: summary.events, rates: exchangeRates, today: utcToZonedTime(clock.now()).slice(0, 10) }
+            : null,
+          traveler: traveler && summary ? { name: traveler, events: filterEventsForTraveler(summary.events, traveler) } : null,
+          today: summary && (fromToday || asksAboutNow(userMsg.content))
+            ? { now: clock.now(), events: getPlanEvents(getTodayPlan(summary.events, clock.now())) }
+            : null,
+        },
+        controller.signal
+      )) {
+        responseText = partial;
+        updateMessage(botId, { content: responseText });
+      }
+
+      updateMessage(botId, {
+        content: responseText, // Empty when stopped before any text; the bubble says so
+        isStreaming: false,
+        isTruncated: controller.signal.aborted,
+        citations: parseCitations(responseText, files)
+      });
     } catch (error) {
-      const errorMsg: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        content: "I'm sorry, I encountered an error connecting to the AI. Please check your API key or internet connection.",
-        timestamp: Date.now(),
-        isError: true
-      };
-      setMessages(prev => [...prev, errorMsg]);
+      if (responseText) {
+        // Keep what we got rather than throwing away a half-finished answer
+        updateMessage(botId, {
+          isStreaming: false,
+          isTruncated: true,
+          citations: parseCitations(responseText, files)
+        });
+      } else {
+        updateMessage(botId, {
+          content: "I'm sorry, I couldn't get an answer from the AI.",
+          isStreaming: false,
+          isError: true,
+          errorKind: classifyError(error).kind
+        });
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsSending(false);
     }
   };
 
+  // Drops the failed exchange and asks the same question again
+  const handleRetryMessage = (errorId: string) => {
+    const index = messages.findIndex(m => m.id === errorId);
+    const question = messages[index - 1];
+    if (index < 1 || question.role !== 'user' || isSending) return;
+
+    setMessages(prev => prev.filter(m => m.id !== errorId && m.id !== question.id));
+    handleSendMessage(undefined, question.content, question.traveler ?? null);
+  };
+
+  const handleTogglePin = (id: string) => {
+    const pinned = getPinnedAnswer(messages, id);
+    if (!pinned) return;
+    if (pinned.answer.isPinned) {
+      updateMessage(id, { isPinned: undefined, pinnedTo: undefined });
+      return;
+    }
+    updateMessage(id, { isPinned: true, pinnedTo: fileAnswer(pinned, summary?.events ?? []) });
+  };
+
+  const handleFileAnswer = (id: string, group: PinGroup) => {
+    updateMessage(id, { pinnedTo: group });
+  };
+
+  // Notes aren't timeline edits: no undo step, and the events stay as extracted
+  const handleNoteChange = (eventIndex: number, note: string) => {
+    if (!summary) return;
+    setSummary({ ...summary, events: summary.events.map((event, idx) => (idx === eventIndex ? withEventNote(event, note) : event)) });
+  };
+
+  const handleChecklistToggle = (id: string) => {
+    if (!summary?.checklist) return;
+    setSummary({ ...summary, checklist: toggleChecklistItem(summary.checklist, id) });
+  };
+
+  // Throws a message for the checklist panel to show
+  const handleRegenerateChecklist = async () => {
+    if (!summary) return;
+    let checklist: ChecklistItem[];
+    try {
+      checklist = (await generateChecklist(summary.events, files)).value;
+    } catch (error) {
+      console.error("Checklist Generation Error:", error);
+      throw new Error("Couldn't write the checklist. Check your connection or AI settings and try again.");
+    }
+    // The summary may have changed while the model was writing
+    setSummary(current => current && { ...current, checklist: carryOverChecklist(current.checklist, checklist) });
+  };
+
+  const handleStopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleVoiceInput = () => {
     // Support both standard and WebKit-prefixed SpeechRecognition
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -179,14 +509,167 @@ const App: React.FC = () => {
     }
   };
 
+  const loadTrip = async (trip: SavedTrip) => {
+    abortControllerRef.current?.abort();
+    const opened = { id: trip.id, name: trip.name, createdAt: trip.createdAt };
+    savedTripRef.current = { trip: opened, files: trip.files, summary: trip.summary, messages: trip.messages };
+    // Trips saved before events had ids get them now, and are saved again once with them
+    const events = trip.summary && withEventIds(trip.summary.events);
+    setActiveTrip(opened);
+    setFiles(trip.files);
+    setSummary(trip.summary && events !== trip.summary.events ? { ...trip.summary, events } : trip.summary);
+    setSummaryHistory([]);
+    setMessages(trip.messages);
+    setStatus(ProcessingStatus.READY);
+
+    // Resume the conversation where it was left
+    chatSessionRef.current = createItineraryChat(trip.messages);
+
+    // Embeddings aren't stored, so rebuild the retrieval index
+    retrieverRef.current = null;
+    setIsUpdatingFiles(true);
+    try {
+      await indexFiles(trip.files, trip.files);
+    } finally {
+      setIsUpdatingFiles(false);
+    }
+  };
+
+  const handleOpenTrip = async (id: string) => {
+    setShowLibrary(false);
+    if (id === activeTrip?.id) return;
+
+    const trip = await getTrip(id);
+    if (trip) await loadTrip(trip);
+  };
+
+  // A teammate's exported session becomes a new trip in this library
+  const handleImportSession = async (file: File) => {
+    setShowLibrary(false);
+    try {
+      const session = parseSessionJson(await file.text());
+      const now = Date.now();
+      const trip: SavedTrip = { id: createTripId(), ...session, createdAt: now, updatedAt: now };
+      await saveTrip(trip);
+      await refreshLibrary();
+      await loadTrip(trip);
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : "Failed to import the session.");
+    }
+  };
+
+  const handleRenameTrip = async (id: string, name: string) => {
+    if (id === activeTrip?.id) {
+      setActiveTrip({ ...activeTrip, name }); // The save effect persists it
+      return;
+    }
+    await renameTrip(id, name);
+    await refreshLibrary();
+  };
+
+  const handleDeleteTrip = async (id: string) => {
+    if (id === activeTrip?.id) clearSession();
+    await deleteTrip(id);
+    await refreshLibrary();
+  };
+
+  const handleNewTrip = () => {
+    setShowLibrary(false);
+    clearSession();
+  };
+
+  const handleSaveSettings = async (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setShowSettings(false);
+
+    if (status !== ProcessingStatus.READY) return;
+
+    // Carry the open conversation over to the new provider
+    abortControllerRef.current?.abort();
+    chatSessionRef.current = createItineraryChat(messages);
+    retrieverRef.current = null;
+    setIsUpdatingFiles(true);
+    try {
+      await indexFiles(files, files);
+    } finally {
+      setIsUpdatingFiles(false);
+    }
+  };
+
+  const clearSession = () => {
+    abortControllerRef.current?.abort();
+    setActiveTrip(null);
+    setFiles([]);
+    setSummary(null);
+    setSummaryHistory([]);
+    setMessages([]);
+    chatSessionRef.current = null;
+    retrieverRef.current = null;
+    setStatus(ProcessingStatus.IDLE);
+    setShowTimeline(false);
+    setShowMap(false);
+    setShowNotes(false);
+    setShowBudget(false);
+    setShowChecklist(false);
+    setShowReminders(false);
+    setShowToday(false);
+    setChatTraveler(null);
+  };
+
+  const handleReanalyze = async () => {
+    if (summary?.editedAt && !confirm("Re-analyzing replaces your changes to the timeline. Continue?")) return;
+    setIsUpdatingFiles(true);
+    try {
+      const tripSummary = await summarize(files);
+      setSummary(tripSummary);
+      setSummaryHistory([]);
+      addModelNote(tripSummary.analysis
+        ? "I re-analyzed your documents, but some parts still couldn't be read."
+        : "I re-analyzed your documents. The timeline has been updated.");
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsUpdatingFiles(false);
+    }
+  };
+
+  const handleEventsChange = (events: TripEvent[]) => {
+    if (!summary) return;
+    setSummaryHistory(prev => [...prev, summary].slice(-MAX_UNDO_STEPS));
+    setSummary({ ...summary, events, editedAt: Date.now() });
+  };
+
+  const handleCostStatusChange = (eventIndex: number, costIndex: number, status: CostStatus) => {
+    if (!summary) return;
+    handleEventsChange(summary.events.map((event, idx) => idx !== eventIndex ? event : {
+      ...event,
+      costs: event.costs?.map((cost, i) => (i === costIndex ? { ...cost, status } : cost)),
+      userEdited: true,
+    }));
+  };
+
+  const handleReminderSettingsChange = (settings: ReminderSettings) => {
+    saveReminderSettings(settings);
+    setReminderSettings(settings);
+  };
+
+  const handleRatesChange = (rates: ExchangeRates) => {
+    saveExchangeRates(rates);
+    setExchangeRates(rates);
+  };
+
+  const handleUndoEdit = () => {
+    const previous = summaryHistory[summaryHistory.length - 1];
+    if (!previous) return;
+    setSummaryHistory(summaryHistory.slice(0, -1));
+    setSummary(previous);
+  };
+
   const resetSession = () => {
-    if (confirm("This will clear the current chat and file. Are you sure?")) {
-      setCurrentFile(null);
-      setSummary(null);
-      setMessages([]);
-      chatSessionRef.current = null;
-      setStatus(ProcessingStatus.IDLE);
-      setShowTimeline(false);
+    if (confirm("Close this trip? It stays saved in My Trips.")) {
+      clearSession();
     }
   };
 
@@ -196,32 +679,153 @@ const App: React.FC = () => {
       {status === ProcessingStatus.READY && summary && (
          <Timeline 
            summary={summary} 
+           issues={itineraryIssues}
            isOpen={showTimeline} 
            onClose={() => setShowTimeline(false)} 
+           onEventsChange={handleEventsChange}
+           onUndo={handleUndoEdit}
+           canUndo={summaryHistory.length > 0}
+           reminderSettings={reminderSettings}
          />
       )}
 
+      {status === ProcessingStatus.READY && (
+        <NotesPanel
+          events={summary?.events ?? []}
+          messages={messages}
+          isOpen={showNotes}
+          onClose={() => setShowNotes(false)}
+          onNoteChange={handleNoteChange}
+          onUnpin={handleTogglePin}
+          onFileAnswer={handleFileAnswer}
+          onCitationClick={setOpenCitation}
+        />
+      )}
+
+      <TripLibrary
+        trips={savedTrips}
+        activeTripId={activeTrip?.id ?? null}
+        isOpen={showLibrary}
+        onClose={() => setShowLibrary(false)}
+        onOpenTrip={handleOpenTrip}
+        onRenameTrip={handleRenameTrip}
+        onDeleteTrip={handleDeleteTrip}
+        onNewTrip={handleNewTrip}
+        onImportSession={handleImportSession}
+      />
+
+      {showSettings && (
+        <SettingsPanel
+          settings={providerSettings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showMap && summary && (
+        <TripMap events={summary.events} onClose={() => setShowMap(false)} />
+      )}
+
+      {showBudget && summary && (
+        <BudgetPanel
+          events={summary.events}
+          rates={exchangeRates}
+          onRatesChange={handleRatesChange}
+          onCostStatusChange={handleCostStatusChange}
+          onClose={() => setShowBudget(false)}
+        />
+      )}
+
+      {showChecklist && summary && (
+        <ChecklistPanel
+          items={summary.checklist ?? []}
+          events={summary.events}
+          onToggle={handleChecklistToggle}
+          onRegenerate={handleRegenerateChecklist}
+          onShowEvent={() => {
+            setShowChecklist(false);
+            setShowTimeline(true);
+            setShowNotes(false);
+          }}
+          onCitationClick={setOpenCitation}
+          onClose={() => setShowChecklist(false)}
+        />
+      )}
+
+      {showReminders && summary && (
+        <RemindersPanel
+          events={summary.events}
+          settings={reminderSettings}
+          clock={clock}
+          onSettingsChange={handleReminderSettingsChange}
+          onClose={() => setShowReminders(false)}
+        />
+      )}
+
+      {showToday && summary && (
+        <TodayView
+          events={summary.events}
+          clock={clock}
+          canAsk={!isSending}
+          onAsk={question => {
+            setShowToday(false);
+            handleSendMessage(undefined, question, activeChatTraveler, true);
+          }}
+          onShowEvent={() => {
+            setShowToday(false);
+            setShowTimeline(true);
+            setShowNotes(false);
+          }}
+          onClose={() => setShowToday(false)}
+        />
+      )}
+
+      {openCitation && (
+        <SourceViewer citation={openCitation} files={files} onClose={() => setOpenCitation(null)} />
+      )}
+
       {/* Header */}
       <header className="h-16 border-b border-slate-100 bg-white flex items-center justify-between px-4 md:px-6 shadow-sm z-20 relative">
         <div className="flex items-center gap-2 text-travel-600">
+          <button
+            onClick={() => setShowLibrary(true)}
+            className="p-2 -ml-2 rounded-full hover:bg-travel-50 transition-colors"
+            title="My Trips"
+          >
+            <Briefcase size={20} />
+          </button>
           <Plane className="transform -rotate-45" />
           <span className="font-bold text-xl tracking-tight hidden md:inline">WanderLust AI</span>
           <span className="font-bold text-xl tracking-tight md:hidden">WanderLust</span>
         </div>
         
         <div className="flex items-center gap-2 md:gap-4">
-          {status === ProcessingStatus.READY && currentFile && (
+          <Button
+            variant="ghost"
+            onClick={() => setShowSettings(true)}
+            className="!px-2 text-slate-400 hover:text-travel-600"
+            title={`AI Settings (${providerSettings.model})`}
+          >
+            <Settings size={18} />
+          </Button>
+          {status === ProcessingStatus.READY && files.length > 0 && (
             <>
               <div className="hidden md:flex items-center gap-4 text-sm text-slate-500 bg-slate-50 px-4 py-1.5 rounded-full border border-slate-100">
                 <div className="flex items-center gap-2">
                   <FileText size={14} />
-                  <span className="font-medium text-slate-700 truncate max-w-[150px]">{summary?.title || currentFile.name}</span>
+                  <span className="font-medium text-slate-700 truncate max-w-[150px]">{activeTrip?.name || summary?.title || files[0].name}</span>
+                </div>
+                <div className="text-xs text-slate-400">
+                  {files.length} file{files.length === 1 ? '' : 's'}
                 </div>
               </div>
 
               <Button 
                 variant="secondary" 
-                onClick={() => setShowTimeline(!showTimeline)}
+                onClick={() => {
+                  setShowTimeline(!showTimeline);
+                  setShowNotes(false);
+                }}
                 className="!px-3"
                 title="Toggle Timeline"
               >
@@ -229,6 +833,78 @@ const App: React.FC = () => {
                 <span className="hidden sm:inline">Timeline</span>
               </Button>
 
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setShowNotes(!showNotes);
+                  setShowTimeline(false);
+                }}
+                className="!px-3"
+                title="Pinned answers and notes"
+              >
+                <NotebookPen size={18} className={showNotes ? "text-travel-600" : "text-slate-600"} />
+                <span className="hidden sm:inline">Notes</span>
+              </Button>
+
+              <Button
+                variant="secondary"
+                onClick={() => setShowToday(true)}
+                className="!px-3"
+                title="What's happening now and next"
+                disabled={!summary || summary.events.length === 0}
+              >
+                <Sun size={18} className="text-slate-600" />
+                <span className="hidden sm:inline">Today</span>
+              </Button>
+
+              <Button
+                variant="secondary"
+                onClick={() => setShowChecklist(true)}
+                className="!px-3"
+                title="Documents, check-in, payments and packing"
+                disabled={!summary}
+              >
+                <ListChecks size={18} className="text-slate-600" />
+                <span className="hidden sm:inline">Checklist</span>
+              </Button>
+
+              <Button
+                variant="secondary"
+                onClick={() => setShowMap(true)}
+                className="!px-3"
+                title="Show Trip Map"
+                disabled={!summary || summary.events.length === 0}
+              >
+                <Map size={18} className="text-slate-600" />
+                <span className="hidden sm:inline">Map</span>
+              </Button>
+
+              <Button
+                variant="secondary"
+                onClick={() => setShowBudget(true)}
+                className="!px-3"
+                title="Costs and payments"
+                disabled={!summary}
+              >
+                <Wallet size={18} className="text-slate-600" />
+                <span className="hidden sm:inline">Budget</span>
+              </Button>
+
+              <Button
+                variant="secondary"
+                onClick={() => setShowReminders(true)}
+                className="!px-3"
+                title="Reminders for departures and check-out"
+                disabled={!summary}
+              >
+                {reminderSettings.enabled
+                  ? <BellRing size={18} className="text-travel-600" />
+                  : <Bell size={18} className="text-slate-600" />}
+                <span className="hidden sm:inline">Reminders</span>
+              </Button>
+
+              <SessionExportMenu session={{ name: activeTrip?.name || summary?.title || files[0].name, files, summary, messages }} />
+
               <Button variant="ghost" onClick={resetSession} className="!px-2 text-slate-400 hover:text-red-500">
                 <X size={20} />
               </Button>
@@ -238,26 +914,48 @@ const App: React.FC = () => {
       </header>
 
       {/* Main Content */}
-      <main className={`flex-1 overflow-hidden relative flex flex-col transition-all duration-300 ${showTimeline ? 'md:mr-96' : ''}`}>
+      <main className={`flex-1 overflow-hidden relative flex flex-col transition-all duration-300 ${showTimeline || showNotes ? 'md:mr-96' : ''}`}>
         {status === ProcessingStatus.IDLE || status === ProcessingStatus.PARSING || status === ProcessingStatus.ANALYZING ? (
           <div className="flex-1 flex flex-col items-center justify-center bg-travel-50 relative">
              <UploadZone 
-              onFileSelect={handleFileSelect} 
+              onFilesSelect={handleFilesSelect} 
               isLoading={status !== ProcessingStatus.IDLE} 
+              progressText={progressText}
             />
             {status === ProcessingStatus.ANALYZING && (
-              <div className="absolute bottom-20 text-travel-600 font-medium animate-pulse flex items-center gap-2">
-                <Sparkles size={18} />
-                <span>AI is analyzing your trip details...</span>
+              <div className="absolute bottom-20 flex flex-col items-center gap-2">
+                <div className="text-travel-600 font-medium animate-pulse flex items-center gap-2">
+                  <Sparkles size={18} />
+                  <span>AI is analyzing your trip details...</span>
+                </div>
+                {summaryProgress && summaryProgress.total > 1 && (
+                  <div className="w-48 h-1.5 bg-travel-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-travel-500 transition-all duration-300"
+                      style={{ width: `${(summaryProgress.completed / summaryProgress.total) * 100}%` }}
+                    />
+                  </div>
+                )}
               </div>
             )}
           </div>
         ) : (
           <div className="flex-1 flex flex-col w-full h-full bg-slate-50/30">
-            
+            <TripFiles
+              files={files}
+              isUpdating={isUpdatingFiles}
+              progressText={progressText}
+              onAddFiles={handleAddFiles}
+              onRemoveFile={handleRemoveFile}
+            />
+
             {/* Chat Area */}
             <div className="flex-1 overflow-y-auto p-4 md:p-6 scrollbar-hide space-y-2">
-              
+              {summary?.analysis && (
+                <AnalysisStatusBanner analysis={summary.analysis} isReanalyzing={isUpdatingFiles} onReanalyze={handleReanalyze} />
+              )}
+              <ItineraryIssuesBanner issues={itineraryIssues} onShowTimeline={() => { setShowTimeline(true); setShowNotes(false); }} />
+
               {/* Suggested Questions Chips */}
               {messages.length < 3 && summary?.suggestedQuestions && (
                 <div className="flex flex-wrap gap-2 justify-center mb-6 animate-fade-in-up">
@@ -274,28 +972,40 @@ const App: React.FC = () => {
               )}
 
               {messages.map((msg) => (
-                <MessageBubble key={msg.id} message={msg} />
+                <MessageBubble
+                  key={msg.id}
+                  message={msg}
+                  onCitationClick={setOpenCitation}
+                  onRetry={msg.isError ? () => handleRetryMessage(msg.id) : undefined}
+                  onTogglePin={() => handleTogglePin(msg.id)}
+                />
               ))}
               
-              {isSending && (
-                <div className="flex justify-start mb-6">
-                   <div className="flex items-center gap-2 bg-white border border-slate-100 px-4 py-3 rounded-2xl rounded-tl-none shadow-sm">
-                      <div className="flex space-x-1">
-                        <div className="w-2 h-2 bg-travel-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-                        <div className="w-2 h-2 bg-travel-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-                        <div className="w-2 h-2 bg-travel-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
-                      </div>
-                      <span className="text-xs text-slate-400 font-medium">Checking itinerary...</span>
-                   </div>
-                </div>
-              )}
-              
               <div ref={messagesEndRef} />
             </div>
 
             {/* Input Area */}
             <div className="p-4 bg-white border-t border-slate-100 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.02)]">
               <div className="max-w-3xl mx-auto w-full">
+                {travelers.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-1.5 mb-3 text-xs">
+                    <span className="flex items-center gap-1 text-slate-400 mr-1"><Users size={13} /> Asking for</span>
+                    {[null, ...travelers].map(name => (
+                      <button
+                        key={name ?? 'everyone'}
+                        type="button"
+                        onClick={() => setChatTraveler(name)}
+                        className={`px-2.5 py-1 font-medium rounded-full border transition-colors ${
+                          activeChatTraveler === name
+                            ? 'bg-travel-600 text-white border-travel-600'
+                            : 'bg-white text-slate-600 border-slate-200 hover:border-travel-300'
+                        }`}
+                      >
+                        {name ?? 'Everyone'}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <form onSubmit={(e) => handleSendMessage(e)} className="relative flex items-center gap-2">
                   
                   <button
@@ -316,17 +1026,29 @@ const App: React.FC = () => {
                     type="text"
                     value={inputValue}
                     onChange={(e) => setInputValue(e.target.value)}
-                    placeholder={isListening ? "Listening..." : "Ask about your trip..."}
+                    placeholder={isListening ? "Listening..." : activeChatTraveler ? `Ask about ${activeChatTraveler}'s trip...` : "Ask about your trip..."}
                     className="flex-1 py-3 px-5 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-travel-500 focus:bg-white transition-all text-slate-700 placeholder:text-slate-400"
-                    disabled={isSending}
+                    disabled={isSending || isUpdatingFiles}
                   />
-                  <Button 
-                    type="submit" 
-                    disabled={!inputValue.trim() || isSending}
-                    className="aspect-square px-0 w-12 flex items-center justify-center rounded-xl shadow-none"
-                  >
-                    <Send size={20} />
-                  </Button>
+                  {isSending ? (
+                    <Button 
+                      type="button" 
+                      variant="secondary"
+                      onClick={handleStopStreaming}
+                      className="aspect-square px-0 w-12 flex items-center justify-center rounded-xl shadow-none"
+                      title="Stop generating"
+                    >
+                      <Square size={16} className="fill-current" />
+                    </Button>
+                  ) : (
+                    <Button 
+                      type="submit" 
+                      disabled={!inputValue.trim()}
+                      className="aspect-square px-0 w-12 flex items-center justify-center rounded-xl shadow-none"
+                    >
+                      <Send size={20} />
+                    </Button>
+                  )}
                 </form>
               </div>
             </div>
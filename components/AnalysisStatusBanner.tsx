@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { AlertOctagon, AlertTriangle, ChevronDown, Loader2, RefreshCw } from 'lucide-react';
+import { SummaryAnalysis } from '../types';
+
+interface AnalysisStatusBannerProps {
+  analysis: SummaryAnalysis;
+  isReanalyzing: boolean;
+  onReanalyze: () => void;
+}
+
+export const AnalysisStatusBanner: React.FC<AnalysisStatusBannerProps> = ({ analysis, isReanalyzing, onReanalyze }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const failed = analysis.state === 'failed';
+
+  return (
+    <div
+      className={`max-w-3xl mx-auto mb-4 border rounded-xl text-sm animate-fade-in-up ${
+        failed ? 'bg-red-50 border-red-100 text-red-900' : 'bg-amber-50 border-amber-100 text-amber-900'
+      }`}
+    >
+      <div className="flex items-center gap-3 px-4 py-3">
+        {failed
+          ? <AlertOctagon size={16} className="text-red-600 flex-shrink-0" />
+          : <AlertTriangle size={16} className="text-amber-600 flex-shrink-0" />}
+        <button onClick={() => setIsExpanded(!isExpanded)} className="flex-1 text-left font-medium flex items-center gap-1">
+          {failed
+            ? "The trip couldn't be analyzed, so the timeline may be empty."
+            : "Parts of your documents couldn't be analyzed. The timeline may be incomplete."}
+          <ChevronDown size={14} className={`flex-shrink-0 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </button>
+        <button
+          onClick={onReanalyze}
+          disabled={isReanalyzing}
+          className={`text-xs font-bold flex items-center gap-1 hover:underline disabled:opacity-50 disabled:no-underline flex-shrink-0 ${
+            failed ? 'text-red-700' : 'text-amber-700'
+          }`}
+        >
+          {isReanalyzing ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+          Re-analyze
+        </button>
+      </div>
+
+      {isExpanded && (
+        <ul className="px-4 pb-3 space-y-1 list-disc list-inside text-xs">
+          {analysis.problems.map((problem, idx) => <li key={idx}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { CostStatus, TripEvent, TripEventType } from '../types';
+import {
+  BudgetGrouping,
+  BudgetTotals,
+  CostLine,
+  ExchangeRates,
+  changeHomeCurrency,
+  formatMoney,
+  getCostLines,
+  getOutstandingCosts,
+  groupCostLines,
+  sumCostLines,
+} from '../services/budgetService';
+import { NOTE_CATEGORY_LABELS } from '../services/tripNotesService';
+import { formatDayHeading } from '../services/sessionExportService';
+import { utcToZonedTime } from '../services/eventTimeService';
+import { Wallet, X, AlertTriangle, ChevronDown } from 'lucide-react';
+
+interface BudgetPanelProps {
+  events: TripEvent[];
+  rates: ExchangeRates;
+  onRatesChange: (rates: ExchangeRates) => void;
+  // Without it the paid/due status is read-only
+  onCostStatusChange?: (eventIndex: number, costIndex: number, status: CostStatus) => void;
+  onClose: () => void;
+}
+
+export const BudgetPanel: React.FC<BudgetPanelProps> = ({ events, rates, onRatesChange, onCostStatusChange, onClose }) => {
+  const [grouping, setGrouping] = useState<BudgetGrouping>('category');
+  const [showRates, setShowRates] = useState(false);
+
+  const home = rates.homeCurrency;
+  const lines = getCostLines(events, rates);
+  const totals = sumCostLines(lines);
+  const outstanding = getOutstandingCosts(lines);
+  const tripCurrencies = [...new Set(lines.map(l => l.cost.currency))].filter(code => code !== home).sort();
+  const knownCurrencies = [...new Set([home, ...Object.keys(rates.rates), ...tripCurrencies])].sort();
+  const today = utcToZonedTime(Date.now()).slice(0, 10);
+
+  const handleRateChange = (code: string, value: string) => {
+    const next = { ...rates.rates };
+    const rate = Number(value);
+    if (value.trim() && rate > 0) next[code] = rate;
+    else delete next[code];
+    onRatesChange({ ...rates, rates: next });
+  };
+
+  const groupTitle = (key: string) =>
+    grouping === 'day' ? formatDayHeading(key) : NOTE_CATEGORY_LABELS[key as TripEventType];
+
+  const amountText = ({ cost, converted }: CostLine) =>
+    cost.currency === home || converted === null
+      ? formatMoney(cost.amount, cost.currency)
+      : `${formatMoney(cost.amount, cost.currency)} ≈ ${formatMoney(converted, home)}`;
+
+  const statusBadge = ({ cost, eventIndex, costIndex }: CostLine) => {
+    const overdue = cost.status === 'due' && !!cost.dueDate && cost.dueDate < today;
+    const className = `text-[10px] font-bold px-1.5 py-0.5 rounded ${
+      cost.status === 'paid' ? 'bg-green-50 text-green-700' : overdue ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'
+    }`;
+    const label = cost.status === 'paid' ? 'Paid' : overdue ? 'Overdue' : 'Due';
+    if (!onCostStatusChange) return <span className={className}>{label}</span>;
+    return (
+      <button
+        onClick={() => onCostStatusChange(eventIndex, costIndex, cost.status === 'paid' ? 'due' : 'paid')}
+        className={`${className} hover:ring-1 hover:ring-current`}
+        title={cost.status === 'paid' ? 'Mark as still due' : 'Mark as paid'}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  const totalsRow = (groupTotals: BudgetTotals) => (
+    <span className="text-xs text-slate-500">
+      {formatMoney(groupTotals.total, home)}
+      {groupTotals.due > 0 && <span className="text-amber-700"> · {formatMoney(groupTotals.due, home)} due</span>}
+    </span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-fade-in-up"
+      >
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Wallet size={18} className="text-travel-600" /> Budget
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X size={18} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {lines.length === 0 ? (
+            <p className="text-sm text-slate-400 italic text-center py-10">
+              No prices were found in your documents. Re-analyze the trip after adding invoices or booking confirmations.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                {[
+                  { label: 'Total', value: totals.total, className: 'text-slate-800' },
+                  { label: 'Paid', value: totals.paid, className: 'text-green-700' },
+                  { label: 'Still due', value: totals.due, className: 'text-amber-700' },
+                ].map(card => (
+                  <div key={card.label} className="bg-slate-50 rounded-xl p-3">
+                    <p className="text-[11px] font-bold text-slate-400 uppercase tracking-wider">{card.label}</p>
+                    <p className={`text-lg font-bold ${card.className}`}>{formatMoney(card.value, home)}</p>
+                  </div>
+                ))}
+              </div>
+
+              {totals.missingRates.length > 0 && (
+                <p className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 rounded-lg px-3 py-2">
+                  <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                  Amounts in {totals.missingRates.join(', ')} aren't in the totals. Add an exchange rate below.
+                </p>
+              )}
+
+              {outstanding.length > 0 && (
+                <section>
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Still to pay</h3>
+                  <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                    {outstanding.map(line => (
+                      <li key={`${line.eventIndex}-${line.costIndex}`} className="flex items-center gap-3 px-3 py-2 text-sm">
+                        <span className="w-24 flex-shrink-0 text-xs text-slate-500">{line.cost.dueDate ? `by ${line.cost.dueDate}` : 'No due date'}</span>
+                        <span className="flex-1 min-w-0 truncate text-slate-700">
+                          {line.event.activity}{line.cost.label && <span className="text-slate-400"> · {line.cost.label}</span>}
+                        </span>
+                        <span className="text-slate-800 font-medium">{amountText(line)}</span>
+                        {statusBadge(line)}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              <section>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">All costs</h3>
+                  <div className="flex text-xs font-medium bg-slate-100 rounded-md p-0.5">
+                    {(['category', 'day'] as BudgetGrouping[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setGrouping(option)}
+                        className={`px-2.5 py-1 rounded ${grouping === option ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                      >
+                        By {option}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  {groupCostLines(lines, grouping).map(group => (
+                    <div key={group.key} className="border border-slate-100 rounded-lg">
+                      <div className="flex items-center justify-between px-3 py-2 bg-slate-50 rounded-t-lg">
+                        <span className="text-sm font-semibold text-slate-700">{groupTitle(group.key)}</span>
+                        {totalsRow(group.totals)}
+                      </div>
+                      <ul className="divide-y divide-slate-100">
+                        {group.lines.map(line => (
+                          <li key={`${line.eventIndex}-${line.costIndex}`} className="flex items-center gap-3 px-3 py-2 text-sm">
+                            <span className="flex-1 min-w-0 truncate text-slate-700">
+                              {line.event.activity}{line.cost.label && <span className="text-slate-400"> · {line.cost.label}</span>}
+                            </span>
+                            <span className="text-slate-600">{amountText(line)}</span>
+                            {statusBadge(line)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+
+          <section className="border-t border-slate-100 pt-4">
+            <button
+              onClick={() => setShowRates(!showRates)}
+              className="w-full flex items-center justify-between text-xs font-bold text-slate-400 uppercase tracking-wider"
+            >
+              Home currency & exchange rates
+              <ChevronDown size={14} className={`transition-transform ${showRates ? 'rotate-180' : ''}`} />
+            </button>
+            {showRates && (
+              <div className="mt-3 space-y-3">
+                <label className="flex items-center gap-3 text-sm text-slate-600">
+                  Home currency
+                  <select
+                    value={home}
+                    onChange={(e) => onRatesChange(changeHomeCurrency(rates, e.target.value))}
+                    className="text-sm px-2 py-1 bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-travel-500"
+                  >
+                    {knownCurrencies.map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                </label>
+                {tripCurrencies.length === 0 ? (
+                  <p className="text-xs text-slate-400">All prices of this trip are in {home}.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {tripCurrencies.map(code => (
+                      <label key={code} className="flex items-center gap-2 text-sm text-slate-600">
+                        <span className="w-16 flex-shrink-0">1 {code} =</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          defaultValue={rates.rates[code] ?? ''}
+                          key={`${home}-${code}`}
+                          onBlur={(e) => handleRateChange(code, e.target.value)}
+                          className="w-full text-sm px-2 py-1 bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-travel-500"
+                        />
+                        <span>{home}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-slate-400">
+                  Rates are stored in this browser and never fetched online. The defaults are approximate; use your bank's rates for exact totals.
+                </p>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
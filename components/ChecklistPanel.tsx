@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { ChecklistItem, Citation, TripEvent } from '../types';
+import { CHECKLIST_CATEGORY_LABELS, countDone, findChecklistEvent, groupChecklist, isOverdue } from '../services/checklistService';
+import { formatDayHeading } from '../services/sessionExportService';
+import { utcToZonedTime } from '../services/eventTimeService';
+import { ListChecks, X, RefreshCw, FileText, CalendarDays, Loader2 } from 'lucide-react';
+
+interface ChecklistPanelProps {
+  items: ChecklistItem[];
+  events: TripEvent[];
+  onToggle: (id: string) => void;
+  onRegenerate: () => Promise<void>; // Ticked items stay ticked
+  onShowEvent?: (eventIndex: number) => void;
+  onCitationClick?: (citation: Citation) => void;
+  onClose: () => void;
+}
+
+export const ChecklistPanel: React.FC<ChecklistPanelProps> = ({
+  items,
+  events,
+  onToggle,
+  onRegenerate,
+  onShowEvent,
+  onCitationClick,
+  onClose,
+}) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = utcToZonedTime(Date.now()).slice(0, 10);
+  const done = countDone(items);
+
+  const handleRegenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      await onRegenerate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't write the checklist. Try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const sourceCitation = (item: ChecklistItem, fileName: string, pageNumber: number): Citation => ({
+    id: `${item.id}-${fileName}-${pageNumber}`,
+    raw: `[${fileName}, Page ${pageNumber}]`,
+    fileName,
+    pageNumber,
+    claim: item.quote ?? item.text,
+    isValid: true,
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-fade-in-up"
+      >
+        <div className="flex items-center justify-between gap-3 p-5 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ListChecks size={18} className="text-travel-600" /> Pre-trip checklist
+            </h2>
+            {items.length > 0 && <p className="text-xs text-slate-500 mt-0.5">{done} of {items.length} done</p>}
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handleRegenerate}
+              disabled={isGenerating}
+              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-travel-700 hover:bg-travel-50 rounded-md transition-colors disabled:opacity-50"
+              title="Write the checklist again from the current timeline"
+            >
+              {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+              {items.length > 0 ? 'Regenerate' : 'Create checklist'}
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+              <X size={18} className="text-slate-500" />
+            </button>
+          </div>
+        </div>
+
+        {items.length > 0 && (
+          <div className="h-1 bg-slate-100">
+            <div className="h-full bg-travel-500 transition-all" style={{ width: `${(done / items.length) * 100}%` }} />
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {error && <p className="text-xs text-red-700 bg-red-50 rounded-lg px-3 py-2">{error}</p>}
+
+          {items.length === 0 ? (
+            <p className="text-sm text-slate-400 italic text-center py-10">
+              No checklist yet. Create one to get the documents, entry rules, check-in times, payments and packing for this trip.
+            </p>
+          ) : (
+            groupChecklist(items).map(group => (
+              <section key={group.category}>
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{CHECKLIST_CATEGORY_LABELS[group.category]}</h3>
+                <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                  {group.items.map(item => {
+                    const eventIndex = findChecklistEvent(item, events);
+                    const overdue = isOverdue(item, today);
+                    return (
+                      <li key={item.id} className="flex items-start gap-3 px-3 py-2.5">
+                        <input
+                          type="checkbox"
+                          checked={!!item.done}
+                          onChange={() => onToggle(item.id)}
+                          className="mt-1 accent-travel-600"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between gap-2">
+                            <p className={`text-sm ${item.done ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{item.text}</p>
+                            {item.due && (
+                              <span className={`flex-shrink-0 text-[10px] font-bold px-1.5 py-0.5 rounded ${
+                                overdue ? 'bg-red-50 text-red-700' : 'bg-slate-100 text-slate-500'
+                              }`}>
+                                {overdue ? 'Overdue · ' : 'By '}{item.due.replace('T', ' ')}
+                              </span>
+                            )}
+                          </div>
+
+                          {item.quote && (
+                            <blockquote className="mt-1.5 pl-2 border-l-2 border-slate-200 text-xs text-slate-500 italic">“{item.quote}”</blockquote>
+                          )}
+
+                          {(item.event || item.sources?.length > 0) && (
+                            <div className="flex flex-wrap items-center gap-1 mt-1.5">
+                              {item.event && (
+                                eventIndex !== -1 && onShowEvent ? (
+                                  <button
+                                    onClick={() => onShowEvent(eventIndex)}
+                                    className="inline-flex items-center gap-1 text-[11px] text-slate-500 hover:text-travel-700"
+                                    title="Show in the timeline"
+                                  >
+                                    <CalendarDays size={11} /> {events[eventIndex].activity} · {formatDayHeading(events[eventIndex].date)}
+                                  </button>
+                                ) : (
+                                  <span className="inline-flex items-center gap-1 text-[11px] text-slate-400" title="No longer in the timeline">
+                                    <CalendarDays size={11} /> {item.event.activity}
+                                  </span>
+                                )
+                              )}
+                              {item.sources?.map(({ fileName, pageNumber }) => (
+                                <button
+                                  key={`${fileName}-${pageNumber}`}
+                                  onClick={() => onCitationClick?.(sourceCitation(item, fileName, pageNumber))}
+                                  className="inline-flex items-center gap-1 text-[11px] font-medium px-1.5 py-0.5 rounded-md border bg-travel-50 text-travel-700 border-travel-200 hover:bg-travel-100"
+                                >
+                                  <FileText size={10} /> {fileName} p. {pageNumber}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
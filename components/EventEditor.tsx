@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { TripEvent, TripEventType } from '../types';
+import { isValidTimeZone, normalizeEventTimes, resolveEventTimes } from '../services/eventTimeService';
+import { normalizeEventDetails } from '../services/eventDetailsService';
+import { formatParticipants, parseParticipants } from '../services/travelerService';
+import { createEventId } from '../services/summaryPipelineService';
+
+interface EventEditorProps {
+  event: TripEvent | null; // null when adding a new event
+  defaultDate: string;
+  onSave: (event: TripEvent) => void;
+  onCancel: () => void;
+}
+
+const EVENT_TYPES: { value: TripEventType; label: string }[] = [
+  { value: 'flight', label: 'Flight' },
+  { value: 'hotel', label: 'Hotel' },
+  { value: 'activity', label: 'Activity' },
+  { value: 'food', label: 'Food' },
+  { value: 'other', label: 'Other' },
+];
+
+const inputClass = "w-full px-2.5 py-1.5 border border-slate-200 rounded-md text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-travel-500";
+const labelClass = "text-[11px] font-bold text-slate-400 uppercase tracking-wider";
+
+export const EventEditor: React.FC<EventEditorProps> = ({ event, defaultDate, onSave, onCancel }) => {
+  const times = event ? resolveEventTimes(event) : null;
+  const [type, setType] = useState<TripEventType>(event?.type ?? 'activity');
+  const [activity, setActivity] = useState(event?.activity ?? '');
+  const [location, setLocation] = useState(event?.location ?? '');
+  const [date, setDate] = useState(times?.start.slice(0, 10) ?? defaultDate);
+  const [time, setTime] = useState(times && !times.allDay ? times.start.slice(11) : event?.time ?? '09:00');
+  const [allDay, setAllDay] = useState(times?.allDay ?? false);
+  // Only a real end is prefilled, not the one-hour default
+  const [end, setEnd] = useState(event?.end ?? '');
+  const [timeZone, setTimeZone] = useState(event?.timeZone ?? '');
+  const [endTimeZone, setEndTimeZone] = useState(event?.endTimeZone ?? '');
+  const [confirmationNumber, setConfirmationNumber] = useState(event?.confirmationNumber ?? '');
+  const [travelers, setTravelers] = useState(formatParticipants(event?.participants));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activity.trim()) return setError("Give the event a title.");
+    if (!date) return setError("Pick a date.");
+    const badZone = [timeZone, endTimeZone].find(zone => zone.trim() && !isValidTimeZone(zone.trim()));
+    if (badZone) return setError(`"${badZone}" is not a time zone. Use names like Europe/Paris.`);
+
+    const participants = parseParticipants(travelers);
+    const edited = {
+      ...event,
+      id: event?.id ?? createEventId(),
+      type,
+      activity: activity.trim(),
+      location: location.trim(),
+      date,
+      time: allDay ? (event?.time ?? '09:00') : time,
+      start: allDay ? date : `${date}T${time}`,
+      end: end ? (allDay ? end.slice(0, 10) : end) : undefined,
+      timeZone: timeZone.trim() || undefined,
+      endTimeZone: endTimeZone.trim() || undefined,
+      allDay: allDay || undefined,
+      confirmationNumber: confirmationNumber.trim() || undefined,
+      participants: participants.length > 0 ? participants : undefined,
+      userEdited: true,
+    } as TripEvent;
+    // Details of another type are dropped when the type changes
+    onSave(normalizeEventDetails(normalizeEventTimes(edited)));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border border-travel-200 rounded-lg p-3 shadow-sm space-y-2.5">
+      <div className="grid grid-cols-[auto,1fr] gap-2">
+        <select value={type} onChange={(e) => setType(e.target.value as TripEventType)} className={inputClass}>
+          {EVENT_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+        </select>
+        <input value={activity} onChange={(e) => setActivity(e.target.value)} placeholder="What" className={inputClass} autoFocus />
+      </div>
+
+      <input value={location} onChange={(e) => setLocation(e.target.value)} placeholder="Where" className={inputClass} />
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className={labelClass}>Date</span>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>Time</span>
+          <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={inputClass} disabled={allDay} />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={allDay}
+          onChange={(e) => {
+            setAllDay(e.target.checked);
+            setEnd(''); // The end format differs between the two
+          }}
+        />
+        All day / overnight stay
+      </label>
+
+      <label className="block space-y-1">
+        <span className={labelClass}>{allDay ? 'Until (check-out day)' : 'Ends'}</span>
+        <input
+          type={allDay ? 'date' : 'datetime-local'}
+          value={end}
+          onChange={(e) => setEnd(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className={labelClass}>Time zone</span>
+          <input value={timeZone} onChange={(e) => setTimeZone(e.target.value)} placeholder="Europe/Paris" className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className={labelClass}>{type === 'flight' ? 'Arrival zone' : 'End zone'}</span>
+          <input value={endTimeZone} onChange={(e) => setEndTimeZone(e.target.value)} placeholder="Same" className={inputClass} />
+        </label>
+      </div>
+
+      <input
+        value={confirmationNumber}
+        onChange={(e) => setConfirmationNumber(e.target.value)}
+        placeholder="Confirmation number"
+        className={inputClass}
+      />
+
+      <input
+        value={travelers}
+        onChange={(e) => setTravelers(e.target.value)}
+        placeholder="Travelers, e.g. Priya Sharma (Seat 14C), Tom Lee"
+        title="Leave empty when the booking is for everyone"
+        className={inputClass}
+      />
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-xs font-medium text-slate-500 hover:bg-slate-100 rounded-md">
+          Cancel
+        </button>
+        <button type="submit" className="px-3 py-1.5 text-xs font-medium text-white bg-travel-600 hover:bg-travel-500 rounded-md">
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
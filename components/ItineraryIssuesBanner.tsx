@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, Info, X } from 'lucide-react';
+import { ItineraryIssue } from '../services/itineraryCheckService';
+
+interface ItineraryIssuesBannerProps {
+  issues: ItineraryIssue[];
+  onShowTimeline: () => void;
+}
+
+export const ItineraryIssuesBanner: React.FC<ItineraryIssuesBannerProps> = ({ issues, onShowTimeline }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [dismissedIds, setDismissedIds] = useState<string[]>([]);
+
+  // Dismissing hides the current issues only; new ones bring the banner back
+  const visible = issues.filter(issue => !dismissedIds.includes(issue.id));
+  if (visible.length === 0) return null;
+
+  const warnings = visible.filter(issue => issue.severity === 'warning').length;
+
+  return (
+    <div className="max-w-3xl mx-auto mb-4 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-900 animate-fade-in-up">
+      <div className="flex items-center gap-3 px-4 py-3">
+        <AlertTriangle size={16} className="text-amber-600 flex-shrink-0" />
+        <button onClick={() => setIsExpanded(!isExpanded)} className="flex-1 text-left font-medium flex items-center gap-1">
+          {warnings > 0
+            ? `${warnings} possible problem${warnings === 1 ? '' : 's'} in your itinerary`
+            : `${visible.length} note${visible.length === 1 ? '' : 's'} about your itinerary`}
+          <ChevronDown size={14} className={`transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </button>
+        <button onClick={onShowTimeline} className="text-xs font-bold text-amber-700 hover:underline flex-shrink-0">
+          View in timeline
+        </button>
+        <button
+          onClick={() => setDismissedIds(visible.map(issue => issue.id))}
+          className="p-1 hover:bg-amber-100 rounded-full transition-colors flex-shrink-0"
+          title="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <ul className="px-4 pb-3 space-y-1.5">
+          {visible.map(issue => (
+            <li key={issue.id} className="flex items-start gap-2 text-xs">
+              {issue.severity === 'warning'
+                ? <AlertTriangle size={12} className="mt-0.5 text-amber-600 flex-shrink-0" />
+                : <Info size={12} className="mt-0.5 text-sky-600 flex-shrink-0" />}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,18 +1,87 @@
 import React from 'react';
-import { Message } from '../types';
-import { Bot, User, AlertCircle } from 'lucide-react';
+import { Citation, Message, ModelErrorKind } from '../types';
+import { Bot, User, AlertCircle, FileText, AlertTriangle, CircleStop, RotateCcw, Pin, Users } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import { linkCitations } from '../services/citationService';
 
 interface MessageBubbleProps {
   message: Message;
+  onCitationClick?: (citation: Citation) => void;
+  onRetry?: () => void; // Offered on error bubbles
+  onTogglePin?: () => void; // Offered on finished answers
 }
 
-export const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
+const ERROR_MESSAGES: Record<ModelErrorKind, { title: string; text: string }> = {
+  auth: {
+    title: 'Not authorized',
+    text: "The AI service rejected the API key. Check the key (or the provider in Settings) and try again.",
+  },
+  quota: {
+    title: 'Rate limit reached',
+    text: "The AI service is receiving too many requests or your quota is used up. Wait a minute and try again.",
+  },
+  safety: {
+    title: 'Answer blocked',
+    text: "The AI service's safety filter blocked this answer. Try rephrasing your question.",
+  },
+  'context-length': {
+    title: 'Too much text',
+    text: "This question plus the document passages is more than the model can read at once. Try a shorter, more specific question, or start a new trip with fewer documents.",
+  },
+  network: {
+    title: 'No connection',
+    text: "Couldn't reach the AI service. Check your internet connection (or that your local model server is running) and try again.",
+  },
+  timeout: {
+    title: 'Timed out',
+    text: "The AI service took too long to answer. It may be busy; try again in a moment.",
+  },
+  'bad-request': {
+    title: 'Request rejected',
+    text: "The AI service refused this request. Check the model name in Settings, or try rephrasing your question.",
+  },
+  unknown: {
+    title: 'Error',
+    text: "Something went wrong while getting an answer. Please try again.",
+  },
+};
+
+export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCitationClick, onRetry, onTogglePin }) => {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
 
   if (isSystem) return null;
 
+  const citations = message.citations ?? [];
+  const invalidCount = citations.filter(c => !c.isValid).length;
+  const errorInfo = message.isError && message.errorKind ? ERROR_MESSAGES[message.errorKind] : null;
+  const text = errorInfo?.text ?? message.content;
+  const content = citations.length > 0 ? linkCitations(text, citations) : text;
+  const canPin = !isUser && !message.isError && !message.isStreaming && !!message.content && !!onTogglePin;
+  // Stopped before the first word: there is no answer to show
+  const isUnanswered = message.isTruncated && !message.content;
+
+  const renderLink = ({ href, children }: { href?: string; children?: React.ReactNode }) => {
+    const citation = href?.startsWith('#citation-') ? citations.find(c => `#${c.id}` === href) : undefined;
+    if (!citation) return <a href={href} target="_blank" rel="noreferrer">{children}</a>;
+
+    return (
+      <button
+        type="button"
+        onClick={() => onCitationClick?.(citation)}
+        title={citation.isValid ? 'View source passage' : "This page doesn't exist in your documents"}
+        className={`not-prose inline-flex items-center gap-1 align-baseline text-[11px] font-medium px-1.5 py-0.5 mx-0.5 rounded-md border transition-colors ${
+          citation.isValid
+            ? 'bg-travel-50 text-travel-700 border-travel-200 hover:bg-travel-100'
+            : 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100'
+        }`}
+      >
+        {citation.isValid ? <FileText size={10} /> : <AlertTriangle size={10} />}
+        {children}
+      </button>
+    );
+  };
+
   return (
     <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`flex max-w-[85%] md:max-w-[75%] gap-3 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -34,17 +103,78 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           {message.isError && (
             <div className="flex items-center gap-2 mb-2 font-bold text-red-600">
               <AlertCircle size={14} />
-              <span>Error</span>
+              <span>{errorInfo?.title ?? 'Error'}</span>
             </div>
           )}
           
-          <div className={`prose prose-sm max-w-none ${isUser ? 'prose-invert' : 'prose-slate'}`}>
-             {/* We treat the output as markdown */}
-             <ReactMarkdown>{message.content}</ReactMarkdown>
-          </div>
+          {message.isStreaming && !message.content ? (
+            <div className="flex items-center gap-2">
+              <div className="flex space-x-1">
+                <div className="w-2 h-2 bg-travel-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                <div className="w-2 h-2 bg-travel-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                <div className="w-2 h-2 bg-travel-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+              </div>
+              <span className="text-xs text-slate-400 font-medium">Checking itinerary...</span>
+            </div>
+          ) : isUnanswered ? null : (
+            <div className={`prose prose-sm max-w-none ${isUser ? 'prose-invert' : 'prose-slate'}`}>
+               {/* We treat the output as markdown */}
+               <ReactMarkdown components={{ a: renderLink }}>{content}</ReactMarkdown>
+               {message.isStreaming && (
+                 <span className="inline-block w-1.5 h-4 bg-travel-400 align-text-bottom animate-pulse" />
+               )}
+            </div>
+          )}
+
+          {message.isTruncated && (
+            <div className={`flex items-center gap-1.5 text-[11px] text-slate-400 italic ${isUnanswered ? '' : 'mt-2'}`}>
+              <CircleStop size={12} />
+              <span>{isUnanswered ? 'Stopped before any answer arrived.' : 'Stopped early. This answer may be incomplete.'}</span>
+            </div>
+          )}
+
+          {message.isError && onRetry && (
+            <button
+              type="button"
+              onClick={onRetry}
+              className="flex items-center gap-1.5 mt-3 px-2.5 py-1 text-xs font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-100 transition-colors"
+            >
+              <RotateCcw size={12} />
+              Retry this message
+            </button>
+          )}
+
+          {invalidCount > 0 && (
+            <div className="flex items-center gap-1.5 mt-2 text-[11px] text-amber-700">
+              <AlertTriangle size={12} />
+              <span>
+                {invalidCount} citation{invalidCount === 1 ? '' : 's'} point{invalidCount === 1 ? 's' : ''} to a page that doesn't exist. Double-check {invalidCount === 1 ? 'it' : 'them'}.
+              </span>
+            </div>
+          )}
           
-          <div className={`text-[10px] mt-2 opacity-70 ${isUser ? 'text-right text-travel-100' : 'text-slate-400'}`}>
-            {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          <div className={`flex items-center gap-2 text-[10px] mt-2 ${isUser ? 'justify-end text-travel-100' : 'text-slate-400'}`}>
+            <span className="opacity-70">
+              {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+            {message.traveler && (
+              <span className="flex items-center gap-1 opacity-90" title="Answered for this traveler only">
+                <Users size={11} /> For {message.traveler}
+              </span>
+            )}
+            {canPin && (
+              <button
+                type="button"
+                onClick={onTogglePin}
+                title={message.isPinned ? 'Unpin from the trip briefing' : 'Pin to the trip briefing'}
+                className={`ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded-md transition-colors ${
+                  message.isPinned ? 'text-travel-700 bg-travel-50 hover:bg-travel-100' : 'hover:text-travel-600 hover:bg-slate-50'
+                }`}
+              >
+                <Pin size={11} className={message.isPinned ? 'fill-current' : ''} />
+                {message.isPinned ? 'Pinned' : 'Pin'}
+              </button>
+            )}
           </div>
         </div>
       </div>
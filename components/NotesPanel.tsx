@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Citation, Message, NoteCategory, PinGroup, TripEvent } from '../types';
+import { NOTE_CATEGORY_LABELS, NoteGrouping, groupTripNotes } from '../services/tripNotesService';
+import { formatDayHeading, formatNoteGroupTitle, groupEventsByDay } from '../services/sessionExportService';
+import { NotebookPen, X, Pin, PinOff, Pencil, Trash2, Plus, StickyNote, FileText } from 'lucide-react';
+
+interface NotesPanelProps {
+  events: TripEvent[];
+  messages: Message[];
+  isOpen: boolean;
+  onClose: () => void;
+  onNoteChange: (eventIndex: number, note: string) => void; // An empty note removes it
+  onUnpin: (messageId: string) => void;
+  onFileAnswer: (messageId: string, group: PinGroup) => void;
+  onCitationClick?: (citation: Citation) => void;
+}
+
+const inputClass = "w-full text-sm px-2 py-1.5 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-travel-500";
+const selectClass = "text-[11px] text-slate-500 bg-slate-50 border border-slate-200 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-travel-500";
+
+export const NotesPanel: React.FC<NotesPanelProps> = ({
+  events,
+  messages,
+  isOpen,
+  onClose,
+  onNoteChange,
+  onUnpin,
+  onFileAnswer,
+  onCitationClick,
+}) => {
+  const [grouping, setGrouping] = useState<NoteGrouping>('day');
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newNoteIndex, setNewNoteIndex] = useState(0);
+  const [draft, setDraft] = useState('');
+
+  const groups = groupTripNotes(events, messages, grouping);
+  const tripDays = groupEventsByDay(events).map(day => day.date);
+
+  const startEditing = (index: number) => {
+    setIsAdding(false);
+    setEditingIndex(index);
+    setDraft(events[index].note ?? '');
+  };
+
+  const startAdding = () => {
+    setEditingIndex(null);
+    setIsAdding(true);
+    setNewNoteIndex(0);
+    setDraft('');
+  };
+
+  const commitNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    const index = isAdding ? newNoteIndex : editingIndex;
+    if (index === null || !events[index]) return;
+    // Adding to an event that already has a note appends to it
+    const existing = isAdding ? events[index].note : undefined;
+    onNoteChange(index, existing ? `${existing}\n${draft}` : draft);
+    setIsAdding(false);
+    setEditingIndex(null);
+  };
+
+  const cancelNote = () => {
+    setIsAdding(false);
+    setEditingIndex(null);
+  };
+
+  const noteForm = (eventPicker?: React.ReactNode) => (
+    <form onSubmit={commitNote} className="bg-white border border-travel-200 rounded-lg p-3 shadow-sm space-y-2">
+      {eventPicker}
+      <textarea
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && cancelNote()}
+        rows={3}
+        placeholder="Door code, who booked it, what to bring..."
+        className={inputClass}
+      />
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={cancelNote} className="px-3 py-1.5 text-xs font-medium text-slate-500 hover:bg-slate-100 rounded-md">
+          Cancel
+        </button>
+        <button type="submit" disabled={isAdding && !draft.trim()} className="px-3 py-1.5 text-xs font-medium text-white bg-travel-600 hover:bg-travel-500 rounded-md disabled:opacity-50">
+          Save
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div
+      className={`
+        fixed inset-y-0 right-0 w-full md:w-96 bg-white shadow-2xl transform transition-transform duration-300 ease-in-out z-30
+        ${isOpen ? 'translate-x-0' : 'translate-x-full'}
+        border-l border-slate-200 flex flex-col
+      `}
+    >
+      <div className="p-6 bg-amber-50 border-b border-amber-100">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <NotebookPen size={20} className="text-amber-600" /> Trip notes
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">Pinned answers and your own notes on bookings</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex text-xs font-medium bg-slate-100 rounded-md p-0.5">
+            {(['day', 'category'] as NoteGrouping[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setGrouping(option)}
+                className={`px-2.5 py-1 rounded ${grouping === option ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                By {option}
+              </button>
+            ))}
+          </div>
+          {events.length > 0 && (
+            <button
+              onClick={startAdding}
+              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-travel-700 hover:bg-travel-50 rounded-md transition-colors"
+            >
+              <Plus size={14} /> Add note
+            </button>
+          )}
+        </div>
+
+        {isAdding && (
+          <div className="mb-6">
+            {noteForm(
+              <select value={newNoteIndex} onChange={(e) => setNewNoteIndex(Number(e.target.value))} className={inputClass}>
+                {events.map((event, idx) => (
+                  <option key={idx} value={idx}>{event.date} · {event.activity}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-slate-400 italic text-center py-10">
+            Pin useful answers from the chat, or add notes to your bookings. They are saved with the trip and included in exports.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <section key={group.key}>
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{formatNoteGroupTitle(group)}</h3>
+                <div className="space-y-2">
+                  {group.eventNotes.map(({ event, index }) => (
+                    editingIndex === index ? (
+                      <div key={`note-${index}`}>{noteForm()}</div>
+                    ) : (
+                      <div key={`note-${index}`} className="group bg-amber-50/60 border border-amber-100 rounded-lg p-3">
+                        <div className="flex items-start gap-2">
+                          <StickyNote size={14} className="mt-0.5 text-amber-500 flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-[11px] font-medium text-slate-500 truncate">{event.activity}</p>
+                            <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{event.note}</p>
+                          </div>
+                          <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                            <button onClick={() => startEditing(index)} className="p-1 text-slate-400 hover:text-travel-700" title="Edit note">
+                              <Pencil size={13} />
+                            </button>
+                            <button onClick={() => onNoteChange(index, '')} className="p-1 text-slate-400 hover:text-red-600" title="Delete note">
+                              <Trash2 size={13} />
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    )
+                  ))}
+
+                  {group.answers.map(({ question, answer }) => {
+                    const filed = answer.pinnedTo ?? { category: 'general' as NoteCategory };
+                    const sources = (answer.citations ?? [])
+                      .filter(c => c.isValid)
+                      .filter((c, i, all) => all.findIndex(o => o.fileName === c.fileName && o.pageNumber === c.pageNumber) === i);
+                    return (
+                      <div key={answer.id} className="bg-white border border-slate-100 rounded-lg p-3 shadow-sm">
+                        <div className="flex items-start gap-2">
+                          <Pin size={14} className="mt-0.5 text-travel-500 flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            {question && <p className="text-xs font-semibold text-slate-800 mb-1">{question.content}</p>}
+                            <div className="prose prose-sm prose-slate max-w-none text-sm">
+                              <ReactMarkdown>{answer.content}</ReactMarkdown>
+                            </div>
+                          </div>
+                          <button onClick={() => onUnpin(answer.id)} className="p-1 text-slate-400 hover:text-red-600" title="Unpin">
+                            <PinOff size={13} />
+                          </button>
+                        </div>
+
+                        {sources.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2 pl-6">
+                            {sources.map(citation => (
+                              <button
+                                key={citation.id}
+                                onClick={() => onCitationClick?.(citation)}
+                                className="inline-flex items-center gap-1 text-[11px] font-medium px-1.5 py-0.5 rounded-md border bg-travel-50 text-travel-700 border-travel-200 hover:bg-travel-100"
+                              >
+                                <FileText size={10} /> {citation.fileName} p. {citation.pageNumber}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        <div className="flex items-center gap-1.5 mt-2 pl-6">
+                          <select
+                            value={filed.date ?? ''}
+                            onChange={(e) => onFileAnswer(answer.id, { ...filed, date: e.target.value || undefined })}
+                            className={selectClass}
+                            title="Trip day"
+                          >
+                            <option value="">Whole trip</option>
+                            {[...new Set([...tripDays, ...(filed.date ? [filed.date] : [])])].sort().map(date => (
+                              <option key={date} value={date}>{formatDayHeading(date)}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={filed.category}
+                            onChange={(e) => onFileAnswer(answer.id, { ...filed, category: e.target.value as NoteCategory })}
+                            className={selectClass}
+                            title="Category"
+                          >
+                            {(Object.keys(NOTE_CATEGORY_LABELS) as NoteCategory[]).map(category => (
+                              <option key={category} value={category}>{NOTE_CATEGORY_LABELS[category]}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
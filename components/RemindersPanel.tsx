@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { TripEvent } from '../types';
+import {
+  REMINDER_KINDS,
+  REMINDER_LABELS,
+  ReminderKind,
+  ReminderSettings,
+  buildReminders,
+  formatLeadTime,
+  getUpcomingReminders,
+} from '../services/reminderService';
+import { Clock } from '../services/clockService';
+import { Bell, BellOff, X, AlertTriangle } from 'lucide-react';
+
+interface RemindersPanelProps {
+  events: TripEvent[];
+  settings: ReminderSettings;
+  clock: Clock;
+  onSettingsChange: (settings: ReminderSettings) => void;
+  onClose: () => void;
+}
+
+const LEAD_TIME_OPTIONS = [15, 30, 60, 90, 120, 180, 240, 360, 720, 1440, 2880];
+
+// What each lead time is measured from
+const LEAD_TIME_HINTS: Record<ReminderKind, string> = {
+  'leave-for-airport': 'before departure',
+  'check-in-opens': 'before departure',
+  'check-out': 'before check-out time',
+};
+
+const MAX_UPCOMING = 8;
+
+const notificationsSupported = () => typeof Notification !== 'undefined';
+
+export const RemindersPanel: React.FC<RemindersPanelProps> = ({ events, settings, clock, onSettingsChange, onClose }) => {
+  const [permission, setPermission] = useState(notificationsSupported() ? Notification.permission : 'denied');
+
+  const upcoming = getUpcomingReminders(buildReminders(events, settings), clock).slice(0, MAX_UPCOMING);
+
+  const handleToggleNotifications = async () => {
+    if (settings.enabled) return onSettingsChange({ ...settings, enabled: false });
+    // The browser only asks in response to a click
+    const result = permission === 'default' ? await Notification.requestPermission() : permission;
+    setPermission(result);
+    if (result === 'granted') onSettingsChange({ ...settings, enabled: true });
+  };
+
+  const handleLeadChange = (kind: ReminderKind, minutes: number) => {
+    onSettingsChange({ ...settings, leadMinutes: { ...settings.leadMinutes, [kind]: minutes } });
+  };
+
+  const formatWhen = (utcMillis: number) =>
+    new Date(utcMillis).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col animate-fade-in-up"
+      >
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Bell size={18} className="text-travel-600" /> Reminders
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X size={18} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <section className="space-y-3">
+            <button
+              onClick={handleToggleNotifications}
+              disabled={!settings.enabled && permission === 'denied'}
+              className={`w-full flex items-center justify-between gap-3 px-3 py-2.5 rounded-lg border text-sm transition-colors disabled:opacity-60 ${
+                settings.enabled ? 'bg-travel-50 border-travel-200 text-travel-800' : 'bg-white border-slate-200 text-slate-700 hover:border-travel-300'
+              }`}
+            >
+              <span className="flex items-center gap-2 font-medium">
+                {settings.enabled ? <Bell size={16} /> : <BellOff size={16} />}
+                Browser notifications
+              </span>
+              <span className="text-xs">{settings.enabled ? 'On' : 'Off'}</span>
+            </button>
+            {permission === 'denied' && (
+              <p className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 rounded-lg px-3 py-2">
+                <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                {notificationsSupported()
+                  ? 'Notifications are blocked for this site. Allow them in your browser settings to get reminders.'
+                  : "This browser doesn't support notifications."}
+              </p>
+            )}
+            <p className="text-xs text-slate-400">Notifications arrive while WanderLust is open in a tab.</p>
+
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={settings.inCalendar}
+                onChange={(e) => onSettingsChange({ ...settings, inCalendar: e.target.checked })}
+                className="accent-travel-600"
+              />
+              Add these reminders as alarms to calendar exports
+            </label>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">When to remind</h3>
+            <div className="space-y-2">
+              {REMINDER_KINDS.map(kind => (
+                <label key={kind} className="flex items-center justify-between gap-3 text-sm text-slate-700">
+                  {REMINDER_LABELS[kind]}
+                  <span className="flex items-center gap-2 text-xs text-slate-500">
+                    <select
+                      value={settings.leadMinutes[kind]}
+                      onChange={(e) => handleLeadChange(kind, Number(e.target.value))}
+                      className="text-sm px-2 py-1 bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-travel-500"
+                    >
+                      {[...new Set([...LEAD_TIME_OPTIONS, settings.leadMinutes[kind]])].sort((a, b) => a - b).map(minutes => (
+                        <option key={minutes} value={minutes}>{formatLeadTime(minutes)}</option>
+                      ))}
+                    </select>
+                    {LEAD_TIME_HINTS[kind]}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Coming up</h3>
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">No flights or stays ahead to remind you of.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                {upcoming.map(reminder => (
+                  <li key={reminder.id} className="px-3 py-2 text-sm">
+                    <p className="text-slate-700">{reminder.title}</p>
+                    <p className="text-xs text-slate-500">{formatWhen(reminder.at)} · {reminder.body}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
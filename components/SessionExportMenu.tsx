@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Share2, FileText, Printer, FileJson, Check } from 'lucide-react';
+import { Button } from './Button';
+import { buildBriefingHtml } from './TripBriefing';
+import { TripSession, buildSessionJson, buildSessionMarkdown, sessionFileName } from '../services/sessionExportService';
+
+interface SessionExportMenuProps {
+  session: TripSession;
+}
+
+export const SessionExportMenu: React.FC<SessionExportMenuProps> = ({ session }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [downloadStatus, setDownloadStatus] = useState<'idle' | 'success'>('idle');
+
+  const downloadFile = (content: string, filename: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    setDownloadStatus('success');
+    setTimeout(() => setDownloadStatus('idle'), 2000);
+    setIsOpen(false);
+  };
+
+  const handleExportMarkdown = () => {
+    downloadFile(buildSessionMarkdown(session), sessionFileName(session, 'md'), 'text/markdown');
+  };
+
+  const handlePrintBriefing = () => {
+    const html = buildBriefingHtml(session);
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    const briefing = window.open(url, '_blank');
+    setIsOpen(false);
+    if (!briefing) {
+      // Pop-ups blocked: hand over the page to open and print by hand
+      URL.revokeObjectURL(url);
+      downloadFile(html, sessionFileName(session, 'html'), 'text/html');
+      return;
+    }
+    // Give the new tab time to load the page before dropping it
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleExportSession = () => {
+    downloadFile(buildSessionJson(session), sessionFileName(session, 'wanderlust.json'), 'application/json');
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="secondary"
+        onClick={() => setIsOpen(!isOpen)}
+        className="!px-3"
+        title="Export or share this trip"
+      >
+        {downloadStatus === 'success' ? <Check size={18} className="text-green-600" /> : <Share2 size={18} className="text-slate-600" />}
+        <span className="hidden sm:inline">Export</span>
+      </Button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40 bg-transparent" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-lg shadow-xl border border-slate-100 overflow-hidden z-50 animate-fade-in-up">
+            <button
+              onClick={handlePrintBriefing}
+              className="w-full text-left px-4 py-3 hover:bg-slate-50 text-sm flex items-start gap-2 text-slate-700"
+            >
+              <Printer size={16} className="mt-0.5" />
+              <span>
+                Printable briefing
+                <span className="block text-xs text-slate-400">Timeline, bookings and pinned answers</span>
+              </span>
+            </button>
+            <button
+              onClick={handleExportMarkdown}
+              className="w-full text-left px-4 py-3 hover:bg-slate-50 text-sm flex items-start gap-2 text-slate-700 border-t border-slate-100"
+            >
+              <FileText size={16} className="mt-0.5" />
+              <span>
+                Markdown
+                <span className="block text-xs text-slate-400">Briefing plus the full conversation</span>
+              </span>
+            </button>
+            <button
+              onClick={handleExportSession}
+              className="w-full text-left px-4 py-3 hover:bg-slate-50 text-sm flex items-start gap-2 text-slate-700 border-t border-slate-100"
+            >
+              <FileJson size={16} className="mt-0.5" />
+              <span>
+                Session file
+                <span className="block text-xs text-slate-400">For a teammate to import in My Trips</span>
+              </span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
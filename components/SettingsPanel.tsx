@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Settings, X } from 'lucide-react';
+import { Button } from './Button';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  DEFAULT_MODELS,
+  DEFAULT_SERVER_URL,
+  PROVIDER_LABELS,
+  ProviderId,
+  ProviderSettings,
+} from '../services/llmProvider';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const handleProviderChange = (provider: ProviderId) => {
+    // Switch to the new provider's default model unless the user typed a custom one
+    const isDefaultModel = Object.values(DEFAULT_MODELS).includes(draft.model) || !draft.model;
+    setDraft({ ...draft, provider, model: isDefaultModel ? DEFAULT_MODELS[provider] : draft.model });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ ...draft, model: draft.model.trim() || DEFAULT_MODELS[draft.provider] });
+  };
+
+  const inputClass = "w-full text-sm px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-travel-500 focus:bg-white";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md animate-fade-in-up"
+      >
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Settings size={18} className="text-travel-600" /> AI Settings
+          </h2>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X size={18} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Provider</span>
+            <select
+              value={draft.provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              className={`${inputClass} mt-1`}
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </label>
+
+          {draft.provider === 'proxy' && (
+            <>
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Server URL</span>
+                <input
+                  value={draft.serverUrl}
+                  onChange={(e) => setDraft({ ...draft, serverUrl: e.target.value })}
+                  placeholder={DEFAULT_SERVER_URL}
+                  className={`${inputClass} mt-1 font-mono`}
+                />
+              </label>
+              <p className="text-xs text-slate-500 bg-slate-50 rounded-lg p-3">
+                The app server holds the API key and picks the model, so nothing secret reaches your browser.
+              </p>
+            </>
+          )}
+
+          {draft.provider !== 'proxy' && (
+            <label className="block">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Model</span>
+              <input
+                value={draft.model}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                placeholder={DEFAULT_MODELS[draft.provider]}
+                className={`${inputClass} mt-1 font-mono`}
+              />
+            </label>
+          )}
+
+          {draft.provider === 'gemini' && (
+            <label className="block">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Gemini API Key</span>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                className={`${inputClass} mt-1 font-mono`}
+              />
+              <span className="text-[11px] text-slate-400 mt-1 block">Stored in this browser only. Use the app server to keep the key off your device.</span>
+            </label>
+          )}
+
+          {draft.provider === 'openai-compatible' && (
+            <>
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Base URL</span>
+                <input
+                  value={draft.baseUrl}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={`${inputClass} mt-1 font-mono`}
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Embedding Model</span>
+                <input
+                  value={draft.embeddingModel}
+                  onChange={(e) => setDraft({ ...draft, embeddingModel: e.target.value })}
+                  placeholder={DEFAULT_EMBEDDING_MODEL}
+                  className={`${inputClass} mt-1 font-mono`}
+                />
+                <span className="text-[11px] text-slate-400 mt-1 block">Used to search your documents. Leave empty to search them in the browser instead.</span>
+              </label>
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">API Key (optional)</span>
+                <input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                  className={`${inputClass} mt-1 font-mono`}
+                />
+              </label>
+            </>
+          )}
+
+          {draft.provider === 'mock' && (
+            <p className="text-xs text-slate-500 bg-slate-50 rounded-lg p-3">
+              The mock provider never leaves your browser and always returns the same placeholder answers. Useful for demos and tests.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t border-slate-100">
+          <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button type="submit">Save</Button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef } from 'react';
+import { Citation, UploadedFile } from '../types';
+import { FileText, X, AlertTriangle } from 'lucide-react';
+import { findSupportingPassage, getPage } from '../services/citationService';
+
+interface SourceViewerProps {
+  citation: Citation;
+  files: UploadedFile[];
+  onClose: () => void;
+}
+
+export const SourceViewer: React.FC<SourceViewerProps> = ({ citation, files, onClose }) => {
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const file = files.find(f => f.name === citation.fileName);
+  const page = file ? getPage(file, citation.pageNumber) : undefined;
+  const span = page ? findSupportingPassage(page.text, citation.claim) : null;
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [citation.id]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4 p-5 border-b border-slate-100">
+          <div className="min-w-0">
+            <p className="text-sm font-bold text-slate-800 flex items-center gap-2">
+              <FileText size={16} className="text-travel-600 flex-shrink-0" />
+              <span className="truncate">{citation.fileName ?? 'Unknown file'}</span>
+              <span className="text-slate-400 font-normal">· Page {citation.pageNumber}</span>
+              {page?.isOcr && (
+                <span
+                  className="text-[10px] font-bold uppercase text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded"
+                  title="This page is a scan; its text was recognized by OCR and may contain errors"
+                >
+                  OCR
+                </span>
+              )}
+            </p>
+            {citation.claim && (
+              <p className="text-xs text-slate-500 mt-1 italic line-clamp-2">“{citation.claim}”</p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors flex-shrink-0">
+            <X size={18} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {!page ? (
+            <div className="flex items-start gap-3 bg-amber-50 border border-amber-100 text-amber-800 rounded-lg p-4 text-sm">
+              <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+              <p>
+                This citation points to a page that doesn't exist in your uploaded documents
+                {file ? ` (${file.name} has ${file.pageCount} page${file.pageCount === 1 ? '' : 's'})` : ''}.
+                Double-check this part of the answer.
+              </p>
+            </div>
+          ) : (
+            <>
+              {!span && (
+                <p className="text-xs text-slate-400 italic mb-3">
+                  No passage on this page clearly matches the cited sentence.
+                </p>
+              )}
+              <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap font-mono">
+                {span ? (
+                  <>
+                    {page.text.slice(0, span.start)}
+                    <mark ref={highlightRef} className="bg-yellow-200 text-slate-900 rounded px-0.5">
+                      {page.text.slice(span.start, span.end)}
+                    </mark>
+                    {page.text.slice(span.end)}
+                  </>
+                ) : page.text || <span className="italic text-slate-400">This page has no extracted text.</span>}
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
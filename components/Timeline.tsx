@@ -1,16 +1,80 @@
-import React, { useState } from 'react';
-import { TripSummary } from '../types';
-import { Plane, Hotel, Utensils, MapPin, Calendar, X, Download, FileJson, CalendarRange, Check } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { TripEvent, TripSummary } from '../types';
+import { buildIcsCalendar } from '../services/icsService';
+import { countNights, resolveEventTimes, zonedTimeToUtc } from '../services/eventTimeService';
+import { getEventDetailEntries } from '../services/eventDetailsService';
+import { formatMoney } from '../services/budgetService';
+import { ReminderSettings } from '../services/reminderService';
+import { collectTravelers, filterEventsForTraveler, formatParticipants, isSameTraveler, isTravelerOnEvent } from '../services/travelerService';
+import { ItineraryIssue } from '../services/itineraryCheckService';
+import { EventEditor } from './EventEditor';
+import { Plane, Hotel, Utensils, MapPin, Calendar, X, Download, FileJson, CalendarRange, Check, ChevronDown, AlertTriangle, Info, Pencil, Trash2, ArrowUp, ArrowDown, Plus, Undo2, StickyNote, Users } from 'lucide-react';
 
 interface TimelineProps {
   summary: TripSummary;
+  issues?: ItineraryIssue[];
   isOpen: boolean;
   onClose: () => void;
+  // Without it the timeline is read-only
+  onEventsChange?: (events: TripEvent[]) => void;
+  onUndo?: () => void;
+  canUndo?: boolean;
+  reminderSettings?: ReminderSettings; // Exported as calendar alarms when enabled there
 }
 
-export const Timeline: React.FC<TimelineProps> = ({ summary, isOpen, onClose }) => {
+export const Timeline: React.FC<TimelineProps> = ({ summary, issues = [], isOpen, onClose, onEventsChange, onUndo, canUndo = false, reminderSettings }) => {
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [downloadStatus, setDownloadStatus] = useState<'idle' | 'success'>('idle');
+  const [expandedEvents, setExpandedEvents] = useState<Set<number>>(new Set());
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [traveler, setTraveler] = useState<string | null>(null);
+
+  const travelers = collectTravelers(summary.events);
+  // A traveler removed by an edit no longer filters anything
+  const activeTraveler = traveler && travelers.includes(traveler) ? traveler : null;
+  const visibleEvents = filterEventsForTraveler(summary.events, activeTraveler);
+
+  // Indices refer to the current summary
+  useEffect(() => {
+    setExpandedEvents(new Set());
+    setEditing(null);
+  }, [summary]);
+
+  const handleSaveEvent = (event: TripEvent) => {
+    if (!onEventsChange) return;
+    const events = [...summary.events];
+    if (editing === 'new') {
+      // New events go in date order; existing ones keep their place
+      const start = resolveEventTimes(event).start;
+      const position = events.findIndex(e => resolveEventTimes(e).start > start);
+      events.splice(position === -1 ? events.length : position, 0, event);
+    } else if (editing !== null) {
+      events[editing] = event;
+    }
+    onEventsChange(events);
+  };
+
+  const handleDeleteEvent = (idx: number) => {
+    if (!onEventsChange || !confirm(`Remove "${summary.events[idx].activity}" from the timeline?`)) return;
+    onEventsChange(summary.events.filter((_, i) => i !== idx));
+  };
+
+  const handleMoveEvent = (idx: number, offset: -1 | 1) => {
+    const target = idx + offset;
+    if (!onEventsChange || target < 0 || target >= summary.events.length) return;
+    const events = [...summary.events];
+    [events[idx], events[target]] = [events[target], events[idx]];
+    onEventsChange(events);
+  };
+
+  const toggleEvent = (idx: number) => {
+    setExpandedEvents(prev => {
+      const next = new Set(prev);
+      if (next.has(idx)) next.delete(idx);
+      else next.add(idx);
+      return next;
+    });
+  };
 
   const getIcon = (type: string) => {
     switch (type) {
@@ -54,54 +118,68 @@ export const Timeline: React.FC<TimelineProps> = ({ summary, isOpen, onClose })
     setShowExportMenu(false);
   };
 
+  // Exports follow the traveler filter, e.g. "trip-Lisbon-Priya-Sharma.ics"
+  const exportFileName = (ext: string) =>
+    `trip-${[summary.destination, activeTraveler].filter(Boolean).join(' ').replace(/\s+/g, '-')}.${ext}`;
+
   const handleExportJSON = () => {
-    const jsonContent = JSON.stringify(summary, null, 2);
-    downloadFile(jsonContent, `trip-${summary.destination.replace(/\s+/g, '-')}.json`, 'application/json');
+    const jsonContent = JSON.stringify({ ...summary, events: visibleEvents }, null, 2);
+    downloadFile(jsonContent, exportFileName('json'), 'application/json');
   };
 
   const handleExportICS = () => {
-    let icsContent = [
-      'BEGIN:VCALENDAR',
-      'VERSION:2.0',
-      'PRODID:-//WanderLust AI//Trip Itinerary//EN',
-      'CALSCALE:GREGORIAN',
-      'METHOD:PUBLISH'
-    ].join('\r\n');
-
-    summary.events.forEach(event => {
-      try {
-        // Clean date/time for ICS format YYYYMMDDTHHMMSS
-        const dateStr = event.date.replace(/-/g, '');
-        const timeStr = event.time.replace(/:/g, '');
-        const startDateTime = `${dateStr}T${timeStr}00`;
-        
-        // Assume 1 hour duration for events
-        // Simple calculation for end time (just parsing hour and adding 1)
-        let endHour = parseInt(event.time.split(':')[0]) + 1;
-        let endHourStr = endHour < 10 ? `0${endHour}` : `${endHour}`;
-        // Handle overflow roughly (24 -> 00 not handled perfectly but ok for simple export)
-        if (endHour >= 24) { endHourStr = "23"; } 
-        
-        const endDateTime = `${dateStr}T${endHourStr}${event.time.split(':')[1]}00`;
-
-        icsContent += '\r\n' + [
-          'BEGIN:VEVENT',
-          `UID:${Date.now()}-${Math.random().toString(36).substr(2, 9)}@wanderlust.ai`,
-          `DTSTAMP:${new Date().toISOString().replace(/[-:]/g, '').split('.')[0]}Z`,
-          `DTSTART:${startDateTime}`,
-          `DTEND:${endDateTime}`,
-          `SUMMARY:${event.activity}`,
-          `DESCRIPTION:${event.type.toUpperCase()} - ${event.activity}`,
-          event.location ? `LOCATION:${event.location}` : '',
-          'END:VEVENT'
-        ].filter(Boolean).join('\r\n');
-      } catch (e) {
-        console.warn("Skipping event for ICS due to parse error", event);
-      }
+    const calendarName = activeTraveler ? `${summary.title} (${activeTraveler})` : summary.title;
+    const alarms = reminderSettings?.inCalendar ? reminderSettings : undefined;
+    const icsContent = buildIcsCalendar(visibleEvents, { calendarName, alarms });
+    downloadFile(icsContent, exportFileName('ics'), 'text/calendar');
+  };
+
+  // Short zone name at that moment, e.g. "CET" or "GMT-5"
+  const zoneLabel = (local: string, zone?: string) => {
+    if (!zone) return '';
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+      .formatToParts(new Date(zonedTimeToUtc(local, zone)));
+    return parts.find(p => p.type === 'timeZoneName')?.value ?? '';
+  };
+
+  // "€300.00 paid · €450.00 due by 2025-03-10"
+  const formatCosts = (event: TripEvent) =>
+    (event.costs ?? [])
+      .map(cost => [
+        formatMoney(cost.amount, cost.currency),
+        cost.label ? `(${cost.label})` : '',
+        cost.status === 'paid' ? 'paid' : `due${cost.dueDate ? ` by ${cost.dueDate}` : ''}`,
+      ].filter(Boolean).join(' '))
+      .join(' · ');
+
+  // "booking.pdf p. 2, 3" per file the event was read from
+  const formatSources = (event: TripEvent) => {
+    const byFile = new Map<string, number[]>();
+    (event.sources ?? []).forEach(({ fileName, pageNumber }) => {
+      byFile.set(fileName, [...(byFile.get(fileName) ?? []), pageNumber]);
     });
+    return [...byFile].map(([fileName, pages]) => `${fileName} p. ${pages.join(', ')}`).join('; ');
+  };
+
+  const formatEventTime = (event: TripEvent) => {
+    const times = resolveEventTimes(event);
+    if (times.allDay) {
+      const nights = countNights(times);
+      return event.type === 'hotel' ? `${nights} night${nights === 1 ? '' : 's'}` : 'All day';
+    }
+
+    const start = [times.start.slice(11), zoneLabel(times.start, times.timeZone)].filter(Boolean).join(' ');
+    // The one-hour default (used when the end is missing or impossible) is not worth showing
+    if (!event.end || event.end.slice(0, 16) !== times.end) return start;
 
-    icsContent += '\r\nEND:VCALENDAR';
-    downloadFile(icsContent, `trip-${summary.destination.replace(/\s+/g, '-')}.ics`, 'text/calendar');
+    const dayShift = Math.round((Date.parse(times.end.slice(0, 10)) - Date.parse(times.start.slice(0, 10))) / 86_400_000);
+    const zoneChanges = times.endTimeZone !== times.timeZone;
+    const end = [
+      times.end.slice(11),
+      zoneChanges ? zoneLabel(times.end, times.endTimeZone) : '',
+      dayShift > 0 ? `(+${dayShift})` : '',
+    ].filter(Boolean).join(' ');
+    return `${start} → ${end}`;
   };
 
   return (
@@ -134,6 +212,9 @@ export const Timeline: React.FC<TimelineProps> = ({ summary, isOpen, onClose })
               
               {showExportMenu && (
                 <div className="absolute right-0 top-full mt-2 w-48 bg-white rounded-lg shadow-xl border border-slate-100 overflow-hidden z-50 animate-fade-in-up">
+                  {activeTraveler && (
+                    <p className="px-4 pt-2.5 pb-1 text-[11px] text-slate-400 truncate">For {activeTraveler} only</p>
+                  )}
                   <button 
                     onClick={handleExportJSON}
                     className="w-full text-left px-4 py-3 hover:bg-slate-50 text-sm flex items-center gap-2 text-slate-700"
@@ -158,48 +239,200 @@ export const Timeline: React.FC<TimelineProps> = ({ summary, isOpen, onClose })
       </div>
 
       <div className="flex-1 overflow-y-auto p-6">
-        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Trip Timeline</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Trip Timeline</h3>
+          {onEventsChange && (
+            <div className="flex items-center gap-1">
+              {onUndo && (
+                <button
+                  onClick={onUndo}
+                  disabled={!canUndo}
+                  className="p-1.5 text-slate-500 hover:bg-slate-100 rounded-md transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Undo last change"
+                >
+                  <Undo2 size={14} />
+                </button>
+              )}
+              <button
+                onClick={() => setEditing('new')}
+                className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-travel-700 hover:bg-travel-50 rounded-md transition-colors"
+              >
+                <Plus size={14} /> Add event
+              </button>
+            </div>
+          )}
+        </div>
+
+        {travelers.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1.5 mb-4">
+            <Users size={14} className="text-slate-400" />
+            {[null, ...travelers].map(name => (
+              <button
+                key={name ?? 'everyone'}
+                onClick={() => setTraveler(name)}
+                className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors ${
+                  activeTraveler === name
+                    ? 'bg-travel-600 text-white border-travel-600'
+                    : 'bg-white text-slate-600 border-slate-200 hover:border-travel-300'
+                }`}
+              >
+                {name ?? 'Everyone'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {editing === 'new' && (
+          <div className="mb-6">
+            <EventEditor
+              event={null}
+              defaultDate={summary.events[summary.events.length - 1]?.date ?? new Date().toISOString().slice(0, 10)}
+              onSave={handleSaveEvent}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
+        )}
         
         <div className="space-y-6">
-          {summary.events.length === 0 ? (
+          {visibleEvents.length === 0 ? (
             <p className="text-sm text-slate-400 italic text-center py-10">
-              No specific events extracted. Ask the chat to find details!
+              {activeTraveler ? `No bookings name ${activeTraveler}.` : 'No specific events extracted. Ask the chat to find details!'}
             </p>
           ) : (
-            summary.events.map((event, idx) => (
-              <div key={idx} className="relative pl-8 border-l-2 border-travel-100 last:border-l-0 pb-2">
-                {/* Dot */}
-                <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-white border-2 border-travel-200 flex items-center justify-center">
-                   <div className="w-1.5 h-1.5 rounded-full bg-travel-400"></div>
-                </div>
-
-                <div className="flex flex-col gap-1">
-                  <div className="flex items-center justify-between">
-                     <span className="text-xs font-bold text-travel-700 bg-travel-100 px-2 py-0.5 rounded">
-                       {formatDisplayDate(event.date)}
-                     </span>
-                     <span className="text-xs font-mono text-slate-400">{event.time}</span>
+            summary.events.map((event, idx) => {
+              // Filtered out here rather than beforehand, so idx stays the position in summary.events
+              if (activeTraveler && !isTravelerOnEvent(event, activeTraveler)) return null;
+              const sources = formatSources(event);
+              const costs = formatCosts(event);
+              const details = [
+                ...getEventDetailEntries(event),
+                ...(event.participants?.length ? [{ label: 'Travelers', value: formatParticipants(event.participants) }] : []),
+                ...(costs ? [{ label: 'Price', value: costs }] : []),
+                ...(sources ? [{ label: 'Source', value: sources }] : []),
+              ];
+              // With a filter, only what is that traveler's own (their seat, their room)
+              const participants = activeTraveler
+                ? event.participants?.filter(p => isSameTraveler(p.name, activeTraveler))
+                : event.participants;
+              const isExpanded = expandedEvents.has(idx);
+              // An issue involving several events is shown on the last one
+              const eventIssues = issues.filter(issue => issue.eventIndexes[issue.eventIndexes.length - 1] === idx);
+              return (
+                <div key={idx} className="relative pl-8 border-l-2 border-travel-100 last:border-l-0 pb-2">
+                  {/* Dot */}
+                  <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-white border-2 border-travel-200 flex items-center justify-center">
+                     <div className="w-1.5 h-1.5 rounded-full bg-travel-400"></div>
                   </div>
+
+                  <div className="flex flex-col gap-1">
+                    <div className="flex items-center justify-between">
+                       <span className="flex items-center gap-1.5">
+                         <span className="text-xs font-bold text-travel-700 bg-travel-100 px-2 py-0.5 rounded">
+                           {formatDisplayDate(event.date)}
+                         </span>
+                         {event.userEdited && (
+                           <span className="text-[10px] font-bold text-violet-700 bg-violet-50 px-1.5 py-0.5 rounded" title="Changed by you">
+                             Edited
+                           </span>
+                         )}
+                       </span>
+                       <span className="text-xs font-mono text-slate-400">{formatEventTime(event)}</span>
+                    </div>
                   
-                  <div className="bg-white border border-slate-100 rounded-lg p-3 shadow-sm mt-1 hover:border-travel-300 transition-colors group">
-                    <div className="flex items-start gap-3">
-                      <div className="mt-0.5 p-1.5 bg-slate-50 group-hover:bg-travel-50 rounded-md transition-colors">
-                        {getIcon(event.type)}
+                    {editing === idx ? (
+                      <div className="mt-1">
+                        <EventEditor
+                          event={event}
+                          defaultDate={event.date}
+                          onSave={handleSaveEvent}
+                          onCancel={() => setEditing(null)}
+                        />
                       </div>
-                      <div>
-                        <p className="font-medium text-slate-800 text-sm leading-tight">{event.activity}</p>
-                        {event.location && (
-                          <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
-                            <MapPin size={10} />
-                            {event.location}
-                          </p>
+                    ) : (
+                    <div className="bg-white border border-slate-100 rounded-lg p-3 shadow-sm mt-1 hover:border-travel-300 transition-colors group">
+                      <div
+                        className={`flex items-start gap-3 ${details.length > 0 ? 'cursor-pointer' : ''}`}
+                        onClick={() => details.length > 0 && toggleEvent(idx)}
+                      >
+                        <div className="mt-0.5 p-1.5 bg-slate-50 group-hover:bg-travel-50 rounded-md transition-colors">
+                          {getIcon(event.type)}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-slate-800 text-sm leading-tight">{event.activity}</p>
+                          {event.location && (
+                            <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
+                              <MapPin size={10} />
+                              {event.location}
+                            </p>
+                          )}
+                          {participants?.length > 0 && (
+                            <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
+                              <Users size={10} />
+                              {activeTraveler ? formatParticipants(participants) : participants.map(p => p.name).join(', ')}
+                            </p>
+                          )}
+                          {event.note && (
+                            <p className="text-xs text-amber-800 bg-amber-50 rounded px-2 py-1 mt-2 flex items-start gap-1.5 whitespace-pre-wrap break-words">
+                              <StickyNote size={11} className="mt-0.5 flex-shrink-0" />
+                              {event.note}
+                            </p>
+                          )}
+                        </div>
+                        {details.length > 0 && (
+                          <ChevronDown
+                            size={16}
+                            className={`mt-0.5 text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+                          />
                         )}
                       </div>
+
+                      {onEventsChange && (
+                        <div className="flex justify-end gap-0.5 mt-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                          <button onClick={() => handleMoveEvent(idx, -1)} disabled={idx === 0 || !!activeTraveler} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move up">
+                            <ArrowUp size={13} />
+                          </button>
+                          <button onClick={() => handleMoveEvent(idx, 1)} disabled={idx === summary.events.length - 1 || !!activeTraveler} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move down">
+                            <ArrowDown size={13} />
+                          </button>
+                          <button onClick={() => setEditing(idx)} className="p-1 text-slate-400 hover:text-travel-700" title="Edit">
+                            <Pencil size={13} />
+                          </button>
+                          <button onClick={() => handleDeleteEvent(idx)} className="p-1 text-slate-400 hover:text-red-600" title="Delete">
+                            <Trash2 size={13} />
+                          </button>
+                        </div>
+                      )}
+
+                      {isExpanded && (
+                        <dl className="mt-3 pt-3 border-t border-slate-100 grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+                          {details.map(({ label, value }) => (
+                            <React.Fragment key={label}>
+                              <dt className="text-slate-400">{label}</dt>
+                              <dd className="text-slate-700 font-medium break-words select-all">{value}</dd>
+                            </React.Fragment>
+                          ))}
+                        </dl>
+                      )}
                     </div>
+                    )}
+
+                    {eventIssues.map(issue => (
+                      <div
+                        key={issue.id}
+                        className={`flex items-start gap-2 text-xs rounded-md px-2.5 py-1.5 mt-1 ${
+                          issue.severity === 'warning' ? 'bg-amber-50 text-amber-800' : 'bg-sky-50 text-sky-800'
+                        }`}
+                      >
+                        {issue.severity === 'warning'
+                          ? <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+                          : <Info size={12} className="mt-0.5 flex-shrink-0" />}
+                        <span>{issue.message}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
       </div>
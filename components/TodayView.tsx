@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { TripEvent } from '../types';
+import { TodayEntry, formatCountdown, getQuickQuestions, getTodayPlan } from '../services/todayService';
+import { formatDayHeading, formatEventWhen } from '../services/sessionExportService';
+import { getCheckOut } from '../services/reminderService';
+import { utcToZonedTime } from '../services/eventTimeService';
+import { Clock, systemClock } from '../services/clockService';
+import { Sun, X, MapPin, MessageCircleQuestion, CalendarDays } from 'lucide-react';
+
+interface TodayViewProps {
+  events: TripEvent[];
+  clock: Clock;
+  canAsk: boolean; // False while an answer is streaming
+  onAsk: (question: string) => void;
+  onShowEvent?: (eventIndex: number) => void;
+  onClose: () => void;
+}
+
+// Often enough for a minute countdown to stay right
+const REFRESH_MS = 30_000;
+
+export const TodayView: React.FC<TodayViewProps> = ({ events, clock, canAsk, onAsk, onShowEvent, onClose }) => {
+  const [now, setNow] = useState(() => clock.now());
+
+  useEffect(() => {
+    const timer = clock.setTimeout(() => setNow(clock.now()), REFRESH_MS);
+    return () => clock.clearTimeout(timer);
+  }, [clock, now]);
+
+  const plan = getTodayPlan(events, now);
+  const questions = getQuickQuestions(plan);
+  const nextDay = plan.next ? utcToZonedTime(plan.next.start).slice(0, 10) : null;
+
+  const renderEntry = (entry: TodayEntry, note?: string) => (
+    <li key={entry.index} className="px-3 py-2.5">
+      <div className="flex items-start justify-between gap-2">
+        <button
+          onClick={() => onShowEvent?.(entry.index)}
+          disabled={!onShowEvent}
+          className="text-left text-sm font-medium text-slate-700 hover:text-travel-700 disabled:hover:text-slate-700"
+          title={onShowEvent ? 'Show in the timeline' : undefined}
+        >
+          {entry.event.activity}
+        </button>
+        <span className="flex-shrink-0 text-xs font-mono text-slate-500">{formatEventWhen(entry.event)}</span>
+      </div>
+      {entry.event.location && (
+        <p className="flex items-center gap-1 text-xs text-slate-500 mt-0.5">
+          <MapPin size={11} /> {entry.event.location}
+        </p>
+      )}
+      {note && <p className="text-xs text-travel-700 mt-0.5">{note}</p>}
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col animate-fade-in-up"
+      >
+        <div className="flex items-center justify-between gap-3 p-5 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Sun size={18} className="text-travel-600" /> Today
+            </h2>
+            <p className="text-xs text-slate-500 mt-0.5">
+              {formatDayHeading(plan.today)} · {utcToZonedTime(now).slice(11)}
+              {clock !== systemClock && <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 font-medium">Simulated time</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X size={18} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {plan.next ? (
+            <section className="rounded-xl bg-travel-50 border border-travel-100 p-4">
+              <p className="text-xs font-bold text-travel-700 uppercase tracking-wider">Next · {formatCountdown(plan.next.start - now)}</p>
+              <p className="text-base font-semibold text-slate-800 mt-1">{plan.next.event.activity}</p>
+              <p className="text-sm text-slate-600">
+                {nextDay !== plan.today && `${formatDayHeading(plan.next.event.date)} · `}
+                {formatEventWhen(plan.next.event)}
+                {plan.next.event.location && ` · ${plan.next.event.location}`}
+              </p>
+              {plan.next.event.confirmationNumber && (
+                <p className="text-xs text-slate-500 mt-1">Ref. <span className="font-mono">{plan.next.event.confirmationNumber}</span></p>
+              )}
+            </section>
+          ) : (
+            <p className="text-sm text-slate-400 italic text-center py-4">Nothing else ahead on the timeline.</p>
+          )}
+
+          {(plan.current.length > 0 || plan.stays.length > 0) && (
+            <section>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Happening now</h3>
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                {plan.current.map(entry => renderEntry(entry, `Ends ${formatCountdown(entry.end - now)}`))}
+                {plan.stays.map(entry => renderEntry(
+                  entry,
+                  entry.event.type === 'hotel'
+                    ? `Check-out ${formatCountdown(entry.end - now)} (by ${getCheckOut(entry.event).time})`
+                    : undefined
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {plan.laterToday.length > 0 && (
+            <section>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Later today</h3>
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                {plan.laterToday.map(entry => renderEntry(entry, formatCountdown(entry.start - now)))}
+              </ul>
+            </section>
+          )}
+
+          {plan.next && nextDay !== plan.today && (
+            <p className="flex items-center gap-2 text-xs text-slate-500">
+              <CalendarDays size={14} /> Nothing else on the timeline today.
+            </p>
+          )}
+
+          {questions.length > 0 && (
+            <section>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+                <MessageCircleQuestion size={12} /> Ask
+              </h3>
+              <div className="flex flex-col gap-2">
+                {questions.map(question => (
+                  <button
+                    key={question}
+                    onClick={() => onAsk(question)}
+                    disabled={!canAsk}
+                    className="text-left text-sm px-3 py-2 rounded-lg border border-slate-200 text-slate-700 hover:border-travel-300 hover:bg-travel-50 transition-colors disabled:opacity-50"
+                  >
+                    {question}
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { getEventDetailEntries } from '../services/eventDetailsService';
+import { CHECKLIST_CATEGORY_LABELS, groupChecklist } from '../services/checklistService';
+import {
+  TripSession,
+  formatCitation,
+  formatDayHeading,
+  formatEventWhen,
+  formatNoteGroupTitle,
+  getKeyBookings,
+  getPinnedAnswersByDay,
+  getSessionTitle,
+  groupEventsByDay,
+} from '../services/sessionExportService';
+
+interface TripBriefingProps {
+  session: TripSession;
+  generatedAt: Date;
+}
+
+/**
+ * One-page trip briefing for printing or sharing as PDF. Rendered to a
+ * standalone HTML page (see buildBriefingHtml), so it uses plain classes
+ * styled by BRIEFING_CSS rather than Tailwind.
+ */
+export const TripBriefing: React.FC<TripBriefingProps> = ({ session, generatedAt }) => {
+  const { summary } = session;
+  const events = summary?.events ?? [];
+  const bookings = getKeyBookings(events);
+  const pinnedGroups = getPinnedAnswersByDay(session);
+  const checklist = groupChecklist(summary?.checklist ?? []);
+
+  return (
+    <article>
+      <header>
+        <h1>{getSessionTitle(session)}</h1>
+        {summary && <p className="meta">{summary.destination} · {summary.dates}</p>}
+        <p className="muted">
+          Prepared {generatedAt.toLocaleDateString('en-US', { dateStyle: 'long' })} from {session.files.map(f => f.name).join(', ')}
+        </p>
+      </header>
+
+      {events.length > 0 && (
+        <section>
+          <h2>Day by day</h2>
+          {groupEventsByDay(events).map(day => (
+            <div key={day.date} className="day">
+              <h3>{formatDayHeading(day.date)}</h3>
+              <ul>
+                {day.events.map((event, idx) => (
+                  <li key={idx}>
+                    <span className="when">{formatEventWhen(event)}</span>
+                    <span>
+                      <strong>{event.activity}</strong>
+                      {event.location && <span className="muted"> · {event.location}</span>}
+                      {event.note && <span className="note">{event.note}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {bookings.length > 0 && (
+        <section>
+          <h2>Key bookings</h2>
+          <table>
+            <thead>
+              <tr><th>Booking</th><th>When</th><th>Reference</th><th>Details</th></tr>
+            </thead>
+            <tbody>
+              {bookings.map((event, idx) => (
+                <tr key={idx}>
+                  <td>{event.activity}</td>
+                  <td>{event.date}<br /><span className="muted">{formatEventWhen(event)}</span></td>
+                  <td className="reference">{event.confirmationNumber ?? '—'}</td>
+                  <td>
+                    {getEventDetailEntries(event)
+                      .filter(entry => entry.label !== 'Confirmation')
+                      .map(entry => <div key={entry.label}>{entry.label}: {entry.value}</div>)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {checklist.length > 0 && (
+        <section>
+          <h2>Checklist</h2>
+          {checklist.map(group => (
+            <div key={group.category} className="day">
+              <h3>{CHECKLIST_CATEGORY_LABELS[group.category]}</h3>
+              <ul>
+                {group.items.map(item => (
+                  <li key={item.id}>
+                    <span className="box">{item.done ? '☑' : '☐'}</span>
+                    <span>
+                      {item.text}
+                      {item.due && <span className="muted"> · by {item.due.replace('T', ' ')}</span>}
+                      {item.quote && <span className="note">“{item.quote}”</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {pinnedGroups.length > 0 && (
+        <section>
+          <h2>Pinned answers</h2>
+          {pinnedGroups.map(group => (
+            <div key={group.key}>
+              <h3>{formatNoteGroupTitle(group)}</h3>
+              {group.answers.map(({ question, answer }) => {
+                const sources = [...new Set((answer.citations ?? []).filter(c => c.isValid).map(formatCitation))];
+                return (
+                  <div key={answer.id} className="answer">
+                    {question && <h4>{question.content}</h4>}
+                    <ReactMarkdown>{answer.content}</ReactMarkdown>
+                    {sources.length > 0 && <p className="muted">Sources: {sources.join('; ')}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </section>
+      )}
+    </article>
+  );
+};
+
+const BRIEFING_CSS = `
+  body { font: 14px/1.5 system-ui, -apple-system, sans-serif; color: #1e293b; max-width: 760px; margin: 32px auto; padding: 0 24px; }
+  h1 { font-size: 26px; margin: 0 0 4px; }
+  h2 { font-size: 17px; margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 2px solid #0ea5e9; }
+  h3 { font-size: 14px; margin: 14px 0 4px; }
+  h4 { font-size: 13px; margin: 10px 0 2px; }
+  .meta { font-size: 15px; margin: 0; }
+  .muted { color: #64748b; }
+  ul { list-style: none; padding: 0; margin: 0; }
+  li { display: flex; gap: 12px; padding: 3px 0; }
+  .when { flex: 0 0 110px; font-variant-numeric: tabular-nums; color: #475569; }
+  .box { flex: 0 0 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  .note { display: block; margin-top: 2px; padding-left: 8px; border-left: 3px solid #fcd34d; color: #475569; white-space: pre-wrap; }
+  .reference { font-family: ui-monospace, monospace; }
+  .day, .answer, tr { break-inside: avoid; }
+  @media print { body { margin: 0; } }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Standalone HTML page of the briefing; opens the print dialog when loaded. */
+export const buildBriefingHtml = (session: TripSession, generatedAt = new Date()): string =>
+  `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(getSessionTitle(session))}: trip briefing</title>
+<style>${BRIEFING_CSS}</style>
+</head>
+<body>
+${renderToStaticMarkup(<TripBriefing session={session} generatedAt={generatedAt} />)}
+<script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>
+`;
@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { UploadedFile } from '../types';
+import { FileText, Plus, X, Loader2 } from 'lucide-react';
+import { pickSupportedFiles } from './UploadZone';
+import { getAcceptedFileTypes } from '../services/extractorService';
+
+interface TripFilesProps {
+  files: UploadedFile[];
+  isUpdating: boolean;
+  progressText?: string;
+  onAddFiles: (files: File[]) => void;
+  onRemoveFile: (fileName: string) => void;
+}
+
+export const TripFiles: React.FC<TripFilesProps> = ({ files, isUpdating, progressText, onAddFiles, onRemoveFile }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = pickSupportedFiles(e.target.files);
+    if (selected.length > 0) onAddFiles(selected);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto scrollbar-hide px-4 md:px-6 py-2 bg-white border-b border-slate-100">
+      {files.map(file => {
+        const ocrPages = file.pages.filter(p => p.isOcr).map(p => p.pageNumber);
+        return (
+          <div
+            key={file.name}
+            className="flex items-center gap-1.5 text-xs bg-slate-50 border border-slate-200 text-slate-600 pl-2.5 pr-1 py-1 rounded-full flex-shrink-0"
+            title={`${file.pageCount} page${file.pageCount === 1 ? '' : 's'}${ocrPages.length > 0 ? ` · read with OCR: page ${ocrPages.join(', ')}` : ''}`}
+          >
+            <FileText size={12} className="text-travel-600" />
+            <span className="font-medium truncate max-w-[160px]">{file.name}</span>
+            {ocrPages.length > 0 && (
+              <span className="text-[9px] font-bold uppercase text-amber-700 bg-amber-100 px-1 rounded">OCR</span>
+            )}
+            <button
+              onClick={() => onRemoveFile(file.name)}
+              disabled={isUpdating}
+              className="p-0.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 disabled:opacity-40 transition-colors"
+              title={`Remove ${file.name}`}
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isUpdating}
+        className="flex items-center gap-1 text-xs text-travel-700 border border-dashed border-travel-300 px-2.5 py-1 rounded-full hover:bg-travel-50 disabled:opacity-50 transition-colors flex-shrink-0"
+      >
+        {isUpdating ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+        {isUpdating ? (progressText ?? 'Updating trip...') : 'Add files'}
+      </button>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        accept={getAcceptedFileTypes()}
+        multiple
+        onChange={handleChange}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { SavedTrip } from '../types';
+import { Briefcase, X, Plus, Pencil, Trash2, Check, FileText, MessageSquare, Upload } from 'lucide-react';
+
+interface TripLibraryProps {
+  trips: SavedTrip[];
+  activeTripId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenTrip: (id: string) => void;
+  onRenameTrip: (id: string, name: string) => void;
+  onDeleteTrip: (id: string) => void;
+  onNewTrip: () => void;
+  onImportSession: (file: File) => void;
+}
+
+export const TripLibrary: React.FC<TripLibraryProps> = ({
+  trips,
+  activeTripId,
+  isOpen,
+  onClose,
+  onOpenTrip,
+  onRenameTrip,
+  onDeleteTrip,
+  onNewTrip,
+  onImportSession,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (trip: SavedTrip) => {
+    setEditingId(trip.id);
+    setDraftName(trip.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRenameTrip(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (trip: SavedTrip) => {
+    if (confirm(`Delete "${trip.name}" and its conversation? This cannot be undone.`)) {
+      onDeleteTrip(trip.id);
+    }
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) onImportSession(file);
+  };
+
+  const formatUpdated = (timestamp: number) =>
+    new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }).format(timestamp);
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 z-30 bg-slate-900/20 md:bg-transparent" onClick={onClose} />}
+
+      <aside
+        className={`
+          fixed inset-y-0 left-0 w-full sm:w-80 bg-white shadow-2xl transform transition-transform duration-300 ease-in-out z-40
+          ${isOpen ? 'translate-x-0' : '-translate-x-full'}
+          border-r border-slate-200 flex flex-col
+        `}
+      >
+        <div className="p-5 bg-travel-50 border-b border-travel-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-travel-900 flex items-center gap-2">
+            <Briefcase size={18} /> My Trips
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100">
+          <button
+            onClick={onNewTrip}
+            className="w-full flex items-center justify-center gap-2 text-sm font-medium text-travel-700 border border-dashed border-travel-300 rounded-lg py-2 hover:bg-travel-50 transition-colors"
+          >
+            <Plus size={16} /> New trip
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="w-full mt-2 flex items-center justify-center gap-2 text-xs font-medium text-slate-500 rounded-lg py-1.5 hover:text-travel-700 hover:bg-travel-50 transition-colors"
+            title="Open a session file exported by a teammate"
+          >
+            <Upload size={14} /> Import session file
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImportChange}
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {trips.length === 0 ? (
+            <p className="text-sm text-slate-400 italic text-center py-10">
+              Trips you analyze are saved here automatically.
+            </p>
+          ) : (
+            trips.map(trip => (
+              <div
+                key={trip.id}
+                className={`group rounded-lg border p-3 transition-colors ${
+                  trip.id === activeTripId ? 'border-travel-300 bg-travel-50' : 'border-slate-100 hover:border-travel-200 bg-white'
+                }`}
+              >
+                {editingId === trip.id ? (
+                  <form
+                    onSubmit={(e) => { e.preventDefault(); commitRename(); }}
+                    className="flex items-center gap-2"
+                  >
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      className="flex-1 text-sm px-2 py-1 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-travel-500"
+                    />
+                    <button type="submit" className="p-1 text-travel-600 hover:bg-travel-100 rounded">
+                      <Check size={14} />
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <button onClick={() => onOpenTrip(trip.id)} className="flex-1 text-left min-w-0">
+                      <p className="font-medium text-sm text-slate-800 truncate">{trip.name}</p>
+                      <p className="text-xs text-slate-400 mt-1 flex items-center gap-3">
+                        <span className="flex items-center gap-1"><FileText size={10} /> {trip.files.length}</span>
+                        <span className="flex items-center gap-1"><MessageSquare size={10} /> {trip.messages.filter(m => m.role === 'user').length}</span>
+                        <span>{formatUpdated(trip.updatedAt)}</span>
+                      </p>
+                    </button>
+                    <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => startRename(trip)} className="p-1.5 text-slate-400 hover:text-travel-600 hover:bg-travel-50 rounded" title="Rename">
+                        <Pencil size={13} />
+                      </button>
+                      <button onClick={() => handleDelete(trip)} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded" title="Delete">
+                        <Trash2 size={13} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
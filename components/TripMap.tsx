@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { TripEvent } from '../types';
+import { Map as MapIcon, MapPin, X, Loader2 } from 'lucide-react';
+import { MapStop, TripMapPlan, getGeocoder, planTripMap } from '../services/geocodingService';
+
+interface TripMapProps {
+  events: TripEvent[];
+  onClose: () => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const PADDING = 48;
+const MIN_SPAN_DEGREES = 0.5; // A one-city trip still gets some surroundings
+const DAY_COLORS = ['#0ea5e9', '#f97316', '#10b981', '#8b5cf6', '#ef4444', '#eab308', '#ec4899', '#14b8a6'];
+
+// Web Mercator, so shapes look like on any other map
+const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (Math.max(-85, Math.min(85, lat)) * Math.PI) / 360));
+
+const createProjection = (stops: MapStop[]) => {
+  const lons = stops.map(s => s.place.lon);
+  const lats = stops.map(s => s.place.lat);
+  const centerLon = (Math.min(...lons) + Math.max(...lons)) / 2;
+  const centerLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const halfLon = Math.max(Math.max(...lons) - Math.min(...lons), MIN_SPAN_DEGREES) / 2;
+  const halfLat = Math.max(Math.max(...lats) - Math.min(...lats), MIN_SPAN_DEGREES) / 2;
+
+  const minX = centerLon - halfLon;
+  const maxX = centerLon + halfLon;
+  const minY = mercatorY(centerLat - halfLat);
+  const maxY = mercatorY(centerLat + halfLat);
+  const xRange = (maxX - minX) * (Math.PI / 180);
+  const scale = Math.min((WIDTH - 2 * PADDING) / xRange, (HEIGHT - 2 * PADDING) / (maxY - minY));
+
+  return {
+    project: (lat: number, lon: number) => ({
+      x: WIDTH / 2 + ((lon - centerLon) * Math.PI / 180) * scale,
+      y: HEIGHT / 2 - (mercatorY(lat) - (minY + maxY) / 2) * scale,
+    }),
+    // Degrees covered by the stops, used to space the graticule
+    span: Math.max(halfLon, halfLat) * 2,
+  };
+};
+
+const graticuleStep = (span: number) => [0.5, 1, 2, 5, 10, 20].find(step => span / step <= 8) ?? 40;
+
+const formatDay = (dateStr: string) => {
+  const date = new Date(dateStr + 'T12:00:00'); // Noon to avoid timezone shifts
+  if (isNaN(date.getTime())) return dateStr;
+  return new Intl.DateTimeFormat('en-US', { weekday: 'short', month: 'short', day: 'numeric' }).format(date);
+};
+
+export const TripMap: React.FC<TripMapProps> = ({ events, onClose }) => {
+  const [plan, setPlan] = useState<TripMapPlan | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPlan(null);
+    planTripMap(events, getGeocoder()).then(result => {
+      if (!cancelled) setPlan(result);
+    });
+    return () => { cancelled = true; };
+  }, [events]);
+
+  const allStops = plan?.days.flatMap(day => day.stops) ?? [];
+  const projection = allStops.length > 0 ? createProjection(allStops) : null;
+
+  const renderMap = () => {
+    if (!projection || !plan) return null;
+    const { project } = projection;
+    const step = graticuleStep(projection.span);
+    const gridLines: React.ReactNode[] = [];
+    for (let lon = -180; lon <= 180; lon += step) {
+      const { x } = project(0, lon);
+      if (x >= 0 && x <= WIDTH) gridLines.push(<line key={`lon${lon}`} x1={x} x2={x} y1={0} y2={HEIGHT} />);
+    }
+    for (let lat = -80; lat <= 80; lat += step) {
+      const { y } = project(lat, 0);
+      if (y >= 0 && y <= HEIGHT) gridLines.push(<line key={`lat${lat}`} x1={0} x2={WIDTH} y1={y} y2={y} />);
+    }
+
+    let stopNumber = 0;
+    let previousDayEnd: MapStop | null = null;
+
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-sky-50 rounded-xl border border-slate-100">
+        <g stroke="#e2e8f0" strokeWidth={1}>{gridLines}</g>
+
+        {plan.days.map((day, dayIndex) => {
+          const color = DAY_COLORS[dayIndex % DAY_COLORS.length];
+          const points = day.stops.map(stop => project(stop.place.lat, stop.place.lon));
+          const link = previousDayEnd ? project(previousDayEnd.place.lat, previousDayEnd.place.lon) : null;
+          previousDayEnd = day.stops[day.stops.length - 1];
+
+          return (
+            <g key={day.date}>
+              {/* Overnight link from the previous day's last stop */}
+              {link && (
+                <line x1={link.x} y1={link.y} x2={points[0].x} y2={points[0].y} stroke="#94a3b8" strokeWidth={1.5} strokeDasharray="2 4" />
+              )}
+              {points.slice(1).map((point, i) => {
+                const from = points[i];
+                // Flight legs are dashed: the line is not the actual path
+                const isFlight = day.stops[i].eventIndex === day.stops[i + 1].eventIndex && day.stops[i].role === 'departure';
+                return (
+                  <line
+                    key={i}
+                    x1={from.x} y1={from.y} x2={point.x} y2={point.y}
+                    stroke={color}
+                    strokeWidth={3}
+                    strokeLinecap="round"
+                    strokeDasharray={isFlight ? '8 6' : undefined}
+                  />
+                );
+              })}
+              {day.stops.map((stop, i) => {
+                stopNumber++;
+                const { x, y } = points[i];
+                return (
+                  <g key={i}>
+                    <title>{`${stop.place.name} · ${stop.event.activity}`}</title>
+                    <circle cx={x} cy={y} r={11} fill="white" stroke={color} strokeWidth={3} />
+                    <text x={x} y={y + 4} textAnchor="middle" fontSize={11} fontWeight={700} fill="#334155">{stopNumber}</text>
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+          <p className="text-sm font-bold text-slate-800 flex items-center gap-2">
+            <MapIcon size={16} className="text-travel-600" />
+            Trip Map
+          </p>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X size={18} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {!plan ? (
+            <p className="text-sm text-slate-400 flex items-center justify-center gap-2 py-16">
+              <Loader2 size={16} className="animate-spin" /> Placing your trip on the map...
+            </p>
+          ) : allStops.length === 0 ? (
+            <p className="text-sm text-slate-400 italic text-center py-16">
+              None of the event locations could be placed on the map.
+            </p>
+          ) : (
+            <>
+              {renderMap()}
+
+              <div className="space-y-2">
+                {plan.days.map((day, dayIndex) => (
+                  <div key={day.date} className="flex items-start gap-3 text-sm">
+                    <span
+                      className="mt-1.5 w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: DAY_COLORS[dayIndex % DAY_COLORS.length] }}
+                    />
+                    <span className="font-bold text-slate-700 w-28 flex-shrink-0">{formatDay(day.date)}</span>
+                    <span className="text-slate-600">
+                      {day.stops
+                        .map(stop => stop.place.name)
+                        .filter((name, i, names) => i === 0 || name !== names[i - 1])
+                        .join(' → ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {plan && plan.unresolved.length > 0 && (
+            <div className="bg-amber-50 border border-amber-100 rounded-lg p-4">
+              <p className="text-xs font-bold text-amber-800 uppercase tracking-wider mb-2">
+                Not on the map ({plan.unresolved.length})
+              </p>
+              <ul className="space-y-1">
+                {plan.unresolved.map(({ event, eventIndex, query }) => (
+                  <li key={eventIndex} className="text-sm text-amber-900 flex items-start gap-2">
+                    <MapPin size={14} className="mt-0.5 flex-shrink-0" />
+                    <span>
+                      <span className="font-medium">{event.activity}</span>
+                      {query && query !== event.activity && <span className="text-amber-700"> · {query}</span>}
+                      <span className="text-amber-600"> ({formatDay(event.date)})</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,30 @@
 import React, { useRef, useState } from 'react';
 import { Upload, FileText, AlertTriangle } from 'lucide-react';
 import { Button } from './Button';
+import { findExtractor, getAcceptedFileTypes, getSupportedFormatLabels } from '../services/extractorService';
 
 interface UploadZoneProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   isLoading: boolean;
+  progressText?: string;
 }
 
-export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isLoading }) => {
+/**
+ * Keeps only the files we can parse, warning the user about the rest.
+ * Shared with the in-session "add files" control.
+ */
+export const pickSupportedFiles = (fileList: FileList | null): File[] => {
+  const files = Array.from(fileList ?? []);
+  const supported = files.filter(file => findExtractor(file));
+  const rejected = files.filter(file => !supported.includes(file));
+
+  if (rejected.length > 0) {
+    alert(`Unsupported file type, skipped: ${rejected.map(f => f.name).join(', ')}\n\nSupported: ${getSupportedFormatLabels().join(', ')}.`);
+  }
+  return supported;
+};
+
+export const UploadZone: React.FC<UploadZoneProps> = ({ onFilesSelect, isLoading, progressText }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
 
@@ -26,31 +43,26 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isLoading
     e.stopPropagation();
     setDragActive(false);
     
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      validateAndPass(e.dataTransfer.files[0]);
-    }
+    if (isLoading) return;
+    validateAndPass(e.dataTransfer.files);
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      validateAndPass(e.target.files[0]);
-    }
+    validateAndPass(e.target.files);
+    e.target.value = ''; // Allow re-selecting the same files
   };
 
-  const validateAndPass = (file: File) => {
-    if (file.type !== 'application/pdf') {
-      alert("Please upload a PDF file.");
-      return;
-    }
-    onFileSelect(file);
+  const validateAndPass = (fileList: FileList | null) => {
+    const files = pickSupportedFiles(fileList);
+    if (files.length > 0) onFilesSelect(files);
   };
 
   return (
     <div className="w-full max-w-xl mx-auto px-6">
       <div className="text-center mb-8">
         <h1 className="text-3xl font-bold text-travel-900 mb-2">Itinerary Chat</h1>
-        <p className="text-slate-500">Upload your travel documents (PDF) and get instant answers using AI.</p>
+        <p className="text-slate-500">Upload all your travel documents (flights, hotels, rail, tours) and get instant answers using AI.</p>
       </div>
 
       <div 
@@ -69,7 +81,8 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isLoading
           ref={fileInputRef}
           type="file" 
           className="hidden" 
-          accept="application/pdf"
+          accept={getAcceptedFileTypes()}
+          multiple
           onChange={handleChange}
           disabled={isLoading}
         />
@@ -88,13 +101,13 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isLoading
               {isLoading ? "Analyzing Document..." : "Click to upload or drag and drop"}
             </p>
             <p className="text-sm text-slate-400">
-              PDF files only (Max 10MB recommended)
+              PDFs, emails (.eml), calendar invites (.ics), Word, HTML or screenshots (Max 10MB each recommended)
             </p>
           </div>
 
           {isLoading && (
              <p className="text-xs text-travel-600 font-medium mt-2 animate-pulse">
-               Extracting text and preparing AI knowledge base...
+               {progressText ?? "Extracting text and preparing AI knowledge base..."}
              </p>
           )}
         </div>
@@ -105,8 +118,8 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelect, isLoading
         <div className="text-sm text-yellow-800">
           <p className="font-semibold mb-1">Privacy Note</p>
           <p>
-            This demo runs entirely in your browser. Your PDF is parsed locally. 
-            The text is sent to Google Gemini API for processing, but no files are permanently stored on a custom server.
+            This demo runs entirely in your browser. Your files are parsed locally. 
+            The text is sent to the AI provider selected in settings (Google Gemini by default) for processing, but no files are permanently stored on a custom server.
           </p>
         </div>
       </div>
@@ -0,0 +1,145 @@
+import { createServer, request, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { ProxyStreamEvent } from '../services/providers/proxyProvider';
+import { ServerConfig, createProxyHandler } from './proxyServer';
+
+const CHAT_BODY = { systemInstruction: 'Be brief.', history: [], message: 'When is my flight?' };
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve) ?? resolve(null));
+  server = null;
+});
+
+// Serves the handler on a free port, with `fallback` answering paths outside /api
+const startServer = async (overrides: Partial<ServerConfig> = {}, fallback?: () => string): Promise<string> => {
+  const config: ServerConfig = {
+    provider: createMockProvider({ json: () => ({ title: 'Lisbon' }) }),
+    rateLimit: { limit: 100, windowMs: 60_000 },
+    maxBodyBytes: 1024,
+    ...overrides,
+  };
+  const handler = createProxyHandler(config);
+  server = createServer((req, res) => handler(req, res, fallback && (() => res.end(fallback()))));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (url: string, body: unknown) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+const readStreamEvents = (text: string): (ProxyStreamEvent | '[DONE]')[] =>
+  text.split('\n\n').filter(Boolean).map(line => {
+    const data = line.replace(/^data: /, '');
+    return data === '[DONE]' ? data : JSON.parse(data);
+  });
+
+describe('createProxyHandler', () => {
+  it('reports the provider on /health', async () => {
+    const base = await startServer();
+    const res = await fetch(`${base}/api/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ provider: 'mock', model: 'mock-1' });
+  });
+
+  it('routes summary and chat requests to the provider', async () => {
+    const base = await startServer();
+
+    const summary = await post(`${base}/api/summary`, { prompt: 'Summarize', schema: { type: 'object' } });
+    expect(await summary.json()).toEqual({ text: JSON.stringify({ title: 'Lisbon' }) });
+
+    const chat = await post(`${base}/api/chat`, CHAT_BODY);
+    expect(await chat.json()).toEqual({ text: 'Mock answer to: When is my flight?' });
+  });
+
+  it('rejects unknown routes and malformed requests', async () => {
+    const base = await startServer();
+
+    const unknown = await post(`${base}/api/nowhere`, {});
+    expect(unknown.status).toBe(404);
+    expect((await unknown.json()).error.kind).toBe('bad-request');
+
+    const malformed = await post(`${base}/api/chat`, { message: 42 });
+    expect(malformed.status).toBe(400);
+  });
+
+  it('leaves paths outside the base path to the next handler', async () => {
+    const base = await startServer({}, () => 'frontend');
+    const res = await fetch(`${base}/index.html`);
+    expect(await res.text()).toBe('frontend');
+  });
+
+  it('passes the streamed answer through as server-sent events', async () => {
+    const base = await startServer();
+    const res = await post(`${base}/api/chat/stream`, CHAT_BODY);
+
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    const events = readStreamEvents(await res.text());
+    expect(events[events.length - 1]).toBe('[DONE]');
+    const deltas = events.flatMap(event => (event !== '[DONE]' && 'delta' in event ? [event.delta] : []));
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe('Mock answer to: When is my flight?');
+  });
+
+  it('sends a failure in the middle of a stream as an error event', async () => {
+    const provider = createMockProvider();
+    const base = await startServer({
+      provider: {
+        ...provider,
+        createChat: () => ({
+          send: async () => '',
+          stream: async function* () {
+            yield 'Your flight';
+            throw new Error('fetch failed');
+          },
+        }),
+      },
+    });
+    const events = readStreamEvents(await (await post(`${base}/api/chat/stream`, CHAT_BODY)).text());
+
+    expect(events[0]).toEqual({ delta: 'Your flight' });
+    expect(events[1]).toMatchObject({ error: { kind: 'network' } });
+  });
+
+  it('limits requests per client with 429 and Retry-After', async () => {
+    const base = await startServer({ rateLimit: { limit: 2, windowMs: 60_000 } });
+
+    expect((await post(`${base}/api/chat`, CHAT_BODY)).status).toBe(200);
+    expect((await post(`${base}/api/chat`, CHAT_BODY)).status).toBe(200);
+    const limited = await post(`${base}/api/chat`, CHAT_BODY);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+    expect((await limited.json()).error.kind).toBe('quota');
+
+    // Reading the health check isn't counted
+    expect((await fetch(`${base}/api/health`)).status).toBe(200);
+  });
+
+  it('answers a body over the size limit with 413', async () => {
+    const base = await startServer();
+    const res = await post(`${base}/api/chat`, { ...CHAT_BODY, message: 'x'.repeat(4096) });
+    expect(res.status).toBe(413);
+    expect((await res.json()).error.kind).toBe('context-length');
+  });
+
+  it('answers an oversized body sent without a length with 413 rather than a reset', async () => {
+    const base = await startServer();
+    const { status, body } = await new Promise<{ status: number; body: string }>((resolve, reject) => {
+      const req = request(`${base}/api/chat`, { method: 'POST', headers: { 'Content-Type': 'application/json' } }, res => {
+        let text = '';
+        res.on('data', chunk => { text += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text }));
+      });
+      req.on('error', reject);
+      // Chunked, so the server only finds out while reading
+      for (let i = 0; i < 8; i++) req.write('x'.repeat(512));
+      req.end();
+    });
+
+    expect(status).toBe(413);
+    expect(JSON.parse(body).error.kind).toBe('context-length');
+  });
+});
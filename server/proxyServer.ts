@@ -0,0 +1,303 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { LLMProvider, DEFAULT_EMBEDDING_MODEL, DEFAULT_MODELS } from '../services/llmProvider';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createOpenAICompatibleProvider } from '../services/providers/openAICompatibleProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import {
+  ProxyChatRequest,
+  ProxyEmbedRequest,
+  ProxyErrorBody,
+  ProxyJsonRequest,
+  ProxyStreamEvent,
+} from '../services/providers/proxyProvider';
+import { classifyError } from '../services/requestService';
+import { ModelErrorKind } from '../types';
+import { RateLimiter, createRateLimiter } from './rateLimiter';
+
+/**
+ * The app's backend: holds the model API key and exposes the few calls the
+ * frontend needs (see services/providers/proxyProvider.ts for the client).
+ * It is plain node:http middleware, mounted into `vite` / `vite preview` by
+ * vitePlugin.ts or served on its own by standalone.ts.
+ */
+
+export interface ServerConfig {
+  provider: LLMProvider;
+  rateLimit: { limit: number; windowMs: number };
+  maxBodyBytes: number;
+  allowedOrigin?: string; // CORS, for a frontend served from elsewhere
+  trustProxy?: boolean; // Take the client address from X-Forwarded-For
+}
+
+export type ProxyHandler = (req: IncomingMessage, res: ServerResponse, next?: () => void) => void;
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+// Summary requests carry a page range, chat requests the whole conversation
+const DEFAULT_MAX_BODY_KB = 1024;
+
+/**
+ * Server settings from environment variables:
+ * MODEL_PROVIDER (gemini, openai-compatible or mock), MODEL, GEMINI_API_KEY,
+ * OPENAI_BASE_URL, OPENAI_EMBEDDING_MODEL, OPENAI_API_KEY, RATE_LIMIT_PER_MINUTE, MAX_BODY_KB,
+ * ALLOWED_ORIGIN and TRUST_PROXY.
+ */
+export const loadServerConfig = (env: Record<string, string | undefined>): ServerConfig => {
+  const providerId = env.MODEL_PROVIDER || 'gemini';
+  const model = env.MODEL || DEFAULT_MODELS[providerId as keyof typeof DEFAULT_MODELS] || DEFAULT_MODELS.gemini;
+
+  let provider: LLMProvider;
+  switch (providerId) {
+    case 'mock':
+      provider = createMockProvider({ model });
+      break;
+    case 'openai-compatible':
+      provider = createOpenAICompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        model,
+        // Set it empty to leave embedding to the browser
+        embeddingModel: env.OPENAI_EMBEDDING_MODEL ?? DEFAULT_EMBEDDING_MODEL,
+        apiKey: env.OPENAI_API_KEY,
+      });
+      break;
+    case 'gemini':
+      provider = createGeminiProvider({ model, apiKey: env.GEMINI_API_KEY || env.API_KEY });
+      break;
+    default:
+      throw new Error(`Unknown MODEL_PROVIDER "${providerId}"`);
+  }
+
+  return {
+    provider,
+    rateLimit: { limit: Number(env.RATE_LIMIT_PER_MINUTE) || DEFAULT_REQUESTS_PER_MINUTE, windowMs: 60_000 },
+    maxBodyBytes: (Number(env.MAX_BODY_KB) || DEFAULT_MAX_BODY_KB) * 1024,
+    allowedOrigin: env.ALLOWED_ORIGIN || undefined,
+    trustProxy: env.TRUST_PROXY === '1' || env.TRUST_PROXY === 'true',
+  };
+};
+
+const ERROR_STATUS: Record<ModelErrorKind, number> = {
+  auth: 502, // The server's key was rejected; the browser's request was fine
+  quota: 429,
+  safety: 422,
+  'context-length': 413,
+  network: 502,
+  timeout: 504,
+  'bad-request': 502, // The model rejected what the server sent it
+  unknown: 500,
+};
+
+interface HttpError {
+  status: number;
+  kind: ModelErrorKind;
+  message: string;
+}
+
+const httpError = (status: number, kind: ModelErrorKind, message: string): HttpError => ({ status, kind, message });
+
+const isHttpError = (value: unknown): value is HttpError =>
+  typeof value === 'object' && value !== null && 'status' in value && 'kind' in value && !(value instanceof Error);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: HttpError, headers: Record<string, string> = {}) => {
+  const body: ProxyErrorBody = { error: { kind: error.kind, message: error.message } };
+  sendJson(res, error.status, body, headers);
+};
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBytes) {
+      reject(httpError(413, 'context-length', `Request is larger than ${Math.round(maxBytes / 1024)} KB`));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Keep the rest flowing into nothing: destroying the request here would
+        // reset the connection before the 413 reaches the client
+        tooLarge = true;
+        chunks.length = 0;
+        reject(httpError(413, 'context-length', `Request is larger than ${Math.round(maxBytes / 1024)} KB`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(httpError(400, 'bad-request', 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const parseJsonRequest = (body: unknown): ProxyJsonRequest => {
+  const { prompt, schema } = (body ?? {}) as Partial<ProxyJsonRequest>;
+  if (!isString(prompt) || typeof schema !== 'object' || schema === null) {
+    throw httpError(400, 'bad-request', 'Expected { prompt, schema }');
+  }
+  return { prompt, schema };
+};
+
+const parseChatRequest = (body: unknown): ProxyChatRequest => {
+  const { systemInstruction, temperature, history, message } = (body ?? {}) as Partial<ProxyChatRequest>;
+  const validHistory = Array.isArray(history) && history.every(turn =>
+    (turn?.role === 'user' || turn?.role === 'model') && isString(turn.text)
+  );
+  if (!isString(systemInstruction) || !isString(message) || !validHistory) {
+    throw httpError(400, 'bad-request', 'Expected { systemInstruction, history, message }');
+  }
+  return { systemInstruction, temperature: typeof temperature === 'number' ? temperature : undefined, history, message };
+};
+
+const parseEmbedRequest = (body: unknown): ProxyEmbedRequest => {
+  const { texts, task } = (body ?? {}) as Partial<ProxyEmbedRequest>;
+  if (!Array.isArray(texts) || !texts.every(isString) || (task !== 'document' && task !== 'query')) {
+    throw httpError(400, 'bad-request', 'Expected { texts, task }');
+  }
+  return { texts, task };
+};
+
+const clientAddress = (req: IncomingMessage, trustProxy?: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && forwarded) return String(forwarded).split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * Creates the request handler for everything under `basePath`. Other paths
+ * are passed to `next` (or answered with 404 when there is none).
+ */
+export const createProxyHandler = (
+  config: ServerConfig,
+  basePath = '/api',
+  limiter: RateLimiter = createRateLimiter(config.rateLimit)
+): ProxyHandler => {
+  const { provider } = config;
+
+  const stream = async (request: ProxyChatRequest, res: ServerResponse, signal: AbortSignal) => {
+    const write = (event: ProxyStreamEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+    const chat = provider.createChat(request);
+    const deltas = chat.stream(request.message, signal)[Symbol.asyncIterator]();
+
+    // Wait for the first chunk, so an early failure still gets a proper status
+    const first = await deltas.next();
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    try {
+      if (!first.done) write({ delta: first.value });
+      for (let next = first; !next.done; ) {
+        next = await deltas.next();
+        if (!next.done) write({ delta: next.value });
+      }
+      res.write('data: [DONE]\n\n');
+    } catch (error) {
+      if (!signal.aborted) {
+        const { kind, message } = classifyError(error);
+        write({ error: { kind, message } });
+      }
+    }
+    res.end();
+  };
+
+  const route = async (path: string, req: IncomingMessage, res: ServerResponse, signal: AbortSignal) => {
+    if (path === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { provider: provider.id, model: provider.model });
+      return;
+    }
+    if (req.method !== 'POST') throw httpError(404, 'bad-request', `No route for ${req.method} ${basePath}${path}`);
+
+    const body = await readJsonBody(req, config.maxBodyBytes);
+    switch (path) {
+      case '/summary': {
+        const { prompt, schema } = parseJsonRequest(body);
+        sendJson(res, 200, { text: await provider.generateJson(prompt, schema, signal) });
+        return;
+      }
+      case '/chat': {
+        const request = parseChatRequest(body);
+        sendJson(res, 200, { text: await provider.createChat(request).send(request.message, signal) });
+        return;
+      }
+      case '/chat/stream':
+        await stream(parseChatRequest(body), res, signal);
+        return;
+      case '/embed': {
+        const { texts, task } = parseEmbedRequest(body);
+        if (!provider.embed) throw httpError(501, 'unknown', `${provider.id} has no embedding model`);
+        sendJson(res, 200, { vectors: await provider.embed(texts, task) });
+        return;
+      }
+      default:
+        throw httpError(404, 'bad-request', `No route for POST ${basePath}${path}`);
+    }
+  };
+
+  return (req, res, next) => {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+      if (next) next();
+      else sendError(res, httpError(404, 'bad-request', 'Not found'));
+      return;
+    }
+
+    const corsHeaders: Record<string, string> = config.allowedOrigin
+      ? {
+          'Access-Control-Allow-Origin': config.allowedOrigin,
+          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Expose-Headers': 'Retry-After',
+        }
+      : {};
+    Object.entries(corsHeaders).forEach(([name, value]) => res.setHeader(name, value));
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const verdict = limiter.take(clientAddress(req, config.trustProxy));
+      if (verdict.allowed === false) {
+        const seconds = Math.ceil(verdict.retryAfterMs / 1000);
+        sendError(res, httpError(429, 'quota', `Too many requests. Try again in ${seconds}s.`), { 'Retry-After': String(seconds) });
+        return;
+      }
+    }
+
+    // Stop the model call when the browser gives up (user stopped the answer, timeout)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    route(pathname.slice(basePath.length) || '/', req, res, controller.signal).catch(error => {
+      if (controller.signal.aborted) return;
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (isHttpError(error)) {
+        // Don't wait for the rest of an oversized body on this connection
+        sendError(res, error, error.status === 413 ? { Connection: 'close' } : {});
+        return;
+      }
+      console.error(`[api] ${req.method} ${pathname} failed:`, error);
+      const { kind, message, retryAfterMs } = classifyError(error);
+      const headers: Record<string, string> = retryAfterMs ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : {};
+      sendError(res, httpError(ERROR_STATUS[kind], kind, message), headers);
+    });
+  };
+};
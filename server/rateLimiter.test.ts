@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+const createClock = (start = 0) => {
+  let time = start;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit per window, then says how long to wait', () => {
+    const clock = createClock();
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000, now: clock.now });
+
+    expect(limiter.take('a')).toEqual({ allowed: true });
+    clock.advance(10_000);
+    expect(limiter.take('a')).toEqual({ allowed: true });
+    clock.advance(5_000);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 45_000 });
+  });
+
+  it('starts a new window once the old one has passed', () => {
+    const clock = createClock();
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000, now: clock.now });
+
+    limiter.take('a');
+    expect(limiter.take('a').allowed).toBe(false);
+    clock.advance(60_000);
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+
+  it('counts each client separately', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000, now: createClock().now });
+
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('b').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Fixed-window request counter per client. Enough to keep one browser tab
+ * from burning the team's quota; not meant to stop a determined attacker.
+ */
+
+export interface RateLimiter {
+  /** Counts a request; returns how long to wait when over the limit. */
+  take: (clientId: string) => { allowed: true } | { allowed: false; retryAfterMs: number };
+}
+
+export interface RateLimiterOptions {
+  limit: number; // Requests per window
+  windowMs: number;
+  now?: () => number; // Injectable for tests
+}
+
+export const createRateLimiter = ({ limit, windowMs, now = Date.now }: RateLimiterOptions): RateLimiter => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const sweep = (time: number) => {
+    windows.forEach((window, clientId) => {
+      if (time - window.startedAt >= windowMs) windows.delete(clientId);
+    });
+  };
+
+  return {
+    take: (clientId) => {
+      const time = now();
+      // Old windows would otherwise pile up, one per client ever seen
+      if (windows.size > 1000) sweep(time);
+
+      let window = windows.get(clientId);
+      if (!window || time - window.startedAt >= windowMs) {
+        window = { startedAt: time, count: 0 };
+        windows.set(clientId, window);
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterMs: window.startedAt + windowMs - time };
+      }
+      window.count++;
+      return { allowed: true };
+    },
+  };
+};
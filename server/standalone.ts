@@ -0,0 +1,15 @@
+import { createServer } from 'node:http';
+import { createProxyHandler, loadServerConfig } from './proxyServer';
+
+/**
+ * Runs the API on its own, e.g. behind a reverse proxy that serves the built
+ * frontend. Build and start with `npm run server`; configure with the
+ * variables listed in proxyServer.ts plus PORT (default 8787).
+ */
+const config = loadServerConfig(process.env);
+const port = Number(process.env.PORT) || 8787;
+const handler = createProxyHandler(config);
+
+createServer((req, res) => handler(req, res)).listen(port, () => {
+  console.log(`API server on http://localhost:${port}/api (${config.provider.id}, ${config.provider.model})`);
+});
@@ -0,0 +1,23 @@
+import type { Plugin } from 'vite';
+import { createProxyHandler, loadServerConfig } from './proxyServer';
+
+/**
+ * Serves the API next to the app in `vite` and `vite preview`, so one
+ * command runs everything. The env comes from vite's loadEnv: variables
+ * without the VITE_ prefix never reach the browser bundle.
+ */
+export const apiServerPlugin = (env: Record<string, string | undefined>, basePath = '/api'): Plugin => {
+  let handler: ReturnType<typeof createProxyHandler> | null = null;
+  // Created on first use: a build doesn't need a provider
+  const getHandler = () => (handler ??= createProxyHandler(loadServerConfig(env), basePath));
+
+  return {
+    name: 'wanderlust-api-server',
+    configureServer: (server) => {
+      server.middlewares.use((req, res, next) => getHandler()(req, res, next));
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use((req, res, next) => getHandler()(req, res, next));
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { TripEvent } from '../types';
+import { DEFAULT_EXCHANGE_RATES, asksAboutMoney, formatBudgetForPrompt } from './budgetService';
+
+const EVENTS: TripEvent[] = [
+  {
+    type: 'hotel',
+    date: '2025-03-14',
+    time: '',
+    activity: 'Hotel Lutetia',
+    location: 'Paris',
+    start: '2025-03-14',
+    end: '2025-03-16',
+    allDay: true,
+    costs: [
+      { amount: 120, currency: 'EUR', status: 'paid', label: 'Deposit' },
+      { amount: 200, currency: 'EUR', status: 'due', dueDate: '2025-03-14', label: 'Balance' },
+    ],
+  },
+  {
+    type: 'flight',
+    date: '2025-03-16',
+    time: '18:00',
+    activity: 'Flight BA305',
+    location: 'Paris CDG → London LHR',
+    costs: [{ amount: 100, currency: 'GBP', status: 'paid' }],
+  },
+];
+
+describe('asksAboutMoney', () => {
+  it('spots questions about prices, payments and the budget', () => {
+    expect(asksAboutMoney('How much is still owed?')).toBe(true);
+    expect(asksAboutMoney('What did the hotel cost?')).toBe(true);
+    expect(asksAboutMoney('When is the balance due?')).toBe(true);
+    expect(asksAboutMoney('Is breakfast included in the €200?')).toBe(true);
+    expect(asksAboutMoney('What is the hotel address?')).toBe(false);
+    expect(asksAboutMoney("What's next?")).toBe(false);
+  });
+});
+
+describe('formatBudgetForPrompt', () => {
+  it('lists each cost and gives the totals in the home currency', () => {
+    const text = formatBudgetForPrompt(EVENTS, DEFAULT_EXCHANGE_RATES, '2025-03-15');
+
+    expect(text).toContain('Hotel Lutetia (Balance): 200.00 EUR DUE by 2025-03-14 (OVERDUE)');
+    expect(text).toContain('Flight BA305: 100.00 GBP ≈ 117.00 EUR PAID');
+    expect(text).toContain('TOTALS IN EUR: 437.00 EUR in all, 237.00 EUR paid, 200.00 EUR still due.');
+  });
+});
@@ -0,0 +1,171 @@
+import { EventCost, TripEvent } from '../types';
+import { resolveEventTimes } from './eventTimeService';
+
+/**
+ * Trip costs in the user's home currency. Rates come from a small table the
+ * user edits, stored in this browser like the provider settings: the app
+ * works offline, and cards charge their own rates anyway.
+ */
+
+export interface ExchangeRates {
+  homeCurrency: string;
+  rates: Record<string, number>; // Value of one unit of each currency in the home currency
+}
+
+// Approximate values in euros, a starting point for the user to adjust
+const DEFAULT_EUR_RATES: Record<string, number> = {
+  EUR: 1, USD: 0.92, GBP: 1.17, CHF: 1.05, JPY: 0.0061, CAD: 0.68, AUD: 0.61, NZD: 0.56,
+  SEK: 0.088, NOK: 0.087, DKK: 0.134, PLN: 0.23, CZK: 0.04, HUF: 0.0025, TRY: 0.028, AED: 0.25,
+  INR: 0.011, THB: 0.026, SGD: 0.69, HKD: 0.118, CNY: 0.128, KRW: 0.00068, MXN: 0.054, BRL: 0.17, ZAR: 0.05,
+};
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = { homeCurrency: 'EUR', rates: DEFAULT_EUR_RATES };
+
+const RATES_KEY = 'wanderlust-ai:exchange-rates';
+
+export const loadExchangeRates = (): ExchangeRates => {
+  try {
+    const stored = localStorage.getItem(RATES_KEY);
+    return stored ? { ...DEFAULT_EXCHANGE_RATES, ...JSON.parse(stored) } : DEFAULT_EXCHANGE_RATES;
+  } catch {
+    return DEFAULT_EXCHANGE_RATES;
+  }
+};
+
+export const saveExchangeRates = (table: ExchangeRates) => {
+  localStorage.setItem(RATES_KEY, JSON.stringify(table));
+};
+
+/**
+ * The same table expressed in another home currency. Without a rate for the
+ * new currency the old values mean nothing, so only the home rate is kept.
+ */
+export const changeHomeCurrency = (table: ExchangeRates, currency: string): ExchangeRates => {
+  const base = currency === table.homeCurrency ? 1 : table.rates[currency];
+  if (!base) return { homeCurrency: currency, rates: { [currency]: 1 } };
+  const rebase = (value: number) => Number((value / base).toPrecision(6)); // Keep the table readable
+  const rates = Object.fromEntries(Object.entries(table.rates).map(([code, value]) => [code, rebase(value)]));
+  return { homeCurrency: currency, rates: { ...rates, [table.homeCurrency]: rebase(1), [currency]: 1 } };
+};
+
+/** The amount in the home currency, or null when there is no rate for its currency. */
+export const convertAmount = (amount: number, currency: string, table: ExchangeRates): number | null => {
+  if (currency === table.homeCurrency) return amount;
+  const rate = table.rates[currency];
+  return rate > 0 ? amount * rate : null;
+};
+
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`; // Codes Intl doesn't know
+  }
+};
+
+export interface CostLine {
+  event: TripEvent;
+  eventIndex: number; // Position in summary.events
+  costIndex: number; // Position in event.costs
+  cost: EventCost;
+  converted: number | null; // In the home currency
+  day: string; // Trip day of the event, YYYY-MM-DD
+}
+
+export const getCostLines = (events: TripEvent[], table: ExchangeRates): CostLine[] =>
+  events.flatMap((event, eventIndex) =>
+    (event.costs ?? []).map((cost, costIndex) => ({
+      event,
+      eventIndex,
+      costIndex,
+      cost,
+      converted: convertAmount(cost.amount, cost.currency, table),
+      day: resolveEventTimes(event).start.slice(0, 10),
+    }))
+  );
+
+export interface BudgetTotals {
+  total: number; // In the home currency, without the amounts that couldn't be converted
+  paid: number;
+  due: number;
+  missingRates: string[]; // Currencies left out for lack of a rate
+}
+
+export const sumCostLines = (lines: CostLine[]): BudgetTotals => {
+  const totals: BudgetTotals = { total: 0, paid: 0, due: 0, missingRates: [] };
+  lines.forEach(({ cost, converted }) => {
+    if (converted === null) {
+      if (!totals.missingRates.includes(cost.currency)) totals.missingRates.push(cost.currency);
+      return;
+    }
+    totals.total += converted;
+    totals[cost.status] += converted;
+  });
+  return totals;
+};
+
+export type BudgetGrouping = 'category' | 'day';
+
+export interface BudgetGroup {
+  key: string; // Event type or trip day
+  lines: CostLine[];
+  totals: BudgetTotals;
+}
+
+export const groupCostLines = (lines: CostLine[], grouping: BudgetGrouping): BudgetGroup[] => {
+  const groups = new Map<string, CostLine[]>();
+  lines.forEach(line => {
+    const key = grouping === 'day' ? line.day : line.event.type;
+    groups.set(key, [...(groups.get(key) ?? []), line]);
+  });
+  return [...groups.entries()]
+    .map(([key, groupLines]) => ({ key, lines: groupLines, totals: sumCostLines(groupLines) }))
+    .sort((a, b) => (grouping === 'day' ? a.key.localeCompare(b.key) : b.totals.total - a.totals.total));
+};
+
+/** Unpaid amounts, the ones to pay first at the top. */
+export const getOutstandingCosts = (lines: CostLine[]): CostLine[] =>
+  lines
+    .filter(line => line.cost.status === 'due')
+    .sort((a, b) => (a.cost.dueDate ?? a.day).localeCompare(b.cost.dueDate ?? b.day));
+
+const formatPlain = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+/**
+ * Every cost and the computed totals as text for the chat, so questions like
+ * "how much do I still owe?" are answered from these numbers.
+ */
+export const formatBudgetForPrompt = (events: TripEvent[], table: ExchangeRates, today: string): string => {
+  const lines = getCostLines(events, table);
+  if (lines.length === 0) return '(no prices found in the bookings)';
+
+  const home = table.homeCurrency;
+  const costLine = ({ event, cost, converted, day }: CostLine) => {
+    const status = cost.status === 'paid'
+      ? 'PAID'
+      : `DUE${cost.dueDate ? ` by ${cost.dueDate}${cost.dueDate < today ? ' (OVERDUE)' : ''}` : ''}`;
+    const inHome = cost.currency !== home && converted !== null ? ` ≈ ${formatPlain(converted, home)}` : '';
+    return `- ${day} [${event.type}] ${event.activity}${cost.label ? ` (${cost.label})` : ''}: ${formatPlain(cost.amount, cost.currency)}${inHome} ${status}`;
+  };
+
+  const totals = sumCostLines(lines);
+  const dueByCurrency = new Map<string, number>();
+  getOutstandingCosts(lines).forEach(({ cost }) => dueByCurrency.set(cost.currency, (dueByCurrency.get(cost.currency) ?? 0) + cost.amount));
+  const rates = [...new Set(lines.map(l => l.cost.currency))]
+    .filter(code => code !== home && table.rates[code] > 0)
+    .map(code => `1 ${code} = ${table.rates[code]} ${home}`);
+
+  return [
+    `Today: ${today}. Home currency: ${home}${rates.length > 0 ? ` (user's rates: ${rates.join(', ')})` : ''}.`,
+    ...lines.map(costLine),
+    `TOTALS IN ${home}: ${formatPlain(totals.total, home)} in all, ${formatPlain(totals.paid, home)} paid, ${formatPlain(totals.due, home)} still due.`,
+    `STILL DUE BY CURRENCY: ${[...dueByCurrency].map(([code, amount]) => formatPlain(amount, code)).join(', ') || 'nothing'}.`,
+    totals.missingRates.length > 0 ? `NOT IN THE TOTALS (no exchange rate): amounts in ${totals.missingRates.join(', ')}.` : '',
+  ].filter(Boolean).join('\n');
+};
+
+// "How much is still owed?", "What did the hotel cost?", "When is the balance due?"
+const MONEY_QUESTION = /\b(cost|costs|costing|price|prices|priced|pay|paid|paying|payment|owe|owed|owing|budget|money|spend|spent|expensive|cheap|deposit|balance|refund|fee|fees|charge|charged|total|how much|due|currency|euros?|dollars?|pounds?)\b|[€$£¥]/i;
+
+/** Whether a chat question is about money, so its prompt needs the trip's costs. */
+export const asksAboutMoney = (question: string): boolean => MONEY_QUESTION.test(question);
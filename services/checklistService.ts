@@ -0,0 +1,82 @@
+import { ChecklistCategory, ChecklistItem, TripEvent, UploadedFile } from '../types';
+
+/**
+ * The pre-trip checklist: what generateChecklist returns, grouped for display
+ * and kept in step with the timeline. Items point at their booking by date
+ * and title rather than by position, so edits to the timeline don't move
+ * them onto another event.
+ */
+
+export const CHECKLIST_CATEGORIES: ChecklistCategory[] = ['documents', 'visa', 'check-in', 'payment', 'packing'];
+
+export const CHECKLIST_CATEGORY_LABELS: Record<ChecklistCategory, string> = {
+  documents: 'Documents to bring',
+  visa: 'Visa & passport',
+  'check-in': 'Check-in',
+  payment: 'Payments due',
+  packing: 'Packing',
+};
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sameConfirmation = (a?: string, b?: string) =>
+  !!a && !!b && a.replace(/\s/g, '').toUpperCase() === b.replace(/\s/g, '').toUpperCase();
+
+/** Position of the item's booking in `events`, or -1 once it is gone or was edited beyond recognition. */
+export const findChecklistEvent = (item: ChecklistItem, events: TripEvent[]): number => {
+  const ref = item.event;
+  if (!ref) return -1;
+  const byConfirmation = events.findIndex(e => sameConfirmation(e.confirmationNumber, ref.confirmationNumber) && e.date === ref.date);
+  if (byConfirmation !== -1) return byConfirmation;
+  return events.findIndex(e => e.date === ref.date && normalizeText(e.activity) === normalizeText(ref.activity));
+};
+
+export interface ChecklistGroup {
+  category: ChecklistCategory;
+  items: ChecklistItem[];
+}
+
+/** Items by category, the ones with a deadline first and soonest first. */
+export const groupChecklist = (items: ChecklistItem[]): ChecklistGroup[] =>
+  CHECKLIST_CATEGORIES
+    .map(category => ({
+      category,
+      items: items
+        .filter(item => item.category === category)
+        .sort((a, b) => (a.due ?? '\uffff').localeCompare(b.due ?? '\uffff')),
+    }))
+    .filter(group => group.items.length > 0);
+
+export const countDone = (items: ChecklistItem[]) => items.filter(item => item.done).length;
+
+/** A deadline already passed on `today` (YYYY-MM-DD) without the item being done. */
+export const isOverdue = (item: ChecklistItem, today: string) => !item.done && !!item.due && item.due.slice(0, 10) < today;
+
+/**
+ * Keeps what was ticked off when the checklist is generated again: an item
+ * counts as the same when its category and wording are.
+ */
+export const carryOverChecklist = (previous: ChecklistItem[] = [], next: ChecklistItem[] = []): ChecklistItem[] => {
+  const done = new Set(previous.filter(item => item.done).map(item => `${item.category}|${normalizeText(item.text)}`));
+  return next.map(item => (done.has(`${item.category}|${normalizeText(item.text)}`) ? { ...item, done: true } : item));
+};
+
+export const toggleChecklistItem = (items: ChecklistItem[], id: string): ChecklistItem[] =>
+  items.map(item => (item.id === id ? { ...item, done: !item.done || undefined } : item));
+
+// Words on the pages the checklist prompt should see besides the timeline
+const CHECKLIST_PAGE_KEYWORDS = /\b(visa|passport|esta|eta|e-visa|entry|identity card|id card|check-in|checkin|online check|baggage|luggage|vaccin\w*|insurance|dress code|bring|deposit|balance|payable|due)\b/i;
+
+/** Pages likely to hold entry rules, check-in windows and what to bring. */
+export const selectChecklistPages = (files: UploadedFile[], maxChars: number): string => {
+  let text = '';
+  for (const file of files) {
+    for (const page of file.pages) {
+      if (!CHECKLIST_PAGE_KEYWORDS.test(page.text)) continue;
+      const block = `=== ${file.name}, Page ${page.pageNumber} ===\n${page.text}\n\n`;
+      if (text.length + block.length > maxChars) continue; // A shorter page may still fit
+      text += block;
+    }
+  }
+  return text;
+};
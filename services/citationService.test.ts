@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { UploadedFile } from '../types';
+import { findSupportingPassage, linkCitations, parseCitations } from './citationService';
+
+// Only the pages matter to citations
+const file = (name: string, ...pages: string[]): UploadedFile => ({
+  name,
+  content: '',
+  pages: pages.map((text, i) => ({ pageNumber: i + 1, text })),
+  size: 0,
+  pageCount: pages.length,
+});
+
+const PARIS = file('hotel-paris.pdf',
+  'Hotel Lutetia, 45 Boulevard Raspail, Paris. Booking LU-1001.',
+  'Check-in from 15:00. Breakfast is served in the winter garden from 06:30.');
+const ROME = file('hotel-rome.pdf',
+  'Hotel Artemide, Via Nazionale 22, Rome. Booking AR-2291.',
+  'Breakfast is served on the roof terrace from 07:00 to 10:30.',
+  'City tax of 6 EUR per night is paid at the property.');
+const FLIGHTS = file('flights.pdf',
+  'Flight AF1234 Paris CDG to Rome FCO, 20 March 2025, departs 10:00.',
+  'Flight AZ319 Rome FCO to Paris CDG, 23 March 2025, seat 14C.');
+const FILES = [PARIS, ROME, FLIGHTS];
+
+describe('parseCitations', () => {
+  it('resolves file names with or without their extension', () => {
+    const citations = parseCitations('The booking is AR-2291 [hotel-rome.pdf, Page 1]. You land at FCO [flights, p. 1].', FILES);
+
+    expect(citations).toEqual([
+      { id: 'citation-0', raw: '[hotel-rome.pdf, Page 1]', fileName: 'hotel-rome.pdf', pageNumber: 1, claim: 'The booking is AR-2291', isValid: true },
+      { id: 'citation-1', raw: '[flights, p. 1]', fileName: 'flights.pdf', pageNumber: 1, claim: 'You land at FCO', isValid: true },
+    ]);
+  });
+
+  it('sends a partial name fitting several files to the one whose page supports the claim', () => {
+    const citations = parseCitations([
+      'Breakfast is on the roof terrace from 07:00 [hotel, Page 2].',
+      'In Paris, breakfast is in the winter garden [hotel, Page 2].',
+    ].join('\n'), FILES);
+
+    expect(citations.map(c => c.fileName)).toEqual(['hotel-rome.pdf', 'hotel-paris.pdf']);
+    expect(citations.every(c => c.isValid)).toBe(true);
+  });
+
+  it('flags pages the file does not have', () => {
+    const [named, bare, partial] = parseCitations([
+      'The city tax is 6 EUR [hotel-rome.pdf, Page 9].',
+      'The city tax is 6 EUR [Page 9].',
+      'The city tax is 6 EUR [hotel, Pg. 3].',
+    ].join('\n'), [ROME]);
+
+    expect(named).toMatchObject({ fileName: 'hotel-rome.pdf', pageNumber: 9, isValid: false });
+    expect(bare).toMatchObject({ fileName: null, pageNumber: 9, isValid: false });
+    expect(partial).toMatchObject({ fileName: 'hotel-rome.pdf', pageNumber: 3, isValid: true });
+  });
+
+  it('flags files that were never uploaded, and keeps their name', () => {
+    expect(parseCitations('A visa is not needed [visa.pdf, Page 1].', FILES)[0])
+      .toMatchObject({ fileName: 'visa.pdf', isValid: false });
+  });
+
+  it('sends a bare page number to the file whose page supports the claim', () => {
+    const [citation] = parseCitations('Your seat on AZ319 is 14C [Page 2].', FILES);
+    expect(citation).toMatchObject({ fileName: 'flights.pdf', pageNumber: 2, isValid: true });
+  });
+});
+
+describe('findSupportingPassage', () => {
+  it('finds the sentence sharing the most words with the claim', () => {
+    const page = ROME.pages[0].text;
+    const span = findSupportingPassage(page, 'The booking number is AR-2291');
+    expect(page.slice(span!.start, span!.end)).toBe('Booking AR-2291.');
+  });
+
+  it('finds nothing when no word is shared', () => {
+    expect(findSupportingPassage(ROME.pages[0].text, 'Gate closes at 09:40')).toBeNull();
+  });
+
+  it('cuts text without punctuation into windows of words', () => {
+    const words = Array.from({ length: 100 }, (_, i) => `w${i}`);
+    const page = [...words.slice(0, 70), 'terminal', '2F', ...words.slice(70)].join(' ');
+    const span = findSupportingPassage(page, 'Which terminal, 2F?');
+    const passage = page.slice(span!.start, span!.end);
+
+    expect(passage).toContain('terminal 2F');
+    expect(passage.split(' ').length).toBeLessThanOrEqual(40);
+  });
+});
+
+describe('linkCitations', () => {
+  it('turns each marker into a link to its citation', () => {
+    const content = 'Breakfast from 07:00 [hotel-rome.pdf, Page 2]. Seat 14C [Page 2].';
+    const citations = parseCitations(content, FILES);
+
+    expect(linkCitations(content, citations))
+      .toBe('Breakfast from 07:00 [hotel-rome.pdf, p.2](#citation-0). Seat 14C [flights.pdf, p.2](#citation-1).');
+  });
+
+  it('leaves markers alone when the citations were parsed from other text', () => {
+    expect(linkCitations('Seat 14C [Page 2].', [])).toBe('Seat 14C [Page 2].');
+  });
+});
@@ -0,0 +1,170 @@
+import { Citation, PageText, UploadedFile } from '../types';
+
+// Matches "[Page 3]" and "[hotel.pdf, Page 3]" (also "Pg"/"p." variants the model sometimes uses)
+const CITATION_PATTERN = /\[(?:([^[\]]+?),\s*)?(?:Page|Pg\.?|p\.)\s*(\d+)\]/gi;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'you', 'your', 'with', 'from', 'this', 'that',
+  'will', 'have', 'has', 'its', 'our', 'can', 'not', 'but', 'all', 'any', 'page',
+]);
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+const keywords = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+const stripMarkdown = (text: string): string =>
+  text.replace(/[*_`>#]/g, '').replace(/^\s*[-•]\s*/, '').trim();
+
+// Files a marker's label may mean. A partial name ("hotel") can fit several
+// files; the caller then picks the one whose page supports the claim.
+const matchFileLabel = (label: string, files: UploadedFile[]): UploadedFile[] => {
+  const wanted = label.trim().toLowerCase();
+  const withoutExt = (name: string) => name.toLowerCase().replace(/\.[a-z0-9]+$/, '');
+
+  const exact = files.find(f => f.name.toLowerCase() === wanted) ||
+    files.find(f => withoutExt(f.name) === withoutExt(wanted));
+  if (exact) return [exact];
+  return files.filter(f => f.name.toLowerCase().includes(wanted) || wanted.includes(withoutExt(f.name)));
+};
+
+export const getPage = (file: UploadedFile, pageNumber: number): PageText | undefined =>
+  file.pages.find(p => p.pageNumber === pageNumber);
+
+/**
+ * The sentence (or bullet) of the answer that ends at the citation marker.
+ * Falls back to the text right after the marker when it opens a line.
+ */
+const extractClaim = (content: string, markerStart: number, markerEnd: number): string => {
+  const before = content.slice(0, markerStart);
+  const boundary = Math.max(
+    before.lastIndexOf('\n'),
+    before.search(/[.!?](?=[^.!?]*$)/),
+    before.lastIndexOf(']')
+  );
+  const claim = stripMarkdown(before.slice(boundary + 1));
+  if (keywords(claim).length > 0) return claim;
+
+  const after = content.slice(markerEnd);
+  const afterEnd = after.search(/[\n.!?]/);
+  return stripMarkdown(afterEnd === -1 ? after : after.slice(0, afterEnd));
+};
+
+/**
+ * Finds the sentence of a page that best supports a claim, by keyword overlap.
+ * Returns null when nothing on the page shares a keyword with the claim.
+ */
+export const findSupportingPassage = (pageText: string, claim: string): TextSpan | null => {
+  const claimWords = new Set(keywords(claim));
+  if (claimWords.size === 0) return null;
+
+  const segments: TextSpan[] = [];
+  for (const match of pageText.matchAll(/[^.!?\n]+[.!?]?/g)) {
+    const start = match.index ?? 0;
+    const text = match[0];
+    if (text.length <= 300) {
+      segments.push({ start, end: start + text.length });
+      continue;
+    }
+    // PDF text often has no punctuation at all: fall back to windows of words
+    const words = [...text.matchAll(/\S+/g)];
+    for (let i = 0; i < words.length; i += 20) {
+      const window = words.slice(i, i + 40);
+      const first = window[0];
+      const last = window[window.length - 1];
+      segments.push({
+        start: start + (first.index ?? 0),
+        end: start + (last.index ?? 0) + last[0].length,
+      });
+    }
+  }
+
+  let best: TextSpan | null = null;
+  let bestScore = 0;
+  for (const segment of segments) {
+    const score = overlapScore(pageText.slice(segment.start, segment.end), claimWords);
+    const isShorter = best !== null && segment.end - segment.start < best.end - best.start;
+    if (score > bestScore || (score > 0 && score === bestScore && isShorter)) {
+      best = segment;
+      bestScore = score;
+    }
+  }
+
+  if (!best) return null;
+  // Trim the whitespace the sentence split leaves at the start
+  const leading = pageText.slice(best.start, best.end).search(/\S/);
+  return { start: best.start + Math.max(leading, 0), end: best.end };
+};
+
+const overlapScore = (text: string, claimWords: Set<string>): number => {
+  const words = new Set(keywords(text));
+  let score = 0;
+  claimWords.forEach(word => {
+    if (words.has(word)) score++;
+  });
+  return score;
+};
+
+// How well the best passage of a page supports the claim
+const pageSupport = (pageText: string, claim: string): number => {
+  const span = findSupportingPassage(pageText, claim);
+  return span ? overlapScore(pageText.slice(span.start, span.end), new Set(keywords(claim))) : 0;
+};
+
+// The file whose page best supports the claim, among those that have the page
+const bestSupportedFile = (files: UploadedFile[], pageNumber: number, claim: string): UploadedFile | undefined =>
+  files
+    .filter(f => getPage(f, pageNumber))
+    .map(f => ({ f, support: pageSupport(getPage(f, pageNumber)?.text ?? '', claim) }))
+    .sort((a, b) => b.support - a.support)[0]?.f;
+
+/**
+ * Parses the citation markers in a model answer into structured references,
+ * resolving each one against the uploaded files. A marker without a file name,
+ * or with one that fits several files, goes to the file whose page best
+ * supports the cited sentence.
+ */
+export const parseCitations = (content: string, files: UploadedFile[]): Citation[] => {
+  const citations: Citation[] = [];
+
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const pageNumber = parseInt(match[2], 10);
+    const claim = extractClaim(content, start, end);
+
+    const candidates = match[1] ? matchFileLabel(match[1], files) : files;
+    // A file named unambiguously is kept even without that page, so the marker shows as invalid
+    const file = match[1] && candidates.length === 1
+      ? candidates[0]
+      : bestSupportedFile(candidates, pageNumber, claim);
+
+    citations.push({
+      id: `citation-${citations.length}`,
+      raw: match[0],
+      fileName: file?.name ?? (match[1]?.trim() || null),
+      pageNumber,
+      claim,
+      isValid: !!file && !!getPage(file, pageNumber),
+    });
+  }
+
+  return citations;
+};
+
+/**
+ * Rewrites citation markers as markdown links to "#citation-N" so the bubble
+ * can render them as clickable chips.
+ */
+export const linkCitations = (content: string, citations: Citation[]): string => {
+  let index = 0;
+  return content.replace(CITATION_PATTERN, (raw) => {
+    const citation = citations[index++];
+    if (!citation || citation.raw !== raw) return raw;
+    const label = citation.fileName ? `${citation.fileName}, p.${citation.pageNumber}` : `p.${citation.pageNumber}`;
+    return `[${label.replace(/[[\]]/g, '')}](#${citation.id})`;
+  });
+};
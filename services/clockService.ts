@@ -0,0 +1,70 @@
+/**
+ * Where the app gets the time from. Everything that depends on "now"
+ * (reminders, the Today view, what the chat calls today) takes a Clock, so
+ * it can run on a fake one: in tests, or in the browser with ?now=2025-05-01T09:30
+ * to see a trip as it will look on that day.
+ */
+
+export interface Clock {
+  now: () => number; // UTC milliseconds
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/** A clock that starts at `start` and runs at normal speed from there. */
+export const createFakeClock = (start: number, base: Clock = systemClock): Clock => {
+  const offset = start - base.now();
+  return { ...base, now: () => base.now() + offset };
+};
+
+/**
+ * The clock for this page: a fake one when the URL has ?now= (a date-time
+ * in the device's time, or with Z or an offset), otherwise the real one.
+ */
+export const getClockFromUrl = (search: string): Clock => {
+  const value = new URLSearchParams(search).get('now');
+  const start = value ? Date.parse(value) : NaN;
+  return isNaN(start) ? systemClock : createFakeClock(start);
+};
+
+export interface ManualClock extends Clock {
+  /** Moves time forward, running the timers that come due on the way, in order. */
+  advance: (ms: number) => void;
+}
+
+/** A clock that only moves when told to, for tests. */
+export const createManualClock = (start: number): ManualClock => {
+  let time = start;
+  let nextId = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const dueTimer = (until: number) =>
+    [...timers].filter(([, timer]) => timer.at <= until).sort((a, b) => a[1].at - b[1].at || a[0] - b[0])[0];
+
+  return {
+    now: () => time,
+    setTimeout: (callback, ms) => {
+      timers.set(++nextId, { at: time + Math.max(0, ms), callback });
+      return nextId;
+    },
+    clearTimeout: handle => {
+      timers.delete(handle as number);
+    },
+    advance: ms => {
+      const until = time + ms;
+      for (let due = dueTimer(until); due; due = dueTimer(until)) {
+        const [id, timer] = due;
+        timers.delete(id);
+        time = timer.at;
+        timer.callback();
+      }
+      time = until;
+    },
+  };
+};
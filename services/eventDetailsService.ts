@@ -0,0 +1,138 @@
+import { EventDetailsByType, TripEvent, TripEventType } from '../types';
+import { JsonSchema } from './llmProvider';
+import { parseClockTime } from './eventTimeService';
+
+/**
+ * The category-specific fields of TripEvent, described once and used for the
+ * summary schema, for cleaning the model's output and for display.
+ */
+
+export interface DetailField<T> {
+  key: keyof T & string;
+  label: string;
+  description: string; // Instruction for the model
+}
+
+export type DetailFieldsByType = { [K in TripEventType]: DetailField<EventDetailsByType[K]>[] };
+
+export const EVENT_DETAIL_FIELDS: DetailFieldsByType = {
+  flight: [
+    { key: 'airline', label: 'Airline', description: "Airline name" },
+    { key: 'flightNumber', label: 'Flight', description: "Flight number with airline code, e.g. 'LH 401'" },
+    { key: 'departureAirport', label: 'From', description: "Departure airport, IATA code if given (e.g. 'FRA')" },
+    { key: 'arrivalAirport', label: 'To', description: "Arrival airport, IATA code if given (e.g. 'JFK')" },
+    { key: 'departureTerminal', label: 'Departure terminal', description: "Departure terminal" },
+    { key: 'arrivalTerminal', label: 'Arrival terminal', description: "Arrival terminal" },
+    { key: 'gate', label: 'Gate', description: "Departure gate" },
+    { key: 'seat', label: 'Seat', description: "Seat number(s), e.g. '23A'" },
+    { key: 'cabin', label: 'Cabin', description: "Cabin or fare class, e.g. 'Economy'" },
+  ],
+  hotel: [
+    { key: 'address', label: 'Address', description: "Full street address of the hotel" },
+    { key: 'checkInTime', label: 'Check-in', description: "Check-in time in HH:MM (24h)" },
+    { key: 'checkOutTime', label: 'Check-out', description: "Check-out time in HH:MM (24h)" },
+    { key: 'roomType', label: 'Room', description: "Room type, e.g. 'Double room, city view'" },
+    { key: 'guests', label: 'Guests', description: "Number or names of guests" },
+    { key: 'phone', label: 'Phone', description: "Hotel phone number" },
+  ],
+  activity: [
+    { key: 'address', label: 'Address', description: "Address of the venue or meeting place" },
+    { key: 'provider', label: 'Provider', description: "Tour operator, venue or rail company" },
+    { key: 'meetingPoint', label: 'Meeting point', description: "Where to meet or board" },
+    { key: 'ticketType', label: 'Ticket', description: "Ticket or fare type" },
+  ],
+  food: [
+    { key: 'address', label: 'Address', description: "Restaurant address" },
+    { key: 'partySize', label: 'Party size', description: "Number of people on the reservation" },
+    { key: 'reservationName', label: 'Reserved under', description: "Name the table is booked under" },
+    { key: 'phone', label: 'Phone', description: "Restaurant phone number" },
+  ],
+  other: [],
+};
+
+/**
+ * The `details` part of the summary schema. Providers' JSON modes don't all
+ * support unions, so every field is listed once and tagged with the event
+ * types it applies to; normalizeEventDetails keeps only the matching ones.
+ */
+export const buildDetailsSchema = (): JsonSchema => {
+  const fields = new Map<string, { description: string; types: TripEventType[] }>();
+  (Object.keys(EVENT_DETAIL_FIELDS) as TripEventType[]).forEach(type => {
+    EVENT_DETAIL_FIELDS[type].forEach(field => {
+      const entry = fields.get(field.key) ?? { description: field.description, types: [] };
+      entry.types.push(type);
+      fields.set(field.key, entry);
+    });
+  });
+
+  const properties: Record<string, JsonSchema> = {};
+  fields.forEach(({ description, types }, key) => {
+    properties[key] = { type: 'string', description: `${description} (${types.join('/')} only)` };
+  });
+
+  return {
+    type: 'object',
+    description: "Booking details for this event; only fill the fields for its type",
+    properties,
+  };
+};
+
+const clean = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim();
+  return text && !/^(n\/a|none|unknown|null)$/i.test(text) ? text : undefined;
+};
+
+// Read by reminders and the Today view, so they must be HH:MM
+const TIME_FIELDS = new Set(['checkInTime', 'checkOutTime']);
+
+/**
+ * Turns the model's loose output into the typed union: unknown fields and
+ * fields of other types are dropped, empty values removed, times brought to
+ * HH:MM (or dropped when they aren't one).
+ */
+export const normalizeEventDetails = (event: TripEvent): TripEvent => {
+  const raw = (event.details ?? {}) as Record<string, unknown>;
+  const details: Record<string, string> = {};
+  (EVENT_DETAIL_FIELDS[event.type] ?? []).forEach(({ key }) => {
+    const value = TIME_FIELDS.has(key) ? parseClockTime(clean(raw[key])) : clean(raw[key]);
+    if (value) details[key] = value;
+  });
+
+  const { details: _, confirmationNumber, ...rest } = event;
+  const confirmation = clean(confirmationNumber);
+  return {
+    ...rest,
+    ...(confirmation ? { confirmationNumber: confirmation } : {}),
+    ...(Object.keys(details).length > 0 ? { details } : {}),
+  } as TripEvent;
+};
+
+/** Label/value pairs of an event's filled-in details, in display order. */
+export const getEventDetailEntries = (event: TripEvent): { label: string; value: string }[] => {
+  const details = (event.details ?? {}) as Record<string, string | undefined>;
+  const entries = ((EVENT_DETAIL_FIELDS[event.type] ?? []) as DetailField<Record<string, string>>[])
+    .filter(field => details[field.key])
+    .map(field => ({ label: field.label, value: details[field.key] as string }));
+  return event.confirmationNumber
+    ? [{ label: 'Confirmation', value: event.confirmationNumber }, ...entries]
+    : entries;
+};
+
+// "Paris CDG → New York JFK", "FRA-JFK", "Lisbon to Porto"
+const ROUTE_SEPARATOR = /\s*(?:→|->|⇒|\bto\b|\s[-–—]\s|(?<=\b[A-Z]{3})-(?=[A-Z]{3}\b))\s*/;
+
+/**
+ * Where a flight leaves from and goes to: the typed airport fields first,
+ * else a route written in the location or title.
+ */
+export const getFlightRoute = (event: TripEvent): { from?: string; to?: string } => {
+  if (event.type !== 'flight') return {};
+  const route = [event.location, event.activity]
+    .map(text => text.split(ROUTE_SEPARATOR).filter(part => part.trim()))
+    .find(parts => parts.length >= 2) ?? [];
+  return {
+    from: event.details?.departureAirport || route[0],
+    to: event.details?.arrivalAirport || route[route.length - 1],
+  };
+};
@@ -0,0 +1,197 @@
+import { TripEvent } from '../types';
+
+/**
+ * Date and time-zone helpers for TripEvents. Event times are wall-clock
+ * strings ("2025-03-14T10:25") in the event's IANA zone; the browser's own
+ * zone is only used when an event has none.
+ */
+
+// Used when a timed event has no end, as the old exporter did
+export const DEFAULT_DURATION_MINUTES = 60;
+
+export interface ResolvedEventTimes {
+  start: string;
+  end: string;
+  timeZone?: string;
+  endTimeZone?: string;
+  allDay: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const isValidTimeZone = (zone: string | undefined): zone is string => {
+  if (!zone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock fields of a local string, read as if they were UTC
+const wallMillis = (local: string): number => {
+  const [date, time = '00:00'] = local.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hour || 0, minute || 0);
+};
+
+const formatWall = (millis: number, withTime: boolean): string => {
+  const d = new Date(millis);
+  const date = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  return withTime ? `${date}T${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}` : date;
+};
+
+export const addDays = (date: string, days: number): string =>
+  formatWall(wallMillis(date) + days * 86_400_000, false);
+
+export const addMinutes = (local: string, minutes: number): string =>
+  formatWall(wallMillis(local) + minutes * 60_000, true);
+
+// Formatters are slow to create and offsets are computed in loops
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of a zone from UTC at an instant, in minutes (e.g. 60 for Paris in
+ * winter).
+ */
+export const getTimeZoneOffset = (zone: string, utcMillis: number): number => {
+  let formatter = offsetFormatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    offsetFormatters.set(zone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(utcMillis));
+  const field = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return Math.round((asUtc - Math.floor(utcMillis / 1000) * 1000) / 60_000);
+};
+
+/**
+ * The instant a wall-clock time in a zone refers to. Times skipped by a DST
+ * change resolve to the later offset. Without a zone, the browser's is used.
+ */
+export const zonedTimeToUtc = (local: string, zone?: string): number => {
+  const wall = wallMillis(local);
+  if (!isValidTimeZone(zone)) {
+    const [date, time = '00:00'] = local.split('T');
+    return new Date(`${date}T${time}`).getTime();
+  }
+  // Two passes settle the offset on either side of a transition
+  let utc = wall - getTimeZoneOffset(zone, wall) * 60_000;
+  utc = wall - getTimeZoneOffset(zone, utc) * 60_000;
+  return utc;
+};
+
+/** Wall-clock time of an instant in a zone, e.g. "2025-03-14T10:25"; the browser's zone when none. */
+export const utcToZonedTime = (utcMillis: number, zone?: string): string => {
+  const offset = isValidTimeZone(zone) ? getTimeZoneOffset(zone, utcMillis) : -new Date(utcMillis).getTimezoneOffset();
+  return formatWall(utcMillis + offset * 60_000, true);
+};
+
+const CLOCK_TIME_PATTERN = /^(\d{1,2})(?:\s*[:.h]\s*(\d{2}))?\s*h?\s*(?:([ap])\.?\s*m\.?)?$/;
+
+/**
+ * A time of day as bookings write it ("11:00", "11 AM", "2.30 pm", "14h30",
+ * "noon") as HH:MM; null when it isn't one.
+ */
+export const parseClockTime = (value: string | undefined): string | null => {
+  const text = value?.trim().toLowerCase();
+  if (!text) return null;
+  if (text === 'noon' || text === 'midday') return '12:00';
+  if (text === 'midnight') return '00:00';
+
+  const match = text.match(CLOCK_TIME_PATTERN);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (match[3] === 'p' ? 12 : 0);
+  }
+  return hours < 24 && minutes < 60 ? `${pad(hours)}:${pad(minutes)}` : null;
+};
+
+const toLocalDateTime = (value: string | undefined): string | null => {
+  const match = value?.trim().match(DATE_TIME_PATTERN);
+  return match ? `${match[1]}T${match[2]}` : null;
+};
+
+const toLocalDate = (value: string | undefined): string | null => {
+  const date = value?.trim().slice(0, 10);
+  return date && DATE_PATTERN.test(date) ? date : null;
+};
+
+/**
+ * Start, end and zones of an event, filling in what older or partial events
+ * lack: hotels without an end span one night, other events last an hour.
+ */
+export const resolveEventTimes = (event: TripEvent): ResolvedEventTimes => {
+  const timeZone = isValidTimeZone(event.timeZone) ? event.timeZone : undefined;
+  const endTimeZone = isValidTimeZone(event.endTimeZone) ? event.endTimeZone : timeZone;
+  const startDate = toLocalDate(event.start) ?? toLocalDate(event.date) ?? formatWall(Date.now(), false);
+  const allDay = event.allDay ?? (event.type === 'hotel' && !!event.end && DATE_PATTERN.test(event.end.trim()));
+
+  if (allDay) {
+    const endDate = toLocalDate(event.end);
+    return {
+      start: startDate,
+      end: endDate && endDate > startDate ? endDate : addDays(startDate, 1),
+      timeZone,
+      endTimeZone,
+      allDay: true,
+    };
+  }
+
+  const start = toLocalDateTime(event.start) ?? `${startDate}T${/^\d{2}:\d{2}$/.test(event.time) ? event.time : '09:00'}`;
+  const end = toLocalDateTime(event.end);
+  const endsAfterStart = end !== null && zonedTimeToUtc(end, endTimeZone) > zonedTimeToUtc(start, timeZone);
+
+  return {
+    start,
+    end: endsAfterStart ? end : addMinutes(start, DEFAULT_DURATION_MINUTES),
+    timeZone,
+    // A made-up end stays in the start's zone
+    endTimeZone: endsAfterStart ? endTimeZone : timeZone,
+    allDay: false,
+  };
+};
+
+/**
+ * Cleans the time fields of an event coming from the model or a calendar:
+ * fills start from date/time, drops invalid zones and malformed ends.
+ */
+export const normalizeEventTimes = (event: TripEvent): TripEvent => {
+  const resolved = resolveEventTimes(event);
+  // Ends are stored as given, even impossible ones, so the itinerary checks
+  // can flag them; resolveEventTimes falls back for display and export
+  const givenEnd = resolved.allDay ? toLocalDate(event.end) : toLocalDateTime(event.end);
+  const normalized: TripEvent = {
+    ...event,
+    date: resolved.start.slice(0, 10),
+    time: resolved.allDay ? event.time : resolved.start.slice(11),
+    start: resolved.start,
+    end: givenEnd ?? (resolved.allDay ? resolved.end : undefined),
+    timeZone: resolved.timeZone,
+    endTimeZone: resolved.endTimeZone !== resolved.timeZone ? resolved.endTimeZone : undefined,
+    allDay: resolved.allDay || undefined,
+  };
+  // Keep the JSON export tidy: no keys for unknown values
+  (Object.keys(normalized) as (keyof TripEvent)[]).forEach(key => {
+    if (normalized[key] === undefined) delete normalized[key];
+  });
+  return normalized;
+};
+
+/** Number of nights of an all-day span, e.g. a hotel stay. */
+export const countNights = (times: ResolvedEventTimes): number =>
+  Math.round((wallMillis(times.end) - wallMillis(times.start)) / 86_400_000);
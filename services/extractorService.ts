@@ -0,0 +1,57 @@
+import { UploadedFile } from '../types';
+import { extractTextFromPdf } from './pdfService';
+import { DocumentExtractor, ProgressHandler } from './extractors/common';
+import { icsExtractor } from './extractors/icsExtractor';
+import { docxExtractor } from './extractors/docxExtractor';
+import { htmlExtractor } from './extractors/htmlExtractor';
+import { imageExtractor } from './extractors/imageExtractor';
+import { createEmlExtractor } from './extractors/emlExtractor';
+
+export type { DocumentExtractor } from './extractors/common';
+
+const extractors: DocumentExtractor[] = [];
+
+/**
+ * Adds an extractor. Later registrations win, so a format can be overridden.
+ */
+export const registerExtractor = (extractor: DocumentExtractor) => {
+  extractors.unshift(extractor);
+};
+
+const extensionOf = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+// Browsers often report an empty or generic MIME type, so fall back to the extension
+export const findExtractor = (file: { name: string; type: string }): DocumentExtractor | undefined =>
+  extractors.find(e => e.mimeTypes.includes(file.type)) ||
+  extractors.find(e => e.extensions.includes(extensionOf(file.name)));
+
+/** Value for an <input type="file" accept="..."> covering every registered format. */
+export const getAcceptedFileTypes = (): string =>
+  [...new Set(extractors.flatMap(e => [...e.extensions, ...e.mimeTypes]))].join(',');
+
+/** Human-readable list of supported formats, in registration order. */
+export const getSupportedFormatLabels = (): string[] => [...extractors].reverse().map(e => e.label);
+
+export const extractDocument = async (file: File, onProgress?: ProgressHandler): Promise<UploadedFile> => {
+  const extractor = findExtractor(file);
+  if (!extractor) {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+  return extractor.extract(file, onProgress);
+};
+
+registerExtractor({
+  id: 'pdf',
+  label: 'PDFs',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  extract: extractTextFromPdf,
+});
+registerExtractor(createEmlExtractor(extractDocument));
+registerExtractor(icsExtractor);
+registerExtractor(docxExtractor);
+registerExtractor(htmlExtractor);
+registerExtractor(imageExtractor);
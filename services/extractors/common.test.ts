@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { buildUploadedFile, htmlToText, splitIntoSections } from './common';
+
+describe('splitIntoSections', () => {
+  it('cuts at paragraphs, never inside one', () => {
+    const paragraphs = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+    expect(splitIntoSections(paragraphs.join('\n\n\n'), 90)).toEqual([
+      `${paragraphs[0]}\n\n${paragraphs[1]}`,
+      paragraphs[2],
+    ]);
+  });
+
+  it('keeps a paragraph longer than a section whole', () => {
+    expect(splitIntoSections(`short\n\n${'x'.repeat(200)}`, 100)).toEqual(['short', 'x'.repeat(200)]);
+  });
+
+  it('gives one empty section for empty text', () => {
+    expect(splitIntoSections('  \n\n ')).toEqual(['']);
+  });
+});
+
+describe('buildUploadedFile', () => {
+  it('numbers the sections as pages', () => {
+    const file = buildUploadedFile({ name: 'note.txt', size: 10 }, ['First', { text: 'Scanned', isOcr: true }]);
+    expect(file.content).toBe('--- Page 1 ---\nFirst\n\n--- Page 2 ---\nScanned\n\n');
+    expect(file.pages).toEqual([{ pageNumber: 1, text: 'First' }, { pageNumber: 2, text: 'Scanned', isOcr: true }]);
+    expect(file).not.toHaveProperty('events');
+  });
+});
+
+describe('htmlToText', () => {
+  it('keeps table cells of a row on one line, and paragraphs apart', () => {
+    const { title, text } = htmlToText(`
+      <html>
+        <head><title> Booking AR-2291 </title><style>p { color: red }</style></head>
+        <body>
+          <h1>Your stay</h1>
+          <p>Thank you for booking with <b>Hotel Artemide</b>.<br>See you soon!</p>
+          <table>
+            <tr><td>Check-in</td><td>20 March 2025</td></tr>
+            <tr><td>Check-out</td><td> </td><td>23 March 2025</td></tr>
+          </table>
+          <ul><li>Breakfast included</li><li>Free Wi-Fi</li></ul>
+          <img src="logo.png" alt="Artemide"><script>track()</script>
+        </body>
+      </html>`);
+
+    expect(title).toBe('Booking AR-2291');
+    expect(text).toBe([
+      'Your stay',
+      '',
+      'Thank you for booking with Hotel Artemide.',
+      'See you soon!',
+      '',
+      'Check-in | 20 March 2025',
+      'Check-out | 23 March 2025',
+      '',
+      '- Breakfast included',
+      '- Free Wi-Fi',
+      '',
+      'Artemide',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,119 @@
+import { ExtractionProgress, PageText, TripEvent, UploadedFile } from '../../types';
+
+export type ProgressHandler = (progress: ExtractionProgress) => void;
+
+/**
+ * Turns one kind of input file into the common UploadedFile shape, with
+ * page-like sections so retrieval and citations work the same for every format.
+ */
+export interface DocumentExtractor {
+  id: string;
+  label: string; // Shown to the user, e.g. "calendar invites (.ics)"
+  extensions: string[]; // Lower-case, with the dot
+  mimeTypes: string[];
+  extract: (file: File, onProgress?: ProgressHandler) => Promise<UploadedFile>;
+}
+
+/**
+ * Builds an UploadedFile from already-split sections, using the same
+ * "--- Page N ---" layout as the PDF extractor.
+ */
+export const buildUploadedFile = (
+  file: { name: string; size: number },
+  sections: (string | Omit<PageText, 'pageNumber'>)[],
+  events?: TripEvent[]
+): UploadedFile => {
+  const pages: PageText[] = sections.map((section, idx) =>
+    typeof section === 'string'
+      ? { pageNumber: idx + 1, text: section }
+      : { ...section, pageNumber: idx + 1 }
+  );
+
+  return {
+    name: file.name,
+    content: pages.map(p => `--- Page ${p.pageNumber} ---\n${p.text}\n\n`).join(''),
+    pages,
+    size: file.size,
+    pageCount: pages.length,
+    ...(events && events.length > 0 ? { events } : {}),
+  };
+};
+
+/**
+ * Cuts long flowing text (emails, web pages, Word files) into page-sized
+ * sections at paragraph boundaries, so citations point somewhere specific.
+ */
+export const splitIntoSections = (text: string, maxChars = 3000): string[] => {
+  const paragraphs = text.split(/\n{2,}/).map(p => p.trim()).filter(Boolean);
+  const sections: string[] = [];
+  let current = '';
+
+  paragraphs.forEach(paragraph => {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      sections.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current) sections.push(current);
+
+  return sections.length > 0 ? sections : [''];
+};
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'MAIN', 'ASIDE', 'NAV', 'UL', 'OL', 'LI',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'TABLE', 'TBODY', 'THEAD', 'BLOCKQUOTE', 'PRE', 'HR', 'DL', 'DT', 'DD',
+]);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'SVG', 'TEMPLATE', 'HEAD', 'IFRAME']);
+
+/**
+ * Readable text from an HTML document: paragraphs become blank-line separated
+ * blocks and table rows become "a | b | c" lines. Booking emails are mostly
+ * layout tables, so keeping cells on one row keeps labels next to values.
+ */
+export const htmlToText = (html: string): { title: string; text: string } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const walk = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tag)) return '';
+    if (tag === 'BR') return '\n';
+    if (tag === 'IMG') return element.getAttribute('alt') ? ` ${element.getAttribute('alt')} ` : '';
+
+    if (tag === 'TR') {
+      const cells = Array.from(element.children)
+        .filter(child => child.tagName === 'TD' || child.tagName === 'TH')
+        .map(cell => walk(cell).replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+      // Only a leading break: the table or list around it ends the last line
+      return cells.length > 0 ? `\n${cells.join(' | ')}` : '';
+    }
+
+    const inner = Array.from(element.childNodes).map(walk).join('');
+    if (tag === 'LI') return `\n- ${inner.trim()}`;
+    return BLOCK_TAGS.has(tag) ? `\n\n${inner}\n\n` : inner;
+  };
+
+  const text = walk(doc.body ?? doc.documentElement)
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title: doc.title.trim(), text };
+};
+
+/**
+ * Best-effort event category from free text, for sources that carry no type.
+ */
+export const inferEventType = (text: string): TripEvent['type'] => {
+  const lower = text.toLowerCase();
+  if (/\b(flight|airlines?|boarding|departs?|terminal|gate)\b/.test(lower)) return 'flight';
+  if (/\b(hotel|check-?in|check-?out|accommodation|airbnb|hostel|resort|stay)\b/.test(lower)) return 'hotel';
+  if (/\b(restaurant|dinner|lunch|breakfast|brunch|caf[eé]|table for)\b/.test(lower)) return 'food';
+  return 'activity';
+};
@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { docxExtractor, docxXmlToText } from './docxExtractor';
+
+const documentXml = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+  <w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+
+const paragraph = (...runs: string[]) => `<w:p>${runs.map(run => `<w:r>${run}</w:r>`).join('')}</w:p>`;
+const cell = (text: string) => `<w:tc>${paragraph(`<w:t>${text}</w:t>`)}</w:tc>`;
+
+const ITINERARY = documentXml([
+  paragraph('<w:t>Rome, </w:t>', '<w:t>20-23 March</w:t>'),
+  paragraph('<w:t>Guide:</w:t><w:tab/><w:t>Marta</w:t>', '<w:br/><w:t>+39 06 555 0100</w:t>'),
+  '<w:tbl>',
+  `<w:tr>${cell('Day')}${cell('Visit')}</w:tr>`,
+  `<w:tr>${cell('21 March')}${cell('Colosseum | Forum')}</w:tr>`,
+  `<w:tr>${cell('22 March')}</w:tr>`,
+  '</w:tbl>',
+  paragraph('<w:br w:type="page"/>', '<w:t>Emergency numbers</w:t>'),
+].join(''));
+
+// A ZIP archive with its entries stored uncompressed
+const storedZip = (entries: Record<string, string>): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(entries).forEach(([name, text]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(text);
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  [...locals, ...centrals, end].forEach(part => {
+    archive.set(part, position);
+    position += part.length;
+  });
+  return archive.buffer;
+};
+
+// jsdom's File has no arrayBuffer(); this is all the extractor reads
+const docxFile = (name: string, buffer: ArrayBuffer) =>
+  ({ name, size: buffer.byteLength, arrayBuffer: async () => buffer }) as unknown as File;
+
+describe('docxXmlToText', () => {
+  it('keeps runs, tabs and breaks, and renders tables as markdown', () => {
+    expect(docxXmlToText(ITINERARY)).toBe([
+      'Rome, 20-23 March',
+      '',
+      'Guide:\tMarta\n+39 06 555 0100',
+      '',
+      '| Day | Visit |',
+      '| --- | --- |',
+      '| 21 March | Colosseum / Forum |',
+      '| 22 March |  |',
+      '',
+      '\fEmergency numbers',
+    ].join('\n'));
+  });
+
+  it('refuses XML without a document body', () => {
+    expect(() => docxXmlToText('<w:document xmlns:w="urn:w"/>')).toThrow('Word document has no body');
+  });
+});
+
+describe('docxExtractor', () => {
+  it('starts a new page at each page break', async () => {
+    const file = await docxExtractor.extract(docxFile('rome.docx', storedZip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml': ITINERARY,
+    })));
+
+    expect(file.pageCount).toBe(2);
+    expect(file.pages[0].text).toContain('| 21 March | Colosseum / Forum |');
+    expect(file.pages[1].text).toBe('Emergency numbers');
+  });
+
+  it('rejects a ZIP archive that is not a Word document', async () => {
+    await expect(docxExtractor.extract(docxFile('photos.docx', storedZip({ 'photo.jpg': '' }))))
+      .rejects.toThrow('photos.docx is not a Word document');
+  });
+});
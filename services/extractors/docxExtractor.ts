@@ -0,0 +1,85 @@
+import { DocumentExtractor, buildUploadedFile, splitIntoSections } from './common';
+import { readZipEntry } from './zipReader';
+
+const PAGE_BREAK = '\f';
+
+const elementChildren = (element: Element, name: string): Element[] =>
+  Array.from(element.children).filter(child => child.nodeName === name);
+
+// Text of a paragraph, keeping tabs and line/page breaks
+const paragraphText = (paragraph: Element): string => {
+  let text = '';
+  const walk = (node: Element) => {
+    Array.from(node.children).forEach(child => {
+      switch (child.nodeName) {
+        case 'w:t':
+          text += child.textContent ?? '';
+          break;
+        case 'w:tab':
+          text += '\t';
+          break;
+        case 'w:br':
+        case 'w:cr':
+          text += child.getAttribute('w:type') === 'page' ? PAGE_BREAK : '\n';
+          break;
+        default:
+          walk(child);
+      }
+    });
+  };
+  walk(paragraph);
+  return text;
+};
+
+// Word tables become markdown tables so rows stay readable to the model
+const tableText = (table: Element): string => {
+  const rows = elementChildren(table, 'w:tr').map(row =>
+    elementChildren(row, 'w:tc').map(cell =>
+      elementChildren(cell, 'w:p').map(paragraphText).join(' ').replace(/\s+/g, ' ').replace(/\|/g, '/').trim()
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+};
+
+/**
+ * Plain text of word/document.xml, with form feeds where the author put
+ * explicit page breaks.
+ */
+export const docxXmlToText = (xml: string): string => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const body = doc.getElementsByTagName('w:body')[0];
+  if (!body) throw new Error("Word document has no body");
+
+  return Array.from(body.children)
+    .map(child => {
+      if (child.nodeName === 'w:p') return paragraphText(child);
+      if (child.nodeName === 'w:tbl') return tableText(child);
+      return '';
+    })
+    .join('\n\n');
+};
+
+export const docxExtractor: DocumentExtractor = {
+  id: 'docx',
+  label: 'Word documents (.docx)',
+  extensions: ['.docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extract: async (file, onProgress) => {
+    onProgress?.({ fileName: file.name, page: 1, totalPages: 1, stage: 'text' });
+
+    const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+    if (!xml) throw new Error(`${file.name} is not a Word document`);
+
+    // Real page breaks first, then long pages are cut further
+    const sections = docxXmlToText(new TextDecoder().decode(xml))
+      .split(PAGE_BREAK)
+      .flatMap(page => splitIntoSections(page))
+      .filter(section => section.trim());
+
+    return buildUploadedFile(file, sections.length > 0 ? sections : ['']);
+  },
+};
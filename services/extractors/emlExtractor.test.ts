@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { buildUploadedFile } from './common';
+import { createEmlExtractor, parseEmail } from './emlExtractor';
+
+const PDF = '%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n';
+
+const EMAIL = [
+  'From: =?UTF-8?Q?H=C3=B4tel_Artemide?= <booking@artemide.it>',
+  'To: priya@example.com',
+  'Subject: =?UTF-8?B?UsOpc2VydmF0aW9uIGNvbmZpcm3DqWU=?=',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'This is a multi-part message in MIME format.',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary="alt"',
+  '',
+  '--alt',
+  'Content-Type: text/plain; charset=UTF-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Votre s=C3=A9jour du 20 au 23 mars est confirm=C3=A9. Le petit-d=C3=A9jeuner est =',
+  'inclus.',
+  '--alt',
+  'Content-Type: text/html; charset=UTF-8',
+  '',
+  '<p>Votre s&eacute;jour est confirm&eacute;.</p>',
+  '--alt--',
+  '--outer',
+  'Content-Type: application/pdf; name="voucher.pdf"',
+  'Content-Disposition: attachment;',
+  " filename*=UTF-8''H%C3%B4tel%20voucher.pdf",
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0xLjQKMSAwIG9iaiA8PCAvVHlwZSAv',
+  'Q2F0YWxvZyA+PiBlbmRvYmoKJSVFT0YK',
+  '--outer--',
+  '',
+].join('\r\n');
+
+const FORWARDED = [
+  'From: priya@example.com',
+  'Subject: Fwd: Your table',
+  'Content-Type: multipart/mixed; boundary="fwd"',
+  '',
+  '--fwd',
+  'Content-Type: text/plain',
+  '',
+  'See below.',
+  '--fwd',
+  'Content-Type: message/rfc822',
+  '',
+  'From: Da Enzo <tavolo@daenzo.it>',
+  'Subject: Prenotazione 21/03 ore 20:00',
+  'Content-Type: text/plain; charset=ISO-8859-1',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Tavolo per 2 alle 20:00, Via dei Vascellari 29. Grazie e a presto =E0 tutti!',
+  '--fwd--',
+].join('\n');
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('parseEmail', () => {
+  it('decodes encoded-word headers and quoted-printable text', () => {
+    const email = parseEmail(EMAIL);
+
+    expect(email.headerBlocks).toEqual([[
+      'From: Hôtel Artemide <booking@artemide.it>',
+      'To: priya@example.com',
+      'Subject: Réservation confirmée',
+    ].join('\n')]);
+    // Parts keep the line break before the next boundary
+    expect(email.plain.map(text => text.trim())).toEqual(['Votre séjour du 20 au 23 mars est confirmé. Le petit-déjeuner est inclus.']);
+    expect(email.html.map(html => html.trim())).toEqual(['<p>Votre s&eacute;jour est confirm&eacute;.</p>']);
+  });
+
+  it('decodes a base64 PDF attachment and its RFC 2231 file name', () => {
+    const [attachment] = parseEmail(EMAIL).attachments;
+
+    expect(attachment).toMatchObject({ fileName: 'Hôtel voucher.pdf', mimeType: 'application/pdf' });
+    expect(decode(attachment.bytes)).toBe(PDF);
+  });
+
+  it('reads a forwarded message with its own headers and charset', () => {
+    const email = parseEmail(FORWARDED);
+
+    expect(email.headerBlocks[1]).toBe('From: Da Enzo <tavolo@daenzo.it>\nSubject: Prenotazione 21/03 ore 20:00');
+    expect(email.plain.map(text => text.trim())).toEqual(['See below.', 'Tavolo per 2 alle 20:00, Via dei Vascellari 29. Grazie e a presto à tutti!']);
+  });
+});
+
+describe('createEmlExtractor', () => {
+  it('gives attachments to their own extractor and adds their pages after the email', async () => {
+    const received: File[] = [];
+    const extractor = createEmlExtractor(async file => {
+      received.push(file);
+      return buildUploadedFile(file, ['Voucher AR-2291, 3 nights, breakfast included']);
+    });
+
+    const uploaded = await extractor.extract(new File([EMAIL], 'booking.eml', { type: 'message/rfc822' }));
+
+    expect(received.map(file => [file.name, file.type])).toEqual([['Hôtel voucher.pdf', 'application/pdf']]);
+    expect(decode(new Uint8Array(await received[0].arrayBuffer()))).toBe(PDF);
+    expect(uploaded.pages.map(page => page.text)).toEqual([
+      'From: Hôtel Artemide <booking@artemide.it>\nTo: priya@example.com\nSubject: Réservation confirmée\n\n'
+        + 'Votre séjour du 20 au 23 mars est confirmé. Le petit-déjeuner est inclus.',
+      '[Attachment: Hôtel voucher.pdf, page 1]\nVoucher AR-2291, 3 nights, breakfast included',
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { PageText, TripEvent, UploadedFile } from '../../types';
+import { DocumentExtractor, ProgressHandler, buildUploadedFile, htmlToText, splitIntoSections } from './common';
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string; // Binary string: one char per byte, decoded later with the part's charset
+}
+
+interface Attachment {
+  fileName: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+interface ParsedEmail {
+  headerBlocks: string[]; // The message's own headers, then those of forwarded messages
+  plain: string[];
+  html: string[];
+  attachments: Attachment[];
+}
+
+const toBinaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  const chunk = 0x8000; // Avoid call stack limits on big attachments
+  for (let i = 0; i < bytes.length; i += chunk) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return result;
+};
+
+const fromBinaryString = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+const decodeCharset = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes); // Unknown charset label
+  }
+};
+
+const decodeQuotedPrintable = (text: string): Uint8Array =>
+  fromBinaryString(
+    text
+      .replace(/=\r?\n/g, '') // Soft line breaks
+      .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+  );
+
+const decodeBase64 = (text: string): Uint8Array => {
+  try {
+    return fromBinaryString(atob(text.replace(/[^A-Za-z0-9+/=]/g, '')));
+  } catch {
+    return new Uint8Array();
+  }
+};
+
+// RFC 2047 encoded words, e.g. "=?UTF-8?B?SG90ZWw=?="
+const decodeHeaderValue = (value: string): string =>
+  value
+    .replace(/(=\?[^?]+\?[BQ]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset);
+    });
+
+const getParam = (headerValue: string | undefined, name: string): string | undefined => {
+  if (!headerValue) return undefined;
+  // RFC 2231 form first: filename*=UTF-8''Hotel%20Voucher.pdf
+  const extended = headerValue.match(new RegExp(`${name}\\*=([^']*)'[^']*'([^;]+)`, 'i'));
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim());
+    } catch {
+      return extended[2].trim();
+    }
+  }
+  const match = headerValue.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? decodeHeaderValue(match[1] ?? match[2]) : undefined;
+};
+
+const parsePart = (raw: string): MimePart => {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const split = normalized.search(/\n\n/);
+  const headerText = split === -1 ? normalized : normalized.slice(0, split);
+  const body = split === -1 ? '' : normalized.slice(split + 2);
+
+  const headers: Record<string, string> = {};
+  headerText.replace(/\n[ \t]+/g, ' ').split('\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  });
+
+  return { headers, body };
+};
+
+const decodeBody = (part: MimePart): Uint8Array => {
+  const encoding = (part.headers['content-transfer-encoding'] ?? '').toLowerCase();
+  if (encoding === 'base64') return decodeBase64(part.body);
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body);
+  return fromBinaryString(part.body);
+};
+
+const walkPart = (part: MimePart, email: ParsedEmail) => {
+  const contentType = part.headers['content-type'] ?? 'text/plain';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  const disposition = part.headers['content-disposition'] ?? '';
+  const fileName = getParam(disposition, 'filename') ?? getParam(contentType, 'name');
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = getParam(contentType, 'boundary');
+    if (!boundary) return;
+    const delimiter = `--${boundary}`;
+    part.body
+      .split(delimiter)
+      .slice(1) // Preamble
+      .filter(chunk => !chunk.startsWith('--')) // Closing delimiter
+      .forEach(chunk => walkPart(parsePart(chunk.replace(/^\n/, '')), email));
+    return;
+  }
+
+  if (mimeType === 'message/rfc822') {
+    // Forwarded booking confirmations are often attached as whole emails
+    const inner = parsePart(toBinaryString(decodeBody(part)));
+    email.headerBlocks.push(formatHeaders(inner.headers));
+    walkPart(inner, email);
+    return;
+  }
+
+  const isAttachment = /^attachment/i.test(disposition) || (!!fileName && !mimeType.startsWith('text/'));
+  if (isAttachment || (fileName && mimeType === 'text/calendar')) {
+    email.attachments.push({ fileName: fileName ?? 'attachment', mimeType, bytes: decodeBody(part) });
+    return;
+  }
+
+  const text = decodeCharset(decodeBody(part), getParam(contentType, 'charset'));
+  if (mimeType === 'text/html') email.html.push(text);
+  else if (mimeType.startsWith('text/')) email.plain.push(text);
+};
+
+const formatHeaders = (headers: Record<string, string>): string =>
+  ['from', 'to', 'date', 'subject']
+    .filter(name => headers[name])
+    .map(name => `${name[0].toUpperCase()}${name.slice(1)}: ${decodeHeaderValue(headers[name])}`)
+    .join('\n');
+
+/**
+ * Splits an RFC 822 message into its readable text and its attachments.
+ */
+export const parseEmail = (raw: string): ParsedEmail => {
+  const root = parsePart(raw);
+  const email: ParsedEmail = { headerBlocks: [formatHeaders(root.headers)], plain: [], html: [], attachments: [] };
+  walkPart(root, email);
+  return email;
+};
+
+/**
+ * Attachments are read by whichever extractor handles their type, so the
+ * email extractor is built around the registry's own extract function.
+ */
+export const createEmlExtractor = (
+  extractAttachment: (file: File, onProgress?: ProgressHandler) => Promise<UploadedFile>
+): DocumentExtractor => ({
+  id: 'eml',
+  label: 'emails (.eml) with their attachments',
+  extensions: ['.eml'],
+  mimeTypes: ['message/rfc822'],
+  extract: async (file, onProgress) => {
+    onProgress?.({ fileName: file.name, page: 1, totalPages: 1, stage: 'text' });
+
+    const email = parseEmail(toBinaryString(new Uint8Array(await file.arrayBuffer())));
+    // Prefer the plain-text alternative; booking emails often have both
+    const bodyText = email.plain.some(p => p.trim())
+      ? email.plain.join('\n\n')
+      : email.html.map(html => htmlToText(html).text).join('\n\n');
+
+    const sections: (string | Omit<PageText, 'pageNumber'>)[] =
+      splitIntoSections([...email.headerBlocks, bodyText].join('\n\n'));
+    const events: TripEvent[] = [];
+
+    for (const attachment of email.attachments) {
+      const attachmentFile = new File([attachment.bytes], attachment.fileName, { type: attachment.mimeType });
+      try {
+        const extracted = await extractAttachment(attachmentFile, onProgress);
+        extracted.pages.forEach(page => sections.push({
+          text: `[Attachment: ${attachment.fileName}, page ${page.pageNumber}]\n${page.text}`,
+          isOcr: page.isOcr,
+        }));
+        events.push(...(extracted.events ?? []));
+      } catch (error) {
+        // Unsupported or unreadable attachments are skipped, the email itself is still useful
+        console.warn(`Skipping attachment ${attachment.fileName}`, error);
+      }
+    }
+
+    return buildUploadedFile(file, sections, events);
+  },
+});
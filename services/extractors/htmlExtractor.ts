@@ -0,0 +1,15 @@
+import { DocumentExtractor, buildUploadedFile, htmlToText, splitIntoSections } from './common';
+
+export const htmlExtractor: DocumentExtractor = {
+  id: 'html',
+  label: 'saved web pages (.html)',
+  extensions: ['.html', '.htm'],
+  mimeTypes: ['text/html'],
+  extract: async (file, onProgress) => {
+    onProgress?.({ fileName: file.name, page: 1, totalPages: 1, stage: 'text' });
+
+    const { title, text } = htmlToText(await file.text());
+    const sections = splitIntoSections(title ? `${title}\n\n${text}` : text);
+    return buildUploadedFile(file, sections);
+  },
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseIcs } from './icsExtractor';
+
+const INVITE = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Air France//Booking//EN',
+  'BEGIN:VEVENT',
+  'UID:af1234-20250320@airfrance.fr',
+  'DTSTART;TZID=Europe/Paris:20250320T100000',
+  'DTEND;TZID="Europe/Rome":20250320T120500',
+  // Folded at 75 octets: the continuation starts with one space
+  'SUMMARY:Flight AF1234 Paris CD',
+  ' G → Rome FCO',
+  'LOCATION:Terminal 2F\\, Paris Charles de Gaulle',
+  'DESCRIPTION:Seat 14C\\nBaggage: 1 x 23kg',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT3H',
+  'DESCRIPTION:Leave for the airport',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20250321',
+  'DTEND;VALUE=DATE:20250322',
+  'SUMMARY:Colosseum and Forum',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('parseIcs', () => {
+  it('reads a folded event with TZIDs as the wall-clock time of the invite', () => {
+    const { events } = parseIcs(INVITE);
+
+    expect(events[0]).toMatchObject({
+      id: 'af1234-20250320@airfrance.fr',
+      type: 'flight',
+      date: '2025-03-20',
+      time: '10:00',
+      activity: 'Flight AF1234 Paris CDG → Rome FCO',
+      location: 'Terminal 2F, Paris Charles de Gaulle',
+      timeZone: 'Europe/Paris',
+      end: '2025-03-20T12:05',
+      endTimeZone: 'Europe/Rome',
+    });
+  });
+
+  it('reads all-day events, and leaves alarms out of the event', () => {
+    const { events, sections } = parseIcs(INVITE);
+
+    expect(events[1]).toMatchObject({ date: '2025-03-21', activity: 'Colosseum and Forum', type: 'activity', allDay: true });
+    expect(events[1].id).toBeUndefined();
+    expect(sections[0]).toBe([
+      'Event: Flight AF1234 Paris CDG → Rome FCO',
+      'Starts: 2025-03-20 10:00 (Europe/Paris)',
+      'Ends: 2025-03-20 12:05',
+      'Location: Terminal 2F, Paris Charles de Gaulle',
+      'Details: Seat 14C\nBaggage: 1 x 23kg',
+    ].join('\n'));
+  });
+
+  it('finds nothing in a calendar without events', () => {
+    expect(parseIcs('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n')).toEqual({ events: [], sections: [] });
+  });
+});
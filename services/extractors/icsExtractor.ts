@@ -0,0 +1,168 @@
+import { TripEvent } from '../../types';
+import { normalizeEventTimes } from '../eventTimeService';
+import { DocumentExtractor, buildUploadedFile, inferEventType } from './common';
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// RFC 5545 3.1: a line starting with a space or tab continues the previous one
+const unfoldLines = (text: string): string[] =>
+  text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim());
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+const parseProperty = (line: string): IcsProperty | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+interface IcsTime {
+  date: string;
+  time: string;
+  allDay: boolean;
+  timeZone?: string;
+}
+
+/**
+ * DATE or DATE-TIME value to TripEvent's wall-clock form. UTC times are
+ * moved to the browser's zone; TZID and floating times are kept as the
+ * wall-clock time written in the invite.
+ */
+const toIcsTime = (property: IcsProperty): IcsTime | null => {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, , utc] = match;
+
+  if (!hour) {
+    // All-day: same default time as the summary schema
+    return { date: `${year}-${month}-${day}`, time: '09:00', allDay: true };
+  }
+  if (utc) {
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute));
+    return {
+      date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+      time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+      allDay: false,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}`, allDay: false, timeZone: property.params.TZID };
+};
+
+const toLocalString = (when: IcsTime) => when.allDay ? when.date : `${when.date}T${when.time}`;
+
+/**
+ * Parses the VEVENTs of a calendar file into TripEvents plus a readable text
+ * block per event (used for chat retrieval and citations).
+ */
+export const parseIcs = (text: string): { events: TripEvent[]; sections: string[] } => {
+  const events: TripEvent[] = [];
+  const sections: string[] = [];
+  let current: IcsProperty[] | null = null;
+  let depth = 0; // Skip nested components such as VALARM
+
+  unfoldLines(text).forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    const component = property.value.toUpperCase();
+
+    if (property.name === 'BEGIN') {
+      if (component === 'VEVENT') {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+      return;
+    }
+    if (!current) return;
+    if (property.name === 'END' && depth > 0) {
+      depth--;
+      return;
+    }
+    if (depth > 0) return;
+
+    if (property.name === 'END' && component === 'VEVENT') {
+      const get = (name: string) => current?.find(p => p.name === name);
+      const start = get('DTSTART');
+      const when = start ? toIcsTime(start) : null;
+      const summary = unescapeText(get('SUMMARY')?.value ?? 'Untitled event');
+      const location = unescapeText(get('LOCATION')?.value ?? '');
+      const description = unescapeText(get('DESCRIPTION')?.value ?? '');
+      const end = get('DTEND');
+      const endWhen = end ? toIcsTime(end) : null;
+
+      if (when) {
+        // Unknown TZIDs (e.g. Windows zone names) are dropped by normalization
+        events.push(normalizeEventTimes({
+          // The calendar's own UID, so exporting the trip again keeps it
+          id: get('UID')?.value || undefined,
+          date: when.date,
+          time: when.time,
+          activity: summary,
+          location,
+          type: inferEventType(`${summary} ${get('CATEGORIES')?.value ?? ''} ${description}`),
+          start: toLocalString(when),
+          end: endWhen ? toLocalString(endWhen) : undefined,
+          timeZone: when.timeZone,
+          endTimeZone: endWhen?.timeZone,
+          allDay: when.allDay,
+        }));
+      }
+
+      sections.push([
+        `Event: ${summary}`,
+        when ? `Starts: ${when.date} ${when.time}${start?.params.TZID ? ` (${start.params.TZID})` : ''}` : '',
+        endWhen ? `Ends: ${endWhen.date} ${endWhen.time}` : '',
+        location ? `Location: ${location}` : '',
+        description ? `Details: ${description}` : '',
+      ].filter(Boolean).join('\n'));
+      current = null;
+      return;
+    }
+
+    current.push(property);
+  });
+
+  return { events, sections };
+};
+
+export const icsExtractor: DocumentExtractor = {
+  id: 'ics',
+  label: 'calendar invites (.ics)',
+  extensions: ['.ics'],
+  mimeTypes: ['text/calendar'],
+  extract: async (file, onProgress) => {
+    onProgress?.({ fileName: file.name, page: 1, totalPages: 1, stage: 'text' });
+    const { events, sections } = parseIcs(await file.text());
+    if (sections.length === 0) {
+      throw new Error(`No events found in ${file.name}`);
+    }
+    return buildUploadedFile(file, sections, events);
+  },
+};
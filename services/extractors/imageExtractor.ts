@@ -0,0 +1,23 @@
+import { recognizeImage } from '../ocrService';
+import { DocumentExtractor, buildUploadedFile } from './common';
+
+/**
+ * Screenshots and photos of vouchers: the whole image goes through OCR and
+ * becomes a single page.
+ */
+export const imageExtractor: DocumentExtractor = {
+  id: 'image',
+  label: 'screenshots and photos (.png, .jpg)',
+  extensions: ['.png', '.jpg', '.jpeg'],
+  mimeTypes: ['image/png', 'image/jpeg'],
+  extract: async (file, onProgress) => {
+    onProgress?.({ fileName: file.name, page: 1, totalPages: 1, stage: 'ocr', ocrProgress: 0 });
+
+    const text = await recognizeImage(file, (ocrProgress) =>
+      onProgress?.({ fileName: file.name, page: 1, totalPages: 1, stage: 'ocr', ocrProgress })
+    );
+    if (!text) throw new Error(`No text could be read from ${file.name}`);
+
+    return buildUploadedFile(file, [{ text, isOcr: true }]);
+  },
+};
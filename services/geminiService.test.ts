@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Message, UploadedFile } from '../types';
+import { ChatTurn, setProvider } from './llmProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createHashEmbedder, createRetriever } from './retrievalService';
+import { createItineraryChat, generateChecklist, sendChatMessage, streamChatMessage, toChatHistory } from './geminiService';
+
+const FILE: UploadedFile = {
+  name: 'booking.pdf',
+  content: '--- Page 1 ---\nFlight AF1234 Paris CDG → Rome FCO, seat 14C.',
+  pages: [{ pageNumber: 1, text: 'Flight AF1234 Paris CDG → Rome FCO, seat 14C.' }],
+  size: 48,
+  pageCount: 1,
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('chat history', () => {
+  // Records what the model is shown as history on each turn
+  const recordHistories = () => {
+    const histories: ChatTurn[][] = [];
+    setProvider(createMockProvider({
+      reply: (message, history) => {
+        histories.push([...history]);
+        return `Answer ${histories.length}`;
+      },
+    }));
+    return histories;
+  };
+
+  it('sends the passages with their own turn only, and keeps the question', async () => {
+    const histories = recordHistories();
+    const retriever = createRetriever(createHashEmbedder());
+    await retriever.addDocument(FILE);
+    const chat = createItineraryChat();
+
+    await sendChatMessage(chat, 'Which seat do I have?', { retriever });
+    for await (const _ of streamChatMessage(chat, 'And my flight number?', { retriever, traveler: { name: 'Priya Sharma', events: [] } })) {
+      // Drain the stream
+    }
+    await sendChatMessage(chat, 'Thanks!', { retriever });
+
+    expect(histories[2]).toEqual([
+      { role: 'user', text: 'Which seat do I have?' },
+      { role: 'model', text: 'Answer 1' },
+      { role: 'user', text: '(Asked for Priya Sharma) And my flight number?' },
+      { role: 'model', text: 'Answer 2' },
+    ]);
+  });
+
+  it('gives a reopened conversation the history it had live', async () => {
+    const histories = recordHistories();
+    const messages: Message[] = [
+      { id: '1', role: 'user', content: 'Which seat do I have?', timestamp: 1 },
+      { id: '2', role: 'model', content: 'Answer 1', timestamp: 2 },
+      { id: '3', role: 'user', content: 'And my flight number?', timestamp: 3, traveler: 'Priya Sharma' },
+      { id: '4', role: 'model', content: 'Answer 2', timestamp: 4 },
+    ];
+
+    await sendChatMessage(createItineraryChat(messages), 'Thanks!');
+    expect(histories[0]).toEqual(toChatHistory(messages));
+    expect(toChatHistory(messages)[2].text).toBe('(Asked for Priya Sharma) And my flight number?');
+  });
+
+  it('leaves out answers that were stopped, with or without text', () => {
+    const messages: Message[] = [
+      { id: '1', role: 'user', content: 'Which seat do I have?', timestamp: 1 },
+      { id: '2', role: 'model', content: '', isTruncated: true, timestamp: 2 },
+      { id: '3', role: 'user', content: 'Which seat do I have?', timestamp: 3 },
+      { id: '4', role: 'model', content: 'Your seat is', isTruncated: true, timestamp: 4 },
+      { id: '5', role: 'user', content: 'Which seat do I have?', timestamp: 5 },
+      { id: '6', role: 'model', content: 'Seat 14C.', timestamp: 6 },
+    ];
+    expect(toChatHistory(messages)).toEqual([
+      { role: 'user', text: 'Which seat do I have?' },
+      { role: 'model', text: 'Seat 14C.' },
+    ]);
+  });
+});
+
+describe('summary retries', () => {
+  it('asks again with the validation errors when the first answer is rejected', async () => {
+    const prompts: string[] = [];
+    setProvider(createMockProvider({
+      json: (prompt) => {
+        prompts.push(prompt);
+        return { items: [{ category: prompts.length === 1 ? 'souvenirs' : 'packing', text: 'Pack an umbrella' }] };
+      },
+    }));
+
+    const { value, errors } = await generateChecklist([], [FILE]);
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).not.toContain('YOUR PREVIOUS ANSWER WAS REJECTED');
+    expect(prompts[1]).toContain('YOUR PREVIOUS ANSWER WAS REJECTED');
+    expect(prompts[1]).toContain('- items[0].category: "souvenirs" is not one of documents, visa, check-in, payment, packing');
+    expect(errors).toEqual([]);
+    expect(value).toEqual([{ id: 'check-1', category: 'packing', text: 'Pack an umbrella' }]);
+  });
+});
@@ -1,130 +1,562 @@
-import { GoogleGenAI, Chat, Type, Schema } from "@google/genai";
-import { TripSummary } from "../types";
+import { ChecklistItem, Message, SummaryProgress, TripEvent, TripSummary, UploadedFile } from "../types";
+import { Embedder, Retriever, formatPassagesForPrompt } from "./retrievalService";
+import { ChatSession, ChatTurn, JsonSchema, getProvider } from "./llmProvider";
+import { normalizeEventTimes, resolveEventTimes, utcToZonedTime } from "./eventTimeService";
+import { buildDetailsSchema, normalizeEventDetails } from "./eventDetailsService";
+import {
+  DEFAULT_MAX_CONCURRENT_REQUESTS,
+  PageRange,
+  mapWithConcurrency,
+  mergeExtractedEvents,
+  resolveEventSources,
+  splitIntoPageRanges,
+  withEventIds,
+} from "./summaryPipelineService";
+import { TripOverview, ValidationResult, validateChecklist, validateExtractedEvents, validateOverview } from "./summaryValidationService";
+import { classifyError, createModelError, isModelError, requestWithRetry, streamWithRetry } from "./requestService";
+import { ExchangeRates, formatBudgetForPrompt } from "./budgetService";
+import { canonicalizeParticipants, formatParticipants } from "./travelerService";
+import { selectChecklistPages } from "./checklistService";
 
-let aiInstance: GoogleGenAI | null = null;
+// Model calls go through the active LLMProvider (see llmProvider.ts); this
+// module owns the prompts and schemas, whichever model ends up answering.
 
-const getAIInstance = (): GoogleGenAI => {
-  if (!aiInstance) {
-    if (!process.env.API_KEY) {
-      throw new Error("API Key is missing. Please set process.env.API_KEY.");
+/**
+ * Joins the documents of a trip into one text, each under a file header so the
+ * model knows which booking a page belongs to.
+ */
+export const combineDocuments = (files: UploadedFile[]): string =>
+  files.map(f => `=== FILE: ${f.name} ===\n${f.content}`).join('\n');
+
+const EVENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', description: "Start date of event in YYYY-MM-DD format, local to where it starts. Infer year from document or use current year." },
+    time: { type: 'string', description: "Start time of event in HH:MM (24h) local format (departure time for flights). Use '09:00' if specific time is missing." },
+    activity: { type: 'string', description: "Short description of activity" },
+    location: { type: 'string', description: "Location name if available, else empty" },
+    type: { 
+      type: 'string', 
+      enum: ['flight', 'hotel', 'activity', 'food', 'other'],
+      description: "Category of the event"
+    },
+    end: { type: 'string', description: "End as YYYY-MM-DDTHH:MM in local time where the event ends (e.g. flight arrival). For hotel stays, the check-out date as YYYY-MM-DD. Empty if unknown." },
+    timeZone: { type: 'string', description: "IANA time zone where the event starts (departure airport for flights), e.g. 'Europe/Paris'. Empty if unknown." },
+    endTimeZone: { type: 'string', description: "IANA time zone where the event ends (arrival airport for flights). Empty if the same as timeZone." },
+    allDay: { type: 'boolean', description: "True for hotel stays and other events spanning whole days or nights rather than a time slot" },
+    confirmationNumber: { type: 'string', description: "Booking reference, PNR or confirmation number, if any" },
+    details: buildDetailsSchema(),
+    costs: {
+      type: 'array',
+      description: "Every price of this booking as printed: total, deposit, balance, city tax, 'pay at property' amounts. One entry per amount; empty if no price is given.",
+      items: {
+        type: 'object',
+        properties: {
+          amount: { type: 'number', description: "The amount as a plain number, e.g. 1234.5" },
+          currency: { type: 'string', description: "ISO 4217 code, e.g. 'EUR', 'USD', 'GBP'" },
+          status: { type: 'string', enum: ['paid', 'due'], description: "'paid' if already charged or prepaid, 'due' if still to pay (balance, pay at property, pay on arrival)" },
+          dueDate: { type: 'string', description: "For amounts still due: the date by which to pay, as YYYY-MM-DD. Empty if not stated." },
+          label: { type: 'string', description: "What the amount is, e.g. 'Deposit', 'Balance', 'City tax'" }
+        },
+        required: ["amount", "currency", "status"]
+      }
+    },
+    participants: {
+      type: 'array',
+      description: "The people this booking is for, as named on it (passengers, guests, ticket holders). Empty if no names are given.",
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: "Full name as printed, e.g. 'SHARMA/PRIYA MS' or 'Priya Sharma'" },
+          detail: { type: 'string', description: "What belongs to this person alone, e.g. 'Seat 14C', 'Room 212', 'Ticket 0571234567890'. Empty if nothing." }
+        },
+        required: ["name"]
+      }
+    },
+    pages: { type: 'array', items: { type: 'integer' }, description: "Numbers of the pages (from the '--- Page N ---' headers) this event was read from" }
+  },
+  required: ["date", "time", "activity", "type", "pages"]
+};
+
+const RANGE_EVENTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    events: { type: 'array', items: EVENT_SCHEMA }
+  },
+  required: ["events"]
+};
+
+const OVERVIEW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: "A creative title for this trip (e.g., 'Weekend in Paris')" },
+    destination: { type: 'string', description: "Main city or country of the trip" },
+    dates: { type: 'string', description: "Date range of the trip (e.g., 'Oct 12 - Oct 15')" },
+    suggestedQuestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: "3 specific, interesting questions the user could ask about this specific itinerary"
+    }
+  },
+  required: ["title", "destination", "dates", "suggestedQuestions"]
+};
+
+// Enough of the documents' start for the overview to pick up names and dates
+const OVERVIEW_EXCERPT_CHARS = 6000;
+
+const CHECKLIST_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'string',
+            enum: ['documents', 'visa', 'check-in', 'payment', 'packing'],
+            description: "documents: papers and tickets to bring; visa: passport and entry rules; check-in: online check-in windows; payment: amounts still to pay; packing: things to pack"
+          },
+          text: { type: 'string', description: "What to do or bring, short and specific, e.g. 'Check in online for LH 1234'" },
+          quote: { type: 'string', description: "For visa and passport items: the document's sentence copied word for word. Empty if the documents say nothing." },
+          due: { type: 'string', description: "When it must be done by (or when a check-in window opens), as YYYY-MM-DD or YYYY-MM-DDTHH:MM local time. Empty if there is no deadline." },
+          eventNumber: { type: 'integer', description: "The #number of the timeline event this item comes from, 0 if none" },
+          fileName: { type: 'string', description: "File the item or quote was read from, if any" },
+          page: { type: 'integer', description: "Page of that file, if any" }
+        },
+        required: ["category", "text"]
+      }
     }
-    aiInstance = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  },
+  required: ["items"]
+};
+
+// Room for the pages about entry rules, check-in and what to bring
+const CHECKLIST_EXCERPT_CHARS = 10_000;
+
+/**
+ * Adds the events read straight from structured files (calendar invites) to
+ * the model's timeline. Those are exact, so they win over near-duplicates.
+ */
+export const mergeStructuredEvents = (events: TripEvent[], files: UploadedFile[]): TripEvent[] => {
+  const structured = files.flatMap(f => f.events ?? []);
+  const key = (e: TripEvent) => `${e.date}|${e.time}|${e.activity.trim().toLowerCase()}`;
+  const structuredKeys = new Set(structured.map(key));
+
+  return [...structured, ...events.filter(e => !structuredKeys.has(key(e)))]
+    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+};
+
+export interface SummaryOptions {
+  onProgress?: (progress: SummaryProgress) => void;
+  maxConcurrentRequests?: number;
+  rangeChars?: number;
+}
+
+// Placeholders for whatever the overview request couldn't provide
+const FALLBACK_OVERVIEW: TripOverview = {
+  title: "My Trip",
+  destination: "Unknown",
+  dates: "Upcoming",
+  suggestedQuestions: ["What is in this document?", "Are there any flights?", "Where am I staying?"]
+};
+
+// A first try plus one retry with the validation errors fed back
+const MAX_SUMMARY_ATTEMPTS = 2;
+// Keeps the retry prompt short when a whole answer is off
+const MAX_FEEDBACK_ERRORS = 15;
+
+/**
+ * Requests JSON and validates it, retrying with the problems spelled out for
+ * the model. Returns the best attempt even if it still has errors; throws only
+ * when no attempt produced anything parseable.
+ */
+const generateValidatedJson = async <T>(
+  prompt: string,
+  schema: JsonSchema,
+  validate: (raw: unknown) => ValidationResult<T>
+): Promise<ValidationResult<T>> => {
+  let best: ValidationResult<T> | null = null;
+  let lastError: unknown = null;
+  let feedback: string[] = [];
+
+  for (let attempt = 0; attempt < MAX_SUMMARY_ATTEMPTS; attempt++) {
+    const fullPrompt = feedback.length === 0 ? prompt : `${prompt}
+
+    YOUR PREVIOUS ANSWER WAS REJECTED. Fix these problems and return the complete corrected JSON:
+    ${feedback.slice(0, MAX_FEEDBACK_ERRORS).map(problem => `- ${problem}`).join('\n    ')}`;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await requestWithRetry(signal => getProvider().generateJson(fullPrompt, schema, signal)));
+    } catch (error) {
+      // The request itself was already retried; only a bad answer is worth another go
+      if (isModelError(error)) throw error;
+      lastError = error;
+      feedback = error instanceof SyntaxError ? [`The answer was not valid JSON (${error.message}).`] : feedback;
+      continue;
+    }
+
+    const result = validate(raw);
+    if (!best || result.validCount >= best.validCount) best = result;
+    if (result.errors.length === 0) return result;
+    feedback = result.errors;
   }
-  return aiInstance;
+
+  if (best) return best;
+  throw lastError;
+};
+
+interface RangeResult {
+  events: TripEvent[];
+  problem?: string; // For the user, when the range wasn't read completely
+  failed?: boolean;
+}
+
+const describeRange = (range: PageRange) =>
+  range.firstPage === range.lastPage
+    ? `page ${range.firstPage} of ${range.fileName}`
+    : `pages ${range.firstPage}-${range.lastPage} of ${range.fileName}`;
+
+const extractRangeEvents = async (range: PageRange, file?: UploadedFile): Promise<RangeResult> => {
+  const { value, errors } = await generateValidatedJson(
+    `Extract every itinerary event (flights, hotel stays, activities, meals, transfers...) from the following pages of "${range.fileName}". The pages are part of a longer set of travel documents for one trip.
+    Tables are given as markdown tables: each row is one record (e.g. one flight leg), so keep each row's times with its own flight number and airports.
+    For each event, list the page numbers it was read from, and every price shown for it with whether it is already paid or still due.
+    An amount payable later (at the property, on arrival, a balance before a date) is due, even when a deposit was paid.
+    List the passengers or guests named on each booking with their own seat or room. When travelers of a group are on different flights or stays, keep those as separate events.
+
+    PAGES ${range.firstPage}-${range.lastPage} OF ${range.fileName}:
+    ${range.text}`,
+    RANGE_EVENTS_SCHEMA,
+    validateExtractedEvents
+  );
+
+  const events = value.map(({ pages, ...event }) => {
+    const normalized = normalizeEventDetails(normalizeEventTimes(event as TripEvent));
+    return { ...normalized, sources: resolveEventSources(normalized, pages, range, file) };
+  });
+  if (errors.length > 0) console.warn(`Summary output for ${describeRange(range)} still invalid:`, errors);
+  return {
+    events,
+    problem: errors.length > 0 ? `Some details on ${describeRange(range)} could not be read reliably.` : undefined,
+  };
+};
+
+const generateOverview = async (files: UploadedFile[], events: TripEvent[]): Promise<ValidationResult<TripOverview>> =>
+  generateValidatedJson(
+    `Give an overview of this trip from its timeline and the start of its documents (${files.map(f => f.name).join(', ')}).
+
+    TIMELINE:
+    ${events.length > 0 ? formatTimelineForPrompt(events) : '(no events found)'}
+
+    DOCUMENT EXCERPT:
+    ${combineDocuments(files).substring(0, OVERVIEW_EXCERPT_CHARS)}`,
+    OVERVIEW_SCHEMA,
+    raw => validateOverview(raw, FALLBACK_OVERVIEW)
+  );
+
+/**
+ * Writes the pre-trip checklist from the timeline, the amounts still due and
+ * the pages that mention entry rules, check-in or luggage. Items refer to the
+ * timeline by number and are checked by validateChecklist.
+ */
+export const generateChecklist = async (events: TripEvent[], files: UploadedFile[]): Promise<ValidationResult<ChecklistItem[]>> => {
+  const payments = events.flatMap((event, idx) =>
+    (event.costs ?? [])
+      .filter(cost => cost.status === 'due')
+      .map(cost => `- #${idx + 1}: ${cost.amount.toFixed(2)} ${cost.currency}${cost.label ? ` (${cost.label})` : ''}${cost.dueDate ? ` due by ${cost.dueDate}` : ''}`)
+  );
+
+  return generateValidatedJson(
+    `Write a pre-trip checklist for this trip: documents to bring, visa and passport requirements, online check-in windows, payments still due and things to pack.
+    Only include what follows from the timeline and the pages below: a check-in item per flight or train that offers online check-in, a payment item per amount still due, entry requirements as stated in the documents (quote them word for word), and packing items that fit the activities, stays and destinations.
+    Refer to the timeline event each item comes from by its #number, and give the file and page for anything read from the pages.
+
+    TIMELINE:
+    ${events.length > 0 ? formatTimelineForPrompt(events, true) : '(no events found)'}
+
+    PAYMENTS STILL DUE:
+    ${payments.join('\n    ') || '(none found)'}
+
+    PAGES ABOUT ENTRY RULES, CHECK-IN AND LUGGAGE:
+    ${selectChecklistPages(files, CHECKLIST_EXCERPT_CHARS) || '(none)'}`,
+    CHECKLIST_SCHEMA,
+    raw => validateChecklist(raw, events, files)
+  );
 };
 
 /**
- * Generates a structured summary of the itinerary using Gemini's JSON mode.
+ * Generates a structured summary of the itinerary using the model's JSON mode.
  * This allows us to build a nice UI timeline and suggest questions.
+ *
+ * Long documents don't fit one request, so events are extracted per page
+ * range (a few requests at a time), merged into one timeline, and two last
+ * requests write the title and questions, then the pre-trip checklist, from
+ * that timeline. Whatever could not be read is listed in the summary's
+ * `analysis` rather than hidden.
  */
-export const generateTripSummary = async (contextText: string): Promise<TripSummary> => {
-  const ai = getAIInstance();
-  
-  const schema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      title: { type: Type.STRING, description: "A creative title for this trip (e.g., 'Weekend in Paris')" },
-      destination: { type: Type.STRING, description: "Main city or country of the trip" },
-      dates: { type: Type.STRING, description: "Date range of the trip (e.g., 'Oct 12 - Oct 15')" },
-      suggestedQuestions: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "3 specific, interesting questions the user could ask about this specific itinerary"
-      },
-      events: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            date: { type: Type.STRING, description: "Date of event in YYYY-MM-DD format. Infer year from document or use current year." },
-            time: { type: Type.STRING, description: "Time of event in HH:MM (24h) format. Use '09:00' if specific time is missing." },
-            activity: { type: Type.STRING, description: "Short description of activity" },
-            location: { type: Type.STRING, description: "Location name if available, else empty" },
-            type: { 
-              type: Type.STRING, 
-              enum: ['flight', 'hotel', 'activity', 'food', 'other'],
-              description: "Category of the event"
-            }
-          },
-          required: ["date", "time", "activity", "type"]
-        }
-      }
-    },
-    required: ["title", "destination", "dates", "events", "suggestedQuestions"]
-  };
+export const generateTripSummary = async (files: UploadedFile[], options: SummaryOptions = {}): Promise<TripSummary> => {
+  const ranges = splitIntoPageRanges(files, options.rangeChars);
+  const total = ranges.length + 2; // Plus the overview and the checklist
+  let completed = 0;
+  const report = () => options.onProgress?.({ completed, total });
+  report();
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Analyze the following travel document and extract a structured itinerary summary.
-      
-      DOCUMENT CONTENT:
-      ${contextText.substring(0, 50000)} ... (truncated for summary if too long)`, // Send first 50k chars for summary to save latency, usually enough for header info
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
+  const perRange = await mapWithConcurrency(
+    ranges,
+    options.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS,
+    async (range): Promise<RangeResult> => {
+      try {
+        return await extractRangeEvents(range, files.find(f => f.name === range.fileName));
+      } catch (error) {
+        // One unreadable range shouldn't cost the rest of the timeline
+        console.error(`Summary extraction failed for ${describeRange(range)}:`, error);
+        return { events: [], problem: `Couldn't analyze ${describeRange(range)}.`, failed: true };
+      } finally {
+        completed++;
+        report();
       }
-    });
+    }
+  );
 
-    const text = response.text;
-    if (!text) throw new Error("No summary generated");
-    
-    return JSON.parse(text) as TripSummary;
+  const events = withEventIds(canonicalizeParticipants(mergeStructuredEvents(mergeExtractedEvents(perRange.flatMap(r => r.events)), files)));
+  const problems = perRange.flatMap(r => (r.problem ? [r.problem] : []));
+  const allFailed = ranges.length > 0 && perRange.every(r => r.failed);
+  const summarize = (overview: TripOverview, checklist: ChecklistItem[]): TripSummary =>
+    problems.length === 0
+      ? { ...overview, events, checklist }
+      : { ...overview, events, checklist, analysis: { state: allFailed ? 'failed' : 'partial', problems } };
+
+  // Nothing was read, so there is nothing to write an overview or checklist from
+  if (allFailed) {
+    completed = total;
+    report();
+    return summarize(FALLBACK_OVERVIEW, []);
+  }
+
+  let overview = FALLBACK_OVERVIEW;
+  try {
+    const { value, errors } = await generateOverview(files, events);
+    if (errors.length > 0) problems.push("The trip title and suggested questions are incomplete.");
+    overview = value;
   } catch (error) {
     console.error("Summary Generation Error:", error);
-    // Return a fallback if parsing fails
-    return {
-      title: "My Trip",
-      destination: "Unknown",
-      dates: "Upcoming",
-      events: [],
-      suggestedQuestions: ["What is in this document?", "Are there any flights?", "Where am I staying?"]
-    };
+    problems.push("Couldn't write the trip title and suggested questions.");
+  } finally {
+    completed++;
+    report();
   }
+
+  try {
+    const { value, errors } = await generateChecklist(events, files);
+    if (errors.length > 0) problems.push("Some pre-trip checklist items could not be checked against your documents.");
+    return summarize(overview, value);
+  } catch (error) {
+    console.error("Checklist Generation Error:", error);
+    problems.push("Couldn't write the pre-trip checklist.");
+    return summarize(overview, []);
+  } finally {
+    completed = total;
+    report();
+  }
+};
+
+/**
+ * Embedder backed by the active provider's embedding model, used to index the
+ * uploaded documents for retrieval. Throws for providers without embeddings,
+ * in which case callers fall back to the local hash embedder.
+ */
+export const createModelEmbedder = (): Embedder => {
+  const provider = getProvider();
+  const embed = provider.embed;
+  if (!embed) throw new Error(`${provider.id} has no embedding model`);
+
+  return {
+    embedDocuments: (texts) => requestWithRetry(() => embed(texts, 'document')),
+    embedQuery: async (text) => (await requestWithRetry(() => embed([text], 'query')))[0],
+  };
 };
 
-export const createItineraryChat = (contextText: string): Chat => {
-  const ai = getAIInstance();
-  
-  const systemPrompt = `
+// The documents themselves are not pasted here: each turn carries the
+// passages retrieved for that question (see sendChatMessage), so files can
+// be added or removed without recreating the chat.
+const CHAT_SYSTEM_PROMPT = `
     You are an expert Travel Assistant AI. 
-    The user has uploaded a travel itinerary or document. 
-    Your goal is to answer questions STRICTLY based on the content provided below.
+    The user has uploaded one or more travel documents (flights, hotels, rail, tours...) for a single trip. 
+    Each user message comes with the list of documents in the trip and the RELEVANT DOCUMENT PASSAGES retrieved for it.
+    Your goal is to answer questions STRICTLY based on those passages (and earlier passages in this conversation).
     
     Rules:
-    1. If the answer is found in the document, provide it clearly and concisely.
-    2. ALWAYS cite the page number if possible, using the format [Page X].
-    3. If the answer is NOT in the document, explicitly say "I couldn't find that information in your uploaded itinerary."
+    1. If the answer is found in the passages, provide it clearly and concisely.
+    2. ALWAYS cite the file name and page number if possible, using the format [file name, Page X] (e.g. [hotel.pdf, Page 2]). Each passage is labelled this way.
+    3. If the answer is NOT in the passages, explicitly say "I couldn't find that information in your uploaded itinerary."
     4. Do not make up dates, times, or flight numbers.
     5. Be helpful, friendly, and act like a personal concierge.
     6. Format your answers nicely (use bullet points for lists, bold for times/dates).
-
-    --- BEGIN DOCUMENT CONTENT ---
-    ${contextText}
-    --- END DOCUMENT CONTENT ---
+    7. Passages may contain markdown tables: read each row as one record (e.g. one flight leg) and never mix times or airports between rows.
+    8. When a TRIP TIMELINE (CORRECTED BY THE USER) is given, it overrides the documents wherever they disagree (dates, times, places, cancelled or added events). Answer from it and say the detail comes from their corrected timeline instead of citing a page.
+    9. For money questions (what it costs, what is paid, how much is still owed and by when), answer from the TRIP COSTS section. Use its totals instead of adding up yourself, give amounts in the original currency and the home currency, and mention amounts left out for lack of an exchange rate.
+    10. When the question is ASKED FOR ONE TRAVELER, answer for that person only: use their own flights, seats and rooms from THEIR TIMELINE, and say so if a booking they'd need doesn't name them. "I", "me" and "my" in such a question mean that traveler.
+    11. When a TODAY section is given, "now", "next", "today" and "tonight" are relative to the user's time in it. Use its events to tell what is under way, what is next and what is left; each event's times are in its own time zone.
   `;
 
-  return ai.chats.create({
-    model: 'gemini-2.5-flash',
-    config: {
-      systemInstruction: systemPrompt,
-      temperature: 0.4,
-    },
+// A question as kept in the chat history, live or rebuilt from saved messages.
+// The traveler keeps "my seat" in a follow-up about the same person.
+const toHistoryQuestion = (question: string, traveler?: string | null): string =>
+  traveler ? `(Asked for ${traveler}) ${question}` : question;
+
+/**
+ * Turns saved messages back into chat history: only complete question/answer
+ * pairs are kept, so errors, app notes and answers stopped early never reach
+ * the model. A live session leaves out the same turns.
+ */
+export const toChatHistory = (messages: Message[]): ChatTurn[] => {
+  const history: ChatTurn[] = [];
+  messages.forEach((msg, idx) => {
+    const answer = messages[idx + 1];
+    if (msg.role !== 'user' || !answer || answer.role !== 'model' || answer.isError || answer.isTruncated || !answer.content) return;
+    history.push({ role: 'user', text: toHistoryQuestion(msg.content, msg.traveler) }, { role: 'model', text: answer.content });
   });
+  return history;
 };
 
-export const sendChatMessage = async (chat: Chat, message: string): Promise<string> => {
+/**
+ * Creates the chat session, optionally resuming a saved conversation.
+ */
+export const createItineraryChat = (previousMessages: Message[] = []): ChatSession =>
+  getProvider().createChat({
+    systemInstruction: CHAT_SYSTEM_PROMPT,
+    temperature: 0.4,
+    history: toChatHistory(previousMessages),
+  });
+
+/**
+ * What a chat turn can draw on besides the question itself.
+ */
+export interface ChatContext {
+  retriever?: Retriever | null;
+  // The timeline as corrected by the user; only passed once it has been edited
+  correctedEvents?: TripEvent[] | null;
+  // Prices of the bookings; only passed for money questions, when some were found
+  costs?: { events: TripEvent[]; rates: ExchangeRates; today: string } | null;
+  // Set when the question is asked for one member of the party
+  traveler?: { name: string; events: TripEvent[] } | null;
+  // The device's time (UTC milliseconds) and the events under way or coming up around it;
+  // only passed for questions about now, next or today
+  today?: { now: number; events: TripEvent[] } | null;
+}
+
+/**
+ * One line per event, with the fields a user may have corrected.
+ */
+export const formatTimelineForPrompt = (events: TripEvent[], numbered = false): string =>
+  events.map((event, idx) => {
+    const times = resolveEventTimes(event);
+    const when = times.allDay
+      ? `${times.start} to ${times.end}`
+      : `${times.start.replace('T', ' ')}${event.end ? ` to ${times.end.replace('T', ' ')}` : ''}`;
+    const zones = [times.timeZone, times.endTimeZone !== times.timeZone ? times.endTimeZone : undefined].filter(Boolean).join(' → ');
+    return [
+      `${numbered ? `#${idx + 1}` : '-'} ${when}${zones ? ` (${zones})` : ''} [${event.type}] ${event.activity}`,
+      event.location ? ` @ ${event.location}` : '',
+      event.confirmationNumber ? `, confirmation ${event.confirmationNumber}` : '',
+      event.participants?.length ? `, for ${formatParticipants(event.participants)}` : '',
+      event.userEdited ? ' (corrected by user)' : '',
+    ].join('');
+  }).join('\n') || '(no events)';
+
+/**
+ * Builds the message actually sent to the model for one turn: the user's
+ * corrected timeline if any, the trip's costs, the timeline of the traveler
+ * the question is asked for, the passages retrieved for the question, then
+ * the question itself.
+ */
+export const buildRetrievalPrompt = async (message: string, context: ChatContext = {}): Promise<string> => {
+  const { retriever, correctedEvents, costs, traveler, today } = context;
+  if (!retriever && !correctedEvents && !costs && !traveler && !today) return message;
+
+  const sections: string[] = [];
+  if (today) {
+    const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    sections.push(`--- TODAY: ${utcToZonedTime(today.now).replace('T', ' ')} ON THE USER'S DEVICE (${zone}) ---
+UNDER WAY AND COMING UP:
+${today.events.length > 0 ? formatTimelineForPrompt(today.events) : 'Nothing; the trip is over.'}
+--- END TODAY ---`);
+  }
+  if (correctedEvents) {
+    sections.push(`--- TRIP TIMELINE (CORRECTED BY THE USER) ---
+${formatTimelineForPrompt(correctedEvents)}
+--- END TIMELINE ---`);
+  }
+  if (costs) {
+    sections.push(`--- TRIP COSTS (FROM THE BOOKINGS) ---
+${formatBudgetForPrompt(costs.events, costs.rates, costs.today)}
+--- END COSTS ---`);
+  }
+  if (traveler) {
+    sections.push(`--- ASKED FOR ONE TRAVELER: ${traveler.name} ---
+THEIR TIMELINE (bookings naming them, and bookings naming no one):
+${formatTimelineForPrompt(traveler.events)}
+--- END TRAVELER ---`);
+  }
+  if (retriever) {
+    // The name finds the pages listing their seat or room
+    const passages = await retriever.retrieve(traveler ? `${message} ${traveler.name}` : message);
+    sections.push(`DOCUMENTS IN THIS TRIP: ${retriever.documentNames.join(', ') || 'none'}
+
+--- RELEVANT DOCUMENT PASSAGES ---
+${formatPassagesForPrompt(passages)}
+--- END PASSAGES ---`);
+  }
+
+  return `${sections.join('\n\n')}
+
+QUESTION${traveler ? ` (ASKED FOR ${traveler.name})` : ''}: ${message}`;
+};
+
+export const sendChatMessage = async (chat: ChatSession, message: string, context: ChatContext = {}): Promise<string> => {
   try {
-    const result = await chat.sendMessage({
-      message: message
-    });
-    
-    const responseText = result.text;
-    if (!responseText) throw new Error("Empty response from model");
+    const prompt = await buildRetrievalPrompt(message, context);
+    // Only this turn gets the passages; the history keeps the question
+    const question = toHistoryQuestion(message, context.traveler?.name);
+    const responseText = await requestWithRetry(signal => chat.send(prompt, signal, question));
+    if (!responseText) throw createModelError('unknown', "Empty response from model");
     
     return responseText;
   } catch (error) {
-    console.error("Gemini Chat Error:", error);
-    throw error;
+    console.error("Chat Error:", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Streams the answer for one turn, yielding the text accumulated so far.
+ * Aborting the signal stops the request; the caller keeps whatever text
+ * has already been yielded. Failures are thrown as a ModelError.
+ */
+export async function* streamChatMessage(
+  chat: ChatSession,
+  message: string,
+  context: ChatContext = {},
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  try {
+    const prompt = await buildRetrievalPrompt(message, context);
+
+    const question = toHistoryQuestion(message, context.traveler?.name);
+
+    let text = '';
+    for await (const delta of streamWithRetry(attemptSignal => chat.stream(prompt, attemptSignal, question), { signal })) {
+      if (signal?.aborted) return;
+      text += delta;
+      yield text;
+    }
+
+    if (!text) throw createModelError('unknown', "Empty response from model");
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error("Chat Stream Error:", error);
+    throw classifyError(error);
   }
-};
\ No newline at end of file
+}
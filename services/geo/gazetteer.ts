@@ -0,0 +1,306 @@
+/**
+ * Bundled offline gazetteer: major airports by IATA code and popular travel
+ * cities, so the trip map works without any network access. Coordinates are
+ * rounded to two decimals (about 1 km), plenty for a trip overview.
+ */
+
+export interface Airport {
+  code: string; // IATA
+  city: string;
+  lat: number;
+  lon: number;
+}
+
+export interface City {
+  name: string;
+  country: string;
+  lat: number;
+  lon: number;
+  aliases?: string[]; // Local spellings and common nicknames
+}
+
+type AirportRow = [code: string, city: string, lat: number, lon: number];
+type CityRow = [name: string, country: string, lat: number, lon: number, aliases?: string[]];
+
+const AIRPORT_ROWS: AirportRow[] = [
+  // North America
+  ['ATL', 'Atlanta', 33.64, -84.43],
+  ['LAX', 'Los Angeles', 33.94, -118.41],
+  ['ORD', 'Chicago', 41.97, -87.91],
+  ['DFW', 'Dallas', 32.90, -97.04],
+  ['DEN', 'Denver', 39.86, -104.67],
+  ['JFK', 'New York', 40.64, -73.78],
+  ['EWR', 'Newark', 40.69, -74.17],
+  ['LGA', 'New York', 40.78, -73.87],
+  ['SFO', 'San Francisco', 37.62, -122.38],
+  ['SEA', 'Seattle', 47.45, -122.31],
+  ['LAS', 'Las Vegas', 36.08, -115.15],
+  ['MCO', 'Orlando', 28.43, -81.31],
+  ['MIA', 'Miami', 25.80, -80.29],
+  ['BOS', 'Boston', 42.36, -71.01],
+  ['IAD', 'Washington', 38.95, -77.46],
+  ['DCA', 'Washington', 38.85, -77.04],
+  ['PHL', 'Philadelphia', 39.87, -75.24],
+  ['IAH', 'Houston', 29.98, -95.34],
+  ['PHX', 'Phoenix', 33.43, -112.01],
+  ['MSP', 'Minneapolis', 44.88, -93.22],
+  ['DTW', 'Detroit', 42.21, -83.35],
+  ['SAN', 'San Diego', 32.73, -117.19],
+  ['MSY', 'New Orleans', 29.99, -90.26],
+  ['HNL', 'Honolulu', 21.32, -157.92],
+  ['YYZ', 'Toronto', 43.68, -79.63],
+  ['YVR', 'Vancouver', 49.19, -123.18],
+  ['YUL', 'Montreal', 45.47, -73.74],
+  ['MEX', 'Mexico City', 19.44, -99.07],
+  ['CUN', 'Cancun', 21.04, -86.87],
+  ['HAV', 'Havana', 22.99, -82.41],
+  // South America
+  ['GRU', 'São Paulo', -23.43, -46.47],
+  ['GIG', 'Rio de Janeiro', -22.81, -43.25],
+  ['EZE', 'Buenos Aires', -34.82, -58.54],
+  ['SCL', 'Santiago', -33.39, -70.79],
+  ['LIM', 'Lima', -12.02, -77.11],
+  ['CUZ', 'Cusco', -13.54, -71.94],
+  ['BOG', 'Bogotá', 4.70, -74.15],
+  ['CTG', 'Cartagena', 10.44, -75.51],
+  // Europe
+  ['LHR', 'London', 51.47, -0.45],
+  ['LGW', 'London', 51.15, -0.19],
+  ['STN', 'London', 51.89, 0.26],
+  ['LTN', 'London', 51.87, -0.37],
+  ['CDG', 'Paris', 49.01, 2.55],
+  ['ORY', 'Paris', 48.72, 2.38],
+  ['AMS', 'Amsterdam', 52.31, 4.76],
+  ['FRA', 'Frankfurt', 50.04, 8.56],
+  ['MUC', 'Munich', 48.35, 11.79],
+  ['BER', 'Berlin', 52.37, 13.50],
+  ['HAM', 'Hamburg', 53.63, 10.01],
+  ['CGN', 'Cologne', 50.87, 7.14],
+  ['ZRH', 'Zurich', 47.46, 8.55],
+  ['GVA', 'Geneva', 46.24, 6.11],
+  ['VIE', 'Vienna', 48.11, 16.57],
+  ['SZG', 'Salzburg', 47.79, 13.00],
+  ['BRU', 'Brussels', 50.90, 4.48],
+  ['MAD', 'Madrid', 40.47, -3.56],
+  ['BCN', 'Barcelona', 41.30, 2.08],
+  ['SVQ', 'Seville', 37.42, -5.90],
+  ['AGP', 'Malaga', 36.67, -4.50],
+  ['PMI', 'Palma de Mallorca', 39.55, 2.74],
+  ['LIS', 'Lisbon', 38.77, -9.13],
+  ['OPO', 'Porto', 41.24, -8.68],
+  ['FCO', 'Rome', 41.80, 12.25],
+  ['CIA', 'Rome', 41.80, 12.59],
+  ['MXP', 'Milan', 45.63, 8.72],
+  ['LIN', 'Milan', 45.45, 9.28],
+  ['VCE', 'Venice', 45.51, 12.35],
+  ['FLR', 'Florence', 43.81, 11.20],
+  ['PSA', 'Pisa', 43.68, 10.40],
+  ['NAP', 'Naples', 40.88, 14.29],
+  ['ATH', 'Athens', 37.94, 23.94],
+  ['JTR', 'Santorini', 36.40, 25.48],
+  ['IST', 'Istanbul', 41.26, 28.74],
+  ['SAW', 'Istanbul', 40.90, 29.31],
+  ['CPH', 'Copenhagen', 55.62, 12.66],
+  ['ARN', 'Stockholm', 59.65, 17.92],
+  ['OSL', 'Oslo', 60.19, 11.10],
+  ['HEL', 'Helsinki', 60.32, 24.96],
+  ['DUB', 'Dublin', 53.42, -6.27],
+  ['EDI', 'Edinburgh', 55.95, -3.37],
+  ['MAN', 'Manchester', 53.35, -2.27],
+  ['PRG', 'Prague', 50.10, 14.26],
+  ['WAW', 'Warsaw', 52.17, 20.97],
+  ['KRK', 'Krakow', 50.08, 19.78],
+  ['BUD', 'Budapest', 47.44, 19.26],
+  ['KEF', 'Reykjavik', 63.99, -22.62],
+  ['NCE', 'Nice', 43.66, 7.22],
+  ['MRS', 'Marseille', 43.44, 5.22],
+  ['LYS', 'Lyon', 45.73, 5.08],
+  ['DBV', 'Dubrovnik', 42.56, 18.27],
+  ['SPU', 'Split', 43.54, 16.30],
+  // Middle East and Africa
+  ['DXB', 'Dubai', 25.25, 55.36],
+  ['DOH', 'Doha', 25.27, 51.61],
+  ['AUH', 'Abu Dhabi', 24.43, 54.65],
+  ['TLV', 'Tel Aviv', 32.01, 34.89],
+  ['CAI', 'Cairo', 30.12, 31.41],
+  ['CMN', 'Casablanca', 33.37, -7.59],
+  ['RAK', 'Marrakech', 31.61, -8.04],
+  ['JNB', 'Johannesburg', -26.14, 28.25],
+  ['CPT', 'Cape Town', -33.97, 18.60],
+  ['NBO', 'Nairobi', -1.32, 36.93],
+  ['ZNZ', 'Zanzibar', -6.22, 39.22],
+  // Asia
+  ['DEL', 'Delhi', 28.57, 77.10],
+  ['BOM', 'Mumbai', 19.09, 72.87],
+  ['BLR', 'Bengaluru', 13.20, 77.71],
+  ['SIN', 'Singapore', 1.36, 103.99],
+  ['BKK', 'Bangkok', 13.69, 100.75],
+  ['DMK', 'Bangkok', 13.91, 100.61],
+  ['HKT', 'Phuket', 8.11, 98.32],
+  ['CNX', 'Chiang Mai', 18.77, 98.96],
+  ['KUL', 'Kuala Lumpur', 2.75, 101.71],
+  ['CGK', 'Jakarta', -6.13, 106.66],
+  ['DPS', 'Bali', -8.75, 115.17],
+  ['MNL', 'Manila', 14.51, 121.02],
+  ['HKG', 'Hong Kong', 22.31, 113.91],
+  ['TPE', 'Taipei', 25.08, 121.23],
+  ['PEK', 'Beijing', 40.08, 116.58],
+  ['PKX', 'Beijing', 39.51, 116.41],
+  ['PVG', 'Shanghai', 31.14, 121.81],
+  ['SHA', 'Shanghai', 31.20, 121.34],
+  ['CAN', 'Guangzhou', 23.39, 113.30],
+  ['ICN', 'Seoul', 37.46, 126.44],
+  ['GMP', 'Seoul', 37.56, 126.79],
+  ['NRT', 'Tokyo', 35.77, 140.39],
+  ['HND', 'Tokyo', 35.55, 139.78],
+  ['KIX', 'Osaka', 34.43, 135.24],
+  ['ITM', 'Osaka', 34.79, 135.44],
+  ['CTS', 'Sapporo', 42.78, 141.69],
+  ['FUK', 'Fukuoka', 33.59, 130.45],
+  ['OKA', 'Naha', 26.20, 127.65],
+  ['SGN', 'Ho Chi Minh City', 10.82, 106.65],
+  ['HAN', 'Hanoi', 21.22, 105.81],
+  ['DAD', 'Da Nang', 16.04, 108.20],
+  ['REP', 'Siem Reap', 13.41, 103.81],
+  // Oceania
+  ['SYD', 'Sydney', -33.95, 151.18],
+  ['MEL', 'Melbourne', -37.67, 144.84],
+  ['BNE', 'Brisbane', -27.38, 153.12],
+  ['PER', 'Perth', -31.94, 115.97],
+  ['AKL', 'Auckland', -37.01, 174.79],
+  ['CHC', 'Christchurch', -43.49, 172.53],
+  ['ZQN', 'Queenstown', -45.02, 168.74],
+];
+
+const CITY_ROWS: CityRow[] = [
+  // North America
+  ['New York', 'USA', 40.71, -74.01, ['NYC', 'New York City', 'Manhattan', 'Brooklyn']],
+  ['Los Angeles', 'USA', 34.05, -118.24],
+  ['Chicago', 'USA', 41.88, -87.63],
+  ['San Francisco', 'USA', 37.77, -122.42],
+  ['Seattle', 'USA', 47.61, -122.33],
+  ['Boston', 'USA', 42.36, -71.06],
+  ['Washington', 'USA', 38.90, -77.04, ['Washington DC', 'Washington D.C.']],
+  ['Miami', 'USA', 25.76, -80.19],
+  ['Orlando', 'USA', 28.54, -81.38],
+  ['Las Vegas', 'USA', 36.17, -115.14],
+  ['New Orleans', 'USA', 29.95, -90.07],
+  ['San Diego', 'USA', 32.72, -117.16],
+  ['Honolulu', 'USA', 21.31, -157.86],
+  ['Toronto', 'Canada', 43.65, -79.38],
+  ['Vancouver', 'Canada', 49.28, -123.12],
+  ['Montreal', 'Canada', 45.50, -73.57, ['Montréal']],
+  ['Mexico City', 'Mexico', 19.43, -99.13, ['Ciudad de México', 'CDMX']],
+  ['Cancun', 'Mexico', 21.16, -86.85, ['Cancún']],
+  ['Havana', 'Cuba', 23.11, -82.37, ['La Habana']],
+  // South America
+  ['São Paulo', 'Brazil', -23.55, -46.63, ['Sao Paulo']],
+  ['Rio de Janeiro', 'Brazil', -22.91, -43.17],
+  ['Buenos Aires', 'Argentina', -34.60, -58.38],
+  ['Santiago', 'Chile', -33.45, -70.67],
+  ['Lima', 'Peru', -12.05, -77.04],
+  ['Cusco', 'Peru', -13.53, -71.97, ['Cuzco']],
+  ['Bogotá', 'Colombia', 4.71, -74.07, ['Bogota']],
+  ['Cartagena', 'Colombia', 10.39, -75.48],
+  // Europe
+  ['London', 'UK', 51.51, -0.13],
+  ['Paris', 'France', 48.86, 2.35],
+  ['Nice', 'France', 43.70, 7.27],
+  ['Marseille', 'France', 43.30, 5.37],
+  ['Lyon', 'France', 45.76, 4.84],
+  ['Amsterdam', 'Netherlands', 52.37, 4.90],
+  ['Frankfurt', 'Germany', 50.11, 8.68],
+  ['Munich', 'Germany', 48.14, 11.58, ['München', 'Muenchen']],
+  ['Berlin', 'Germany', 52.52, 13.40],
+  ['Hamburg', 'Germany', 53.55, 9.99],
+  ['Cologne', 'Germany', 50.94, 6.96, ['Köln', 'Koeln']],
+  ['Zurich', 'Switzerland', 47.37, 8.54, ['Zürich']],
+  ['Geneva', 'Switzerland', 46.20, 6.14, ['Genève', 'Genf']],
+  ['Vienna', 'Austria', 48.21, 16.37, ['Wien']],
+  ['Salzburg', 'Austria', 47.81, 13.05],
+  ['Brussels', 'Belgium', 50.85, 4.35, ['Bruxelles', 'Brussel']],
+  ['Bruges', 'Belgium', 51.21, 3.22, ['Brugge']],
+  ['Madrid', 'Spain', 40.42, -3.70],
+  ['Barcelona', 'Spain', 41.39, 2.17],
+  ['Seville', 'Spain', 37.39, -5.98, ['Sevilla']],
+  ['Granada', 'Spain', 37.18, -3.60],
+  ['Malaga', 'Spain', 36.72, -4.42, ['Málaga']],
+  ['Lisbon', 'Portugal', 38.72, -9.14, ['Lisboa']],
+  ['Porto', 'Portugal', 41.15, -8.61],
+  ['Rome', 'Italy', 41.90, 12.50, ['Roma']],
+  ['Milan', 'Italy', 45.46, 9.19, ['Milano']],
+  ['Venice', 'Italy', 45.44, 12.32, ['Venezia']],
+  ['Florence', 'Italy', 43.77, 11.26, ['Firenze']],
+  ['Pisa', 'Italy', 43.72, 10.40],
+  ['Naples', 'Italy', 40.85, 14.27, ['Napoli']],
+  ['Athens', 'Greece', 37.98, 23.73, ['Athina']],
+  ['Santorini', 'Greece', 36.39, 25.46, ['Thira', 'Fira']],
+  ['Istanbul', 'Turkey', 41.01, 28.98],
+  ['Copenhagen', 'Denmark', 55.68, 12.57, ['København']],
+  ['Stockholm', 'Sweden', 59.33, 18.07],
+  ['Oslo', 'Norway', 59.91, 10.75],
+  ['Helsinki', 'Finland', 60.17, 24.94],
+  ['Dublin', 'Ireland', 53.35, -6.26],
+  ['Edinburgh', 'UK', 55.95, -3.19],
+  ['Manchester', 'UK', 53.48, -2.24],
+  ['Prague', 'Czechia', 50.08, 14.44, ['Praha']],
+  ['Warsaw', 'Poland', 52.23, 21.01, ['Warszawa']],
+  ['Krakow', 'Poland', 50.06, 19.94, ['Kraków']],
+  ['Budapest', 'Hungary', 47.50, 19.04],
+  ['Reykjavik', 'Iceland', 64.15, -21.94, ['Reykjavík']],
+  ['Dubrovnik', 'Croatia', 42.65, 18.09],
+  ['Split', 'Croatia', 43.51, 16.44],
+  // Middle East and Africa
+  ['Dubai', 'UAE', 25.20, 55.27],
+  ['Abu Dhabi', 'UAE', 24.45, 54.38],
+  ['Doha', 'Qatar', 25.29, 51.53],
+  ['Tel Aviv', 'Israel', 32.09, 34.78],
+  ['Jerusalem', 'Israel', 31.77, 35.21],
+  ['Cairo', 'Egypt', 30.04, 31.24],
+  ['Marrakech', 'Morocco', 31.63, -7.99, ['Marrakesh']],
+  ['Casablanca', 'Morocco', 33.57, -7.59],
+  ['Cape Town', 'South Africa', -33.92, 18.42],
+  ['Johannesburg', 'South Africa', -26.20, 28.05],
+  ['Nairobi', 'Kenya', -1.29, 36.82],
+  ['Zanzibar', 'Tanzania', -6.17, 39.20, ['Stone Town']],
+  // Asia
+  ['Delhi', 'India', 28.61, 77.21, ['New Delhi']],
+  ['Mumbai', 'India', 19.08, 72.88, ['Bombay']],
+  ['Bengaluru', 'India', 12.97, 77.59, ['Bangalore']],
+  ['Singapore', 'Singapore', 1.35, 103.82],
+  ['Bangkok', 'Thailand', 13.76, 100.50],
+  ['Phuket', 'Thailand', 7.88, 98.39],
+  ['Chiang Mai', 'Thailand', 18.79, 98.98],
+  ['Kuala Lumpur', 'Malaysia', 3.14, 101.69],
+  ['Jakarta', 'Indonesia', -6.21, 106.85],
+  ['Bali', 'Indonesia', -8.41, 115.19, ['Denpasar', 'Ubud', 'Seminyak']],
+  ['Manila', 'Philippines', 14.60, 120.98],
+  ['Hong Kong', 'China', 22.32, 114.17],
+  ['Taipei', 'Taiwan', 25.03, 121.57],
+  ['Beijing', 'China', 39.90, 116.41, ['Peking']],
+  ['Shanghai', 'China', 31.23, 121.47],
+  ['Seoul', 'South Korea', 37.57, 126.98],
+  ['Tokyo', 'Japan', 35.68, 139.69, ['Shinjuku', 'Shibuya']],
+  ['Kyoto', 'Japan', 35.01, 135.77],
+  ['Osaka', 'Japan', 34.69, 135.50],
+  ['Nara', 'Japan', 34.69, 135.80],
+  ['Hiroshima', 'Japan', 34.39, 132.46],
+  ['Sapporo', 'Japan', 43.06, 141.35],
+  ['Hanoi', 'Vietnam', 21.03, 105.85, ['Ha Noi']],
+  ['Ho Chi Minh City', 'Vietnam', 10.82, 106.63, ['Saigon']],
+  ['Hoi An', 'Vietnam', 15.88, 108.33],
+  ['Da Nang', 'Vietnam', 16.05, 108.20],
+  ['Siem Reap', 'Cambodia', 13.36, 103.86],
+  // Oceania
+  ['Sydney', 'Australia', -33.87, 151.21],
+  ['Melbourne', 'Australia', -37.81, 144.96],
+  ['Brisbane', 'Australia', -27.47, 153.03],
+  ['Perth', 'Australia', -31.95, 115.86],
+  ['Auckland', 'New Zealand', -36.85, 174.76],
+  ['Queenstown', 'New Zealand', -45.03, 168.66],
+  ['Christchurch', 'New Zealand', -43.53, 172.64],
+];
+
+export const AIRPORTS: Airport[] = AIRPORT_ROWS.map(([code, city, lat, lon]) => ({ code, city, lat, lon }));
+
+export const CITIES: City[] = CITY_ROWS.map(([name, country, lat, lon, aliases]) => ({ name, country, lat, lon, aliases }));
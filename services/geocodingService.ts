@@ -0,0 +1,169 @@
+import { TripEvent } from '../types';
+import { AIRPORTS, Airport, CITIES, City } from './geo/gazetteer';
+import { getFlightRoute } from './eventDetailsService';
+
+export interface GeoPlace {
+  name: string;
+  lat: number;
+  lon: number;
+  kind: 'airport' | 'city' | 'address';
+}
+
+/**
+ * Turns a free-text location into coordinates. The default works offline
+ * from the bundled gazetteer; an online service can be swapped in with
+ * setGeocoder.
+ */
+export interface Geocoder {
+  id: string;
+  geocode(query: string): Promise<GeoPlace | null>;
+}
+
+const stripDiacritics = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const createGazetteerGeocoder = (
+  airports: Airport[] = AIRPORTS,
+  cities: City[] = CITIES
+): Geocoder => {
+  const airportsByCode = new Map(airports.map(a => [a.code, a]));
+  // Longest names first so "New York City" wins over "New York"
+  const cityNames = cities
+    .flatMap(city => [city.name, ...(city.aliases ?? [])].map(name => ({
+      city,
+      pattern: new RegExp(`(?:^|[^\\p{L}])(${escapeRegExp(stripDiacritics(name))})(?![\\p{L}])`, 'giu'),
+      length: name.length,
+    })))
+    .sort((a, b) => b.length - a.length);
+
+  const toAirportPlace = (airport: Airport): GeoPlace =>
+    ({ name: `${airport.city} (${airport.code})`, lat: airport.lat, lon: airport.lon, kind: 'airport' });
+
+  const findCity = (query: string): City | null => {
+    const text = stripDiacritics(query);
+    for (const { city, pattern } of cityNames) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text))) {
+        // Place names are capitalized; "a nice view" is not in Nice
+        const first = match[1][0];
+        if (first === first.toUpperCase()) return city;
+      }
+    }
+    return null;
+  };
+
+  return {
+    id: 'gazetteer',
+    geocode: async (query) => {
+      // Standalone upper-case codes, e.g. "FRA → JFK" or "Terminal 1, CDG"
+      for (const code of query.match(/\b[A-Z]{3}\b/g) ?? []) {
+        const airport = airportsByCode.get(code);
+        if (airport) return toAirportPlace(airport);
+      }
+
+      const city = findCity(query);
+      if (!city) return null;
+
+      if (/airport|flughafen|a[ée]roport|aeropuerto|aeroporto/i.test(query)) {
+        const airport = airports.find(a => a.city === city.name);
+        if (airport) return toAirportPlace(airport);
+      }
+      return { name: city.name, lat: city.lat, lon: city.lon, kind: 'city' };
+    },
+  };
+};
+
+let activeGeocoder: Geocoder = createGazetteerGeocoder();
+
+export const getGeocoder = (): Geocoder => activeGeocoder;
+
+export const setGeocoder = (geocoder: Geocoder) => {
+  activeGeocoder = geocoder;
+};
+
+export interface MapStop {
+  place: GeoPlace;
+  event: TripEvent;
+  eventIndex: number;
+  role?: 'departure' | 'arrival'; // Flights contribute two stops
+}
+
+export interface TripMapDay {
+  date: string;
+  stops: MapStop[];
+}
+
+export interface UnresolvedLocation {
+  event: TripEvent;
+  eventIndex: number;
+  query: string;
+}
+
+export interface TripMapPlan {
+  days: TripMapDay[];
+  unresolved: UnresolvedLocation[];
+}
+
+// Candidate queries per stop, most specific first
+const stopQueries = (event: TripEvent): { role?: MapStop['role']; queries: string[] }[] => {
+  if (event.type === 'flight') {
+    const route = getFlightRoute(event);
+    const ends: { role: MapStop['role']; queries: (string | undefined)[] }[] = [
+      { role: 'departure', queries: [route.from, event.location] },
+      { role: 'arrival', queries: [route.to] },
+    ];
+    return ends.map(stop => ({ ...stop, queries: stop.queries.filter((q): q is string => !!q?.trim()) }));
+  }
+
+  const address = event.details && 'address' in event.details ? event.details.address : undefined;
+  return [{ queries: [address, event.location, event.activity].filter((q): q is string => !!q?.trim()) }];
+};
+
+/**
+ * Geocodes the events of a trip into one ordered list of stops per day.
+ * Events none of whose locations could be placed are returned separately.
+ */
+export const planTripMap = async (events: TripEvent[], geocoder: Geocoder = activeGeocoder): Promise<TripMapPlan> => {
+  const cache = new Map<string, Promise<GeoPlace | null>>();
+  const geocode = (query: string) => {
+    const key = query.trim().toLowerCase();
+    if (!cache.has(key)) {
+      cache.set(key, geocoder.geocode(query).catch(error => {
+        console.warn(`Geocoding failed for "${query}"`, error);
+        return null;
+      }));
+    }
+    return cache.get(key)!;
+  };
+
+  const days = new Map<string, MapStop[]>();
+  const unresolved: UnresolvedLocation[] = [];
+
+  for (const [eventIndex, event] of events.entries()) {
+    const stops: MapStop[] = [];
+    for (const { role, queries } of stopQueries(event)) {
+      for (const query of queries) {
+        const place = await geocode(query);
+        if (place) {
+          stops.push({ place, event, eventIndex, role });
+          break;
+        }
+      }
+    }
+
+    // A flight whose route could not be split resolves both ends to one place
+    const distinct = stops.filter((stop, i) => i === 0 || stop.place.name !== stops[i - 1].place.name);
+    if (distinct.length === 0) {
+      unresolved.push({ event, eventIndex, query: event.location || event.activity });
+      continue;
+    }
+    days.set(event.date, [...(days.get(event.date) ?? []), ...distinct]);
+  }
+
+  return {
+    days: [...days].sort(([a], [b]) => a.localeCompare(b)).map(([date, stops]) => ({ date, stops })),
+    unresolved,
+  };
+};
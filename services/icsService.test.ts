@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { TripEvent } from '../types';
+import { buildIcsCalendar, escapeIcsText, foldIcsLine } from './icsService';
+import { DEFAULT_REMINDER_SETTINGS } from './reminderService';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+const FLIGHT: TripEvent = {
+  type: 'flight',
+  date: '2025-03-29',
+  time: '22:30',
+  activity: 'Flight LH1234',
+  location: 'Paris CDG → New York JFK',
+  start: '2025-03-29T22:30',
+  end: '2025-03-30T09:00',
+  timeZone: 'Europe/Paris',
+  endTimeZone: 'America/New_York',
+};
+
+const HOTEL: TripEvent = {
+  type: 'hotel',
+  date: '2025-03-14',
+  time: '',
+  activity: 'Hotel Lutetia',
+  location: 'Paris',
+  start: '2025-03-14',
+  end: '2025-03-16',
+  allDay: true,
+  timeZone: 'Europe/Paris',
+};
+
+// Unfolded content lines of a calendar
+const contentLines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+// Lines of the first component of a kind, e.g. the first VTIMEZONE
+const component = (lines: string[], name: string, tzid?: string) => {
+  const start = lines.findIndex((line, idx) => line === `BEGIN:${name}` && (!tzid || lines[idx + 1] === `TZID:${tzid}`));
+  return lines.slice(start, lines.indexOf(`END:${name}`, start) + 1);
+};
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, semicolons, commas and newlines (RFC 5545 3.3.11)', () => {
+    expect(escapeIcsText('Room 2; floor 3, left\\right\nlate check-in\r\nok')).toBe(
+      'Room 2\\; floor 3\\, left\\\\right\\nlate check-in\\nok'
+    );
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('leaves lines of 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`;
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it('folds longer lines at 75 octets with CRLF and a space (RFC 5545 3.1)', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const parts = foldIcsLine(line).split('\r\n');
+
+    expect(parts.length).toBe(3);
+    expect(parts[0].length).toBe(75);
+    parts.slice(1).forEach(part => expect(part.startsWith(' ')).toBe(true));
+    parts.forEach(part => expect(part.length).toBeLessThanOrEqual(75));
+    expect(parts.map((part, idx) => (idx === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+
+  it('counts UTF-8 octets and never splits a character', () => {
+    const line = `LOCATION:${'é'.repeat(60)}`;
+    const encoder = new TextEncoder();
+    const parts = foldIcsLine(line).split('\r\n');
+
+    parts.forEach(part => expect(encoder.encode(part).length).toBeLessThanOrEqual(75));
+    expect(parts.map((part, idx) => (idx === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('buildIcsCalendar', () => {
+  it('writes timed events with TZID and a VTIMEZONE per zone', () => {
+    const lines = contentLines(buildIcsCalendar([FLIGHT], { now: NOW }));
+
+    expect(lines).toContain('DTSTART;TZID=Europe/Paris:20250329T223000');
+    expect(lines).toContain('DTEND;TZID=America/New_York:20250330T090000');
+    expect(lines.filter(line => line === 'BEGIN:VTIMEZONE')).toHaveLength(2);
+    expect(lines).toContain('TZID:Europe/Paris');
+    expect(lines).toContain('TZID:America/New_York');
+  });
+
+  it('lists the DST change a trip spans in its VTIMEZONE', () => {
+    const paris = component(contentLines(buildIcsCalendar([FLIGHT], { now: NOW })), 'VTIMEZONE', 'Europe/Paris');
+    const daylight = component(paris, 'DAYLIGHT');
+
+    // Clocks go forward at 02:00 local on 30 March 2025
+    expect(daylight).toEqual([
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250330T020000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'END:DAYLIGHT',
+    ]);
+    expect(component(paris, 'STANDARD')).toContain('TZOFFSETTO:+0100');
+  });
+
+  it('writes stays as all-day spans with the check-out day as DTEND', () => {
+    const lines = contentLines(buildIcsCalendar([HOTEL], { now: NOW }));
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250314');
+    expect(lines).toContain('DTEND;VALUE=DATE:20250316');
+    expect(lines).toContain('TRANSP:TRANSPARENT');
+    expect(lines).not.toContain('BEGIN:VTIMEZONE');
+  });
+
+  it('ends a one-day all-day event on the next day', () => {
+    const lines = contentLines(buildIcsCalendar([{ ...HOTEL, type: 'activity', activity: 'Museum day', end: undefined }], { now: NOW }));
+    expect(lines).toContain('DTEND;VALUE=DATE:20250315');
+  });
+
+  it('escapes text values and folds long lines', () => {
+    const ics = buildIcsCalendar([{ ...HOTEL, activity: 'Hotel Lutetia; Saint-Germain, Paris', note: 'x'.repeat(120) }], { now: NOW });
+
+    expect(contentLines(ics)).toContain('SUMMARY:Hotel Lutetia\\; Saint-Germain\\, Paris');
+    ics.split('\r\n').forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(ics.endsWith('\r\n')).toBe(true);
+  });
+
+  it('adds reminders as VALARMs relative to departure and check-out', () => {
+    const lines = contentLines(buildIcsCalendar([FLIGHT, HOTEL], { now: NOW, alarms: DEFAULT_REMINDER_SETTINGS }));
+    const triggers = lines.filter(line => line.startsWith('TRIGGER'));
+
+    expect(triggers).toEqual(expect.arrayContaining([
+      'TRIGGER:-PT3H', // Leave for the airport
+      'TRIGGER:-P1D', // Online check-in opens
+      'TRIGGER;RELATED=END:PT10H', // An hour before the 11:00 check-out, after the midnight DTEND
+    ]));
+    expect(triggers).toHaveLength(3);
+  });
+
+  const uid = (ics: string) => contentLines(ics).find(line => line.startsWith('UID:'));
+
+  it('gives an event the same UID on every export', () => {
+    expect(uid(buildIcsCalendar([FLIGHT], { now: NOW }))).toBe(uid(buildIcsCalendar([FLIGHT], { now: new Date() })));
+  });
+
+  it('keeps the UID of an event through edits to its time, name and place', () => {
+    const before = { ...FLIGHT, id: 'b7e1c2' };
+    const after = { ...before, activity: 'Flight LH1236', location: 'Paris ORY → New York JFK', start: '2025-03-29T23:10', time: '23:10' };
+
+    expect(uid(buildIcsCalendar([before], { now: NOW }))).toBe('UID:b7e1c2@wanderlust.ai');
+    expect(uid(buildIcsCalendar([after], { now: NOW }))).toBe('UID:b7e1c2@wanderlust.ai');
+  });
+
+  it('gives an event from an imported calendar back its own UID', () => {
+    const lines = contentLines(buildIcsCalendar([{ ...HOTEL, id: 'abc@example.com' }, { ...HOTEL, id: 'abc@example.com' }], { now: NOW }));
+    expect(lines.filter(line => line.startsWith('UID:'))).toEqual(['UID:abc@example.com', 'UID:abc-2@example.com']);
+  });
+});
+
+describe('RFC 5545 examples', () => {
+  // The spec's party: 19 January 1998, 02:00 New York time, in a room whose name has a comma
+  const PARTY: TripEvent = {
+    type: 'activity',
+    date: '1998-01-19',
+    time: '02:00',
+    activity: 'Department Party',
+    location: 'Conference Room - F123, Bldg. 002',
+    start: '1998-01-19T02:00',
+    end: '1998-01-19T03:00',
+    timeZone: 'America/New_York',
+  };
+  const STAY: TripEvent = { ...HOTEL, date: '1998-07-01', start: '1998-07-01', end: '1998-07-04', timeZone: undefined };
+  const lines = contentLines(buildIcsCalendar([PARTY, STAY], { now: new Date('1997-12-10T08:00:00Z') }));
+
+  it('writes the example lines of the properties it uses', () => {
+    expect(lines).toEqual(expect.arrayContaining([
+      'DTSTART;TZID=America/New_York:19980119T020000', // 3.3.5, form #3
+      'DTSTAMP:19971210T080000Z', // 3.8.7.2
+      'SUMMARY:Department Party', // 3.8.1.12
+      'LOCATION:Conference Room - F123\\, Bldg. 002', // 3.8.1.7
+      'DTEND;VALUE=DATE:19980704', // 3.8.2.2
+    ]));
+  });
+
+  it('writes the example alarm trigger', () => {
+    const settings = { ...DEFAULT_REMINDER_SETTINGS, leadMinutes: { ...DEFAULT_REMINDER_SETTINGS.leadMinutes, 'leave-for-airport': 15 } };
+    const alarms = contentLines(buildIcsCalendar([FLIGHT], { now: NOW, alarms: settings }));
+    expect(alarms).toContain('TRIGGER:-PT15M'); // 3.8.6.3
+  });
+});
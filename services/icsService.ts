@@ -0,0 +1,249 @@
+import { TripEvent } from '../types';
+import { getTimeZoneOffset, resolveEventTimes, utcToZonedTime, zonedTimeToUtc } from './eventTimeService';
+import { getEventDetailEntries } from './eventDetailsService';
+import { formatParticipants } from './travelerService';
+import { Reminder, ReminderSettings, buildReminders } from './reminderService';
+
+/**
+ * iCalendar (RFC 5545) export of the trip timeline. Timed events are written
+ * in their own zone with TZID and a matching VTIMEZONE, hotel stays as
+ * all-day spans, and UIDs come from the event's id, which edits keep, so
+ * re-importing an updated export replaces events instead of duplicating them.
+ */
+
+export interface IcsOptions {
+  calendarName?: string;
+  now?: Date; // DTSTAMP, injectable for reproducible output
+  alarms?: ReminderSettings; // Adds the trip reminders as VALARMs
+}
+
+const PRODID = '-//WanderLust AI//Trip Itinerary//EN';
+const UID_DOMAIN = 'wanderlust.ai';
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 86_400_000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** RFC 5545 3.3.11: backslash, semicolon, comma and newlines in TEXT values. */
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * RFC 5545 3.1: lines longer than 75 octets are split with CRLF and a space.
+ * Counts UTF-8 bytes and never cuts a character in half.
+ */
+export const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+// "2025-03-14T10:25" -> "20250314T102500", "2025-03-14" -> "20250314"
+const formatLocal = (local: string): string => {
+  const [date, time] = local.split('T');
+  return time ? `${date.replace(/-/g, '')}T${time.replace(':', '')}00` : date.replace(/-/g, '');
+};
+
+const formatUtc = (millis: number): string =>
+  new Date(millis).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+// FNV-1a, enough to tell trip events apart
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * VTIMEZONE for a zone, with one observance per offset change between from
+ * and to. Trips are short, so listing the actual transitions is simpler and
+ * more exact than deriving RRULEs.
+ */
+export const buildVTimezone = (zone: string, from: number, to: number): string[] => {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${zone}`];
+  const standardOffset = (millis: number) => {
+    const year = new Date(millis).getUTCFullYear();
+    return Math.min(getTimeZoneOffset(zone, Date.UTC(year, 0, 1)), getTimeZoneOffset(zone, Date.UTC(year, 6, 1)));
+  };
+  // Observance start is written in local time before the change
+  const observance = (offsetFrom: number, offsetTo: number, utc: number, localStart: string) => {
+    const kind = offsetTo > standardOffset(utc) ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`
+    );
+  };
+
+  let previous = getTimeZoneOffset(zone, from);
+  // Covers everything up to the first change in range
+  observance(previous, previous, from, '19700101T000000');
+
+  for (let day = from + DAY_MS; day <= to + DAY_MS; day += DAY_MS) {
+    const offset = getTimeZoneOffset(zone, day);
+    if (offset === previous) continue;
+
+    // Narrow the change down to the minute
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > 60_000) {
+      const mid = low + Math.floor((high - low) / 120_000) * 60_000;
+      if (getTimeZoneOffset(zone, mid) === previous) low = mid;
+      else high = mid;
+    }
+    observance(previous, offset, high, formatUtc(high + previous * 60_000).replace('Z', ''));
+    previous = offset;
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+/** RFC 5545 3.3.6 duration, e.g. "-PT3H", "-P1D" or "PT10H30M". */
+export const formatIcsDuration = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '';
+  let rest = Math.abs(Math.round(minutes));
+  if (rest > 0 && rest % 1440 === 0) return `${sign}P${rest / 1440}D`;
+  const hours = Math.floor(rest / 60);
+  rest %= 60;
+  return `${sign}PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+};
+
+/**
+ * One VALARM per reminder, relative to the start (departures) or the end
+ * (check-out) so calendars that ignore absolute triggers still ring. An
+ * all-day end is the check-out day's midnight, in the stay's own time.
+ */
+const alarmLines = (event: TripEvent, reminders: Reminder[]): string[] => {
+  const times = resolveEventTimes(event);
+  return reminders.flatMap(reminder => {
+    let trigger: string;
+    if (reminder.kind !== 'check-out') {
+      trigger = `TRIGGER:${formatIcsDuration((reminder.at - reminder.moment) / 60_000)}`;
+    } else {
+      const offset = times.allDay
+        ? (Date.parse(`${utcToZonedTime(reminder.at, times.endTimeZone)}Z`) - Date.parse(`${times.end}T00:00Z`)) / 60_000
+        : (reminder.at - zonedTimeToUtc(times.end, times.endTimeZone)) / 60_000;
+      trigger = `TRIGGER;RELATED=END:${formatIcsDuration(offset)}`;
+    }
+    return ['BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeIcsText(reminder.title)}`, trigger, 'END:VALARM'];
+  });
+};
+
+const eventLines = (event: TripEvent, uid: string, stamp: string, reminders: Reminder[] = []): string[] => {
+  const times = resolveEventTimes(event);
+  const dateLine = (name: string, local: string, zone?: string) => {
+    if (times.allDay) return `${name};VALUE=DATE:${formatLocal(local)}`;
+    // Without a known zone the time stays floating, as written in the booking
+    return zone ? `${name};TZID=${zone}:${formatLocal(local)}` : `${name}:${formatLocal(local)}`;
+  };
+
+  const description = [
+    `${event.type.toUpperCase()} - ${event.activity}`,
+    ...getEventDetailEntries(event).map(({ label, value }) => `${label}: ${value}`),
+    event.participants?.length ? `Travelers: ${formatParticipants(event.participants)}` : '',
+    event.note ? `Note: ${event.note}` : '',
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    dateLine('DTSTART', times.start, times.timeZone),
+    dateLine('DTEND', times.end, times.endTimeZone),
+    `SUMMARY:${escapeIcsText(event.activity)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    event.location ? `LOCATION:${escapeIcsText(event.location)}` : '',
+    `CATEGORIES:${event.type.toUpperCase()}`,
+    times.allDay ? 'TRANSP:TRANSPARENT' : '',
+    ...alarmLines(event, reminders),
+    'END:VEVENT',
+  ].filter(Boolean);
+};
+
+/**
+ * Builds a complete VCALENDAR for the events, CRLF-terminated and folded.
+ */
+export const buildIcsCalendar = (events: TripEvent[], options: IcsOptions = {}): string => {
+  const stamp = formatUtc((options.now ?? new Date()).getTime());
+
+  // Span covered by each zone, to list only the DST changes that matter
+  const zoneRanges = new Map<string, { from: number; to: number }>();
+  const cover = (zone: string | undefined, local: string) => {
+    if (!zone) return;
+    const instant = zonedTimeToUtc(local, zone);
+    const range = zoneRanges.get(zone);
+    zoneRanges.set(zone, {
+      from: Math.min(range?.from ?? instant, instant - DAY_MS),
+      to: Math.max(range?.to ?? instant, instant + DAY_MS),
+    });
+  };
+
+  const reminders = options.alarms ? buildReminders(events, options.alarms) : [];
+  const usedUids = new Map<string, number>();
+  const vevents = events.map((event, idx) => {
+    const times = resolveEventTimes(event);
+    if (!times.allDay) {
+      cover(times.timeZone, times.start);
+      cover(times.endTimeZone, times.end);
+    }
+
+    // Same event, same UID on every export, whatever was edited since. Events of
+    // trips saved before ids existed fall back to a hash; duplicates get a suffix
+    const base = event.id
+      ?? hashText([event.type, times.start, event.activity.trim().toLowerCase(), event.location.trim().toLowerCase()].join('|'));
+    const count = (usedUids.get(base) ?? 0) + 1;
+    usedUids.set(base, count);
+    const suffix = count > 1 ? `-${count}` : '';
+    // A UID taken from an imported calendar already names its domain
+    const uid = base.includes('@') ? base.replace('@', `${suffix}@`) : `${base}${suffix}@${UID_DOMAIN}`;
+
+    return eventLines(event, uid, stamp, reminders.filter(reminder => reminder.eventIndex === idx));
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.calendarName ? [`X-WR-CALNAME:${escapeIcsText(options.calendarName)}`] : []),
+    ...[...zoneRanges].flatMap(([zone, range]) => buildVTimezone(zone, range.from, range.to)),
+    ...vevents.flat(),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
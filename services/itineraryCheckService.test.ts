@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { TripEvent } from '../types';
+import { checkItinerary, IssueRule } from './itineraryCheckService';
+
+// Fills date and time from start, as normalizeEventTimes would
+const event = (fields: Partial<TripEvent> & Pick<TripEvent, 'type' | 'activity' | 'start'>): TripEvent => ({
+  date: fields.start.slice(0, 10),
+  time: fields.start.slice(11, 16),
+  location: '',
+  ...fields,
+} as TripEvent);
+
+const rules = (events: TripEvent[], rule: IssueRule) =>
+  checkItinerary(events).filter(issue => issue.rule === rule);
+
+// A long weekend in Rome, fully booked
+const ROME: TripEvent[] = [
+  event({ type: 'flight', activity: 'Flight AZ317', location: 'Paris CDG → Rome FCO', start: '2025-06-12T08:00', end: '2025-06-12T10:05', timeZone: 'Europe/Paris', endTimeZone: 'Europe/Rome' }),
+  event({ type: 'hotel', activity: 'Hotel Artemide', location: 'Rome', start: '2025-06-12', end: '2025-06-15', allDay: true, timeZone: 'Europe/Rome' }),
+  event({ type: 'activity', activity: 'Colosseum tour', location: 'Rome', start: '2025-06-13T09:00', end: '2025-06-13T12:00', timeZone: 'Europe/Rome' }),
+  event({ type: 'food', activity: 'Lunch at Roscioli', location: 'Rome', start: '2025-06-13T12:30', end: '2025-06-13T14:00', timeZone: 'Europe/Rome' }),
+  event({ type: 'flight', activity: 'Flight AZ318', location: 'Rome FCO → Paris CDG', start: '2025-06-15T18:00', end: '2025-06-15T20:10', timeZone: 'Europe/Rome', endTimeZone: 'Europe/Paris' }),
+];
+
+describe('checkItinerary', () => {
+  it('finds nothing wrong in a consistent trip', () => {
+    expect(checkItinerary(ROME)).toEqual([]);
+  });
+
+  describe('overlaps', () => {
+    it('flags an event starting before the previous one ends', () => {
+      const events = [...ROME];
+      events[3] = { ...events[3], start: '2025-06-13T11:30', time: '11:30' };
+
+      const [overlap, ...rest] = rules(events, 'overlap');
+      expect(rest).toEqual([]);
+      expect(overlap.eventIndexes).toEqual([2, 3]);
+      expect(overlap.message).toContain('"Lunch at Roscioli"');
+    });
+
+    it('leaves events without an end alone, since their length is unknown', () => {
+      const events = [...ROME];
+      events[2] = { ...events[2], end: undefined };
+      events[3] = { ...events[3], start: '2025-06-13T09:30', time: '09:30' };
+      expect(rules(events, 'overlap')).toEqual([]);
+    });
+  });
+
+  describe('gaps', () => {
+    it('flags a connection shorter than the minimum', () => {
+      const events = [
+        event({ type: 'flight', activity: 'Flight LH1035', location: 'Paris CDG → Frankfurt FRA', start: '2025-06-12T07:00', end: '2025-06-12T08:20', timeZone: 'Europe/Paris', endTimeZone: 'Europe/Berlin' }),
+        event({ type: 'flight', activity: 'Flight LH400', location: 'Frankfurt FRA → New York JFK', start: '2025-06-12T09:05', end: '2025-06-12T11:30', timeZone: 'Europe/Berlin', endTimeZone: 'America/New_York' }),
+      ];
+
+      const [connection] = rules(events, 'short-connection');
+      expect(connection.message).toContain('Only 45 min to connect');
+      expect(checkItinerary(events, { minConnectionMinutes: 30 }).filter(i => i.rule === 'short-connection')).toEqual([]);
+    });
+
+    it('flags flights that do not continue where the last one landed', () => {
+      const events = [...ROME];
+      events[4] = { ...events[4], location: 'Milan MXP → Paris CDG' };
+      expect(rules(events, 'route-mismatch')).toHaveLength(1);
+    });
+
+    it('does not link the last flight of a trip to the first of the next one', () => {
+      // A month later, from another airport and with nothing booked in between
+      const events = [
+        ...ROME,
+        event({ type: 'flight', activity: 'Flight TP435', location: 'Lyon LYS → Lisbon LIS', start: '2025-07-10T07:00', end: '2025-07-10T08:15', timeZone: 'Europe/Paris', endTimeZone: 'Europe/Lisbon' }),
+        event({ type: 'hotel', activity: 'Hotel Avenida Palace', location: 'Lisbon', start: '2025-07-10', end: '2025-07-13', allDay: true, timeZone: 'Europe/Lisbon' }),
+        event({ type: 'flight', activity: 'Flight TP436', location: 'Lisbon LIS → Lyon LYS', start: '2025-07-13T19:00', end: '2025-07-13T22:10', timeZone: 'Europe/Lisbon', endTimeZone: 'Europe/Paris' }),
+      ];
+      expect(rules(events, 'route-mismatch')).toEqual([]);
+      expect(rules(events, 'short-connection')).toEqual([]);
+
+      events[7] = { ...events[7], location: 'Porto OPO → Lyon LYS' };
+      expect(rules(events, 'route-mismatch')).toHaveLength(1);
+    });
+  });
+
+  describe('hotel nights', () => {
+    it('flags nights between the first and last day without a bed', () => {
+      const events = [...ROME];
+      events[1] = { ...events[1], end: '2025-06-14' };
+
+      const [missing, ...rest] = rules(events, 'missing-hotel');
+      expect(rest).toEqual([]);
+      expect(missing.message).toBe('No accommodation found for the night of Jun 14.');
+    });
+
+    it('pairs separate check-in and check-out events into one stay', () => {
+      const events: TripEvent[] = [
+        ...ROME.filter(e => e.type !== 'hotel'),
+        event({ type: 'hotel', activity: 'Check-in Hotel Artemide', start: '2025-06-12T15:00', timeZone: 'Europe/Rome' }),
+        event({ type: 'hotel', activity: 'Check-out Hotel Artemide', start: '2025-06-15T11:00', timeZone: 'Europe/Rome' }),
+      ];
+      expect(rules(events, 'missing-hotel')).toEqual([]);
+      expect(rules(events, 'checkout-before-checkin')).toEqual([]);
+    });
+
+    it('counts an overnight flight as a night', () => {
+      const events = [
+        event({ type: 'flight', activity: 'Flight AF22', location: 'Paris CDG → New York JFK', start: '2025-06-10T22:00', end: '2025-06-11T00:30', timeZone: 'Europe/Paris', endTimeZone: 'America/New_York' }),
+        event({ type: 'activity', activity: 'MoMA', location: 'New York', start: '2025-06-11T10:00', end: '2025-06-11T12:00', timeZone: 'America/New_York' }),
+      ];
+      expect(rules(events, 'missing-hotel')).toEqual([]);
+    });
+
+    it('flags a check-out that is not after check-in', () => {
+      const events = [...ROME];
+      events[1] = { ...events[1], end: '2025-06-12' };
+      expect(rules(events, 'checkout-before-checkin')).toHaveLength(1);
+    });
+  });
+
+  describe('time zones', () => {
+    it('compares times across zones as instants', () => {
+      // Lands 13:00 in New York, which is 18:00 in London
+      const events = [
+        event({ type: 'flight', activity: 'Flight BA117', location: 'London LHR → New York JFK', start: '2025-06-12T10:00', end: '2025-06-12T13:00', timeZone: 'Europe/London', endTimeZone: 'America/New_York' }),
+        event({ type: 'flight', activity: 'Flight AA1', location: 'New York JFK → Los Angeles LAX', start: '2025-06-12T14:30', end: '2025-06-12T17:45', timeZone: 'America/New_York', endTimeZone: 'America/Los_Angeles' }),
+      ];
+      expect(rules(events, 'short-connection')).toEqual([]);
+
+      events[1] = { ...events[1], start: '2025-06-12T13:30', time: '13:30' };
+      expect(rules(events, 'short-connection')[0].message).toContain('Only 30 min');
+    });
+
+    it('counts the hour lost when clocks go forward', () => {
+      // 01:30 to 03:15 on the wall clock, but only 45 min: 02:00 becomes 03:00 that night
+      const events = [
+        event({ type: 'flight', activity: 'Flight AF1', location: 'Nice NCE → Paris CDG', start: '2025-03-30T00:05', end: '2025-03-30T01:30', timeZone: 'Europe/Paris' }),
+        event({ type: 'flight', activity: 'Flight AF2', location: 'Paris CDG → Rome FCO', start: '2025-03-30T03:15', end: '2025-03-30T05:20', timeZone: 'Europe/Paris', endTimeZone: 'Europe/Rome' }),
+      ];
+      expect(rules(events, 'short-connection')[0].message).toContain('Only 45 min');
+    });
+
+    it('flags an overlap hidden by a zone change', () => {
+      // The Lisbon call ends at 11:00 Lisbon time, 12:00 in Madrid
+      const events = [
+        event({ type: 'activity', activity: 'Call from Lisbon', start: '2025-06-12T10:00', end: '2025-06-12T11:00', timeZone: 'Europe/Lisbon' }),
+        event({ type: 'activity', activity: 'Tour in Madrid', start: '2025-06-12T11:30', end: '2025-06-12T13:00', timeZone: 'Europe/Madrid' }),
+      ];
+      expect(rules(events, 'overlap')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { TripEvent } from '../types';
+import { ResolvedEventTimes, addDays, resolveEventTimes, zonedTimeToUtc } from './eventTimeService';
+import { getFlightRoute } from './eventDetailsService';
+import { AIRPORTS } from './geo/gazetteer';
+
+/**
+ * Rules that look for mistakes and gaps in an extracted itinerary: double
+ * bookings, tight connections, nights without a bed... Everything here is a
+ * pure function of the events, so fixtures can be checked without a model.
+ */
+
+export type IssueRule =
+  | 'overlap'
+  | 'short-connection'
+  | 'missing-hotel'
+  | 'checkout-before-checkin'
+  | 'route-mismatch';
+
+export interface ItineraryIssue {
+  id: string; // Stable across runs, usable as a React key
+  rule: IssueRule;
+  severity: 'warning' | 'info';
+  message: string;
+  eventIndexes: number[]; // Positions in the checked events array
+}
+
+export interface CheckOptions {
+  minConnectionMinutes?: number;
+}
+
+export const DEFAULT_MIN_CONNECTION_MINUTES = 60;
+// Flights further apart than this, with nothing booked in between, belong to separate trips
+const MAX_CONNECTION_MINUTES = 24 * 60;
+
+export interface CheckedEvent {
+  event: TripEvent;
+  index: number;
+  times: ResolvedEventTimes;
+  startsAt: number; // UTC millis
+  endsAt: number;
+  hasEnd: boolean; // False when the end is the one-hour default
+}
+
+export type ItineraryRule = (events: CheckedEvent[], options: Required<CheckOptions>) => ItineraryIssue[];
+
+const formatDate = (date: string) => {
+  const parsed = new Date(date.slice(0, 10) + 'T12:00:00'); // Noon to avoid timezone shifts
+  if (isNaN(parsed.getTime())) return date;
+  return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(parsed);
+};
+
+const formatWhen = (local: string) => local.length > 10 ? `${formatDate(local)}, ${local.slice(11)}` : formatDate(local);
+
+const byStart = (a: CheckedEvent, b: CheckedEvent) => a.startsAt - b.startsAt || a.index - b.index;
+
+const issue = (rule: IssueRule, severity: ItineraryIssue['severity'], message: string, events: CheckedEvent[], key = ''): ItineraryIssue => {
+  const eventIndexes = events.map(e => e.index);
+  return { id: `${rule}:${eventIndexes.join('-')}${key}`, rule, severity, message, eventIndexes };
+};
+
+// Airport codes and names of the same city compare equal ("LHR" / "London")
+const placeOf = (text: string): { city: string; airport?: string } => {
+  const code = text.match(/\b[A-Z]{3}\b/)?.[0];
+  const airport = code ? AIRPORTS.find(a => a.code === code) : undefined;
+  if (airport) return { city: airport.city.toLowerCase(), airport: airport.code };
+  return {
+    city: text
+      .replace(/\(.*?\)/g, '')
+      .replace(/\b(international|intl\.?|airport)\b/gi, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase(),
+  };
+};
+
+const flights = (events: CheckedEvent[]) => events.filter(e => e.event.type === 'flight').sort(byStart);
+
+// By day, so the stay that starts the next trip on its first day doesn't link the two
+const isSeparateTrip = (previous: CheckedEvent, next: CheckedEvent, events: CheckedEvent[]) =>
+  (next.startsAt - previous.endsAt) / 60_000 > MAX_CONNECTION_MINUTES &&
+  !events.some(e =>
+    e.times.start.slice(0, 10) < next.times.start.slice(0, 10) && e.times.end.slice(0, 10) > previous.times.end.slice(0, 10)
+  );
+
+export const checkOverlaps: ItineraryRule = (events) => {
+  // Hotel stays overlap everything by design; flight pairs are checked as connections
+  const timed = events.filter(e => !e.times.allDay && e.event.type !== 'hotel').sort(byStart);
+  const issues: ItineraryIssue[] = [];
+
+  timed.forEach((a, i) => {
+    if (!a.hasEnd) return; // Without an end we don't know how long it lasts
+    timed.slice(i + 1).forEach(b => {
+      if (b.startsAt >= a.endsAt) return;
+      if (a.event.type === 'flight' && b.event.type === 'flight') return;
+      issues.push(issue('overlap', 'warning',
+        `"${b.event.activity}" (${formatWhen(b.times.start)}) starts before "${a.event.activity}" ends (${formatWhen(a.times.end)}).`,
+        [a, b]));
+    });
+  });
+  return issues;
+};
+
+export const checkConnections: ItineraryRule = (events, { minConnectionMinutes }) => {
+  const legs = flights(events);
+  const issues: ItineraryIssue[] = [];
+
+  legs.slice(1).forEach((next, i) => {
+    const previous = legs[i];
+    if (!previous.hasEnd) return;
+    const minutes = Math.round((next.startsAt - previous.endsAt) / 60_000);
+    const where = getFlightRoute(previous.event).to;
+
+    if (minutes < 0) {
+      issues.push(issue('short-connection', 'warning',
+        `"${next.event.activity}" departs ${formatWhen(next.times.start)}, before "${previous.event.activity}" lands (${formatWhen(previous.times.end)}).`,
+        [previous, next]));
+    } else if (minutes < minConnectionMinutes) {
+      issues.push(issue('short-connection', 'warning',
+        `Only ${minutes} min to connect${where ? ` in ${where}` : ''} between "${previous.event.activity}" and "${next.event.activity}".`,
+        [previous, next]));
+    }
+  });
+  return issues;
+};
+
+interface Stay {
+  checkIn: string; // YYYY-MM-DD
+  checkOut: string; // Exclusive
+  events: CheckedEvent[];
+}
+
+// Hotels come either as one event spanning the stay or as separate
+// check-in / check-out events; both are turned into stays here.
+const collectStays = (events: CheckedEvent[]) => {
+  const stays: Stay[] = [];
+  const open: { checkIn: string; event: CheckedEvent }[] = [];
+  const orphanCheckOuts: CheckedEvent[] = [];
+
+  events.filter(e => e.event.type === 'hotel').sort(byStart).forEach(e => {
+    const date = e.times.start.slice(0, 10);
+    if (e.event.end) {
+      stays.push({ checkIn: date, checkOut: e.event.end.slice(0, 10), events: [e] });
+    } else if (/check[\s-]?out/i.test(e.event.activity)) {
+      const opening = open.pop();
+      if (opening) stays.push({ checkIn: opening.checkIn, checkOut: date, events: [opening.event, e] });
+      else orphanCheckOuts.push(e);
+    } else {
+      open.push({ checkIn: date, event: e });
+    }
+  });
+  // Check-ins without a known check-out count as one night
+  open.forEach(({ checkIn, event }) => stays.push({ checkIn, checkOut: addDays(checkIn, 1), events: [event] }));
+
+  return { stays, orphanCheckOuts };
+};
+
+export const checkHotelDates: ItineraryRule = (events) => {
+  const { stays, orphanCheckOuts } = collectStays(events);
+  const issues: ItineraryIssue[] = [];
+
+  stays.filter(stay => stay.checkOut <= stay.checkIn).forEach(stay => {
+    issues.push(issue('checkout-before-checkin', 'warning',
+      `Check-out (${formatDate(stay.checkOut)}) is not after check-in (${formatDate(stay.checkIn)}) for "${stay.events[0].event.activity}".`,
+      stay.events));
+  });
+
+  // A check-out with no earlier check-in, while one comes later
+  orphanCheckOuts.forEach(checkOut => {
+    const laterCheckIn = events.find(e =>
+      e.event.type === 'hotel' && e.startsAt > checkOut.startsAt && !/check[\s-]?out/i.test(e.event.activity)
+    );
+    if (laterCheckIn) {
+      issues.push(issue('checkout-before-checkin', 'warning',
+        `"${checkOut.event.activity}" (${formatDate(checkOut.times.start)}) comes before "${laterCheckIn.event.activity}" (${formatDate(laterCheckIn.times.start)}).`,
+        [checkOut, laterCheckIn]));
+    }
+  });
+  return issues;
+};
+
+export const checkNightsWithoutHotel: ItineraryRule = (events) => {
+  if (events.length === 0) return [];
+  const { stays } = collectStays(events);
+  const dates = events.map(e => e.times.start.slice(0, 10)).sort();
+  const firstDay = dates[0];
+  const lastDay = dates[dates.length - 1];
+
+  const covered = new Set<string>();
+  const cover = (from: string, to: string) => {
+    for (let night = from; night < to; night = addDays(night, 1)) covered.add(night);
+  };
+  stays.forEach(stay => cover(stay.checkIn, stay.checkOut));
+  // Overnight flights, night trains and ferries count as a night
+  events.filter(e => e.hasEnd && !e.times.allDay).forEach(e => cover(e.times.start.slice(0, 10), e.times.end.slice(0, 10)));
+
+  const issues: ItineraryIssue[] = [];
+  let run: string[] = [];
+  const flush = () => {
+    if (run.length === 0) return;
+    // Shown next to the last thing planned on the first uncovered day
+    const anchor = events.filter(e => e.times.start.slice(0, 10) <= run[0]).sort(byStart).pop();
+    const range = run.length === 1 ? `the night of ${formatDate(run[0])}` : `the nights of ${formatDate(run[0])} – ${formatDate(run[run.length - 1])}`;
+    issues.push(issue('missing-hotel', 'warning',
+      `No accommodation found for ${range}.`, anchor ? [anchor] : [], `@${run[0]}`));
+    run = [];
+  };
+
+  for (let night = firstDay; night < lastDay; night = addDays(night, 1)) {
+    if (covered.has(night)) flush();
+    else run.push(night);
+  }
+  flush();
+  return issues;
+};
+
+export const checkRouteContinuity: ItineraryRule = (events) => {
+  const legs = flights(events);
+  const issues: ItineraryIssue[] = [];
+
+  legs.slice(1).forEach((next, i) => {
+    const previous = legs[i];
+    // The next trip may well start from another airport
+    if (isSeparateTrip(previous, next, events)) return;
+    const arrival = getFlightRoute(previous.event).to;
+    const departure = getFlightRoute(next.event).from;
+    if (!arrival || !departure) return;
+
+    const landed = placeOf(arrival);
+    const leaving = placeOf(departure);
+    if (landed.city === leaving.city) {
+      if (landed.airport && leaving.airport && landed.airport !== leaving.airport) {
+        issues.push(issue('route-mismatch', 'info',
+          `Airport change: you land at ${landed.airport} but the next flight leaves from ${leaving.airport}.`,
+          [previous, next]));
+      }
+      return;
+    }
+
+    // A train or drive booked in between explains the gap
+    const bridged = events.some(e =>
+      e.startsAt > previous.startsAt && e.startsAt < next.startsAt &&
+      `${e.event.activity} ${e.event.location}`.toLowerCase().includes(leaving.city)
+    );
+    if (!bridged) {
+      issues.push(issue('route-mismatch', 'warning',
+        `You land in ${arrival} (${formatDate(previous.times.end)}) but the next flight leaves from ${departure} (${formatDate(next.times.start)}).`,
+        [previous, next]));
+    }
+  });
+  return issues;
+};
+
+export const DEFAULT_RULES: ItineraryRule[] = [
+  checkOverlaps,
+  checkConnections,
+  checkNightsWithoutHotel,
+  checkHotelDates,
+  checkRouteContinuity,
+];
+
+/**
+ * Runs the rules over a trip's events. Issue event indexes refer to the
+ * array as passed in, whatever its order.
+ */
+export const checkItinerary = (
+  events: TripEvent[],
+  options: CheckOptions = {},
+  rules: ItineraryRule[] = DEFAULT_RULES
+): ItineraryIssue[] => {
+  const checked: CheckedEvent[] = events.map((event, index) => {
+    const times = resolveEventTimes(event);
+    return {
+      event,
+      index,
+      times,
+      startsAt: zonedTimeToUtc(times.start, times.timeZone),
+      endsAt: zonedTimeToUtc(times.end, times.endTimeZone),
+      hasEnd: !!event.end && event.end.slice(0, 16) === times.end,
+    };
+  });
+  const resolvedOptions = { minConnectionMinutes: options.minConnectionMinutes ?? DEFAULT_MIN_CONNECTION_MINUTES };
+  return rules.flatMap(rule => rule(checked, resolvedOptions));
+};
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UploadedFile } from '../types';
+import { DEFAULT_SETTINGS, createProvider, getProvider, setProvider } from './llmProvider';
+import { buildMockValue, createMockProvider } from './providers/mockProvider';
+import { createItineraryChat, createModelEmbedder, generateTripSummary, streamChatMessage } from './geminiService';
+
+const FILE: UploadedFile = {
+  name: 'booking.pdf',
+  content: '--- Page 1 ---\nFlight AF1234 Paris CDG → Rome FCO, 20 March 2025 at 10:00.',
+  pages: [{ pageNumber: 1, text: 'Flight AF1234 Paris CDG → Rome FCO, 20 March 2025 at 10:00.' }],
+  size: 64,
+  pageCount: 1,
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('setProvider', () => {
+  it('sends every later model call to the provider set for the test', async () => {
+    const mock = createMockProvider();
+    setProvider(mock);
+    expect(getProvider()).toBe(mock);
+
+    let answer = '';
+    for await (const text of streamChatMessage(createItineraryChat(), 'When do we land?')) answer = text;
+    expect(answer).toBe('Mock answer to: When do we land?');
+
+    const embedder = createModelEmbedder();
+    expect(await embedder.embedQuery('Rome')).toEqual(await embedder.embedQuery('Rome'));
+  });
+
+  it('runs the whole summary offline', async () => {
+    // Placeholders everywhere, except an overview worth keeping
+    setProvider(createMockProvider({
+      json: (prompt, schema) => (schema.properties?.suggestedQuestions
+        ? { title: 'Rome', destination: 'Rome', dates: 'March 2025', suggestedQuestions: ['When do we land?'] }
+        : buildMockValue(schema)),
+    }));
+    const progress: number[] = [];
+
+    const summary = await generateTripSummary([FILE], { onProgress: ({ completed }) => progress.push(completed) });
+    expect(summary).toMatchObject({ title: 'Rome', events: [], checklist: [] });
+    expect(summary.analysis).toBeUndefined();
+    expect(progress.at(-1)).toBe(3);
+  });
+});
+
+describe('createProvider', () => {
+  const openAICompatible = (embeddingModel: string) =>
+    createProvider({ ...DEFAULT_SETTINGS, provider: 'openai-compatible', model: 'llama3.1', embeddingModel });
+
+  it('embeds with the embedding model, not the chat model', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ data: [{ index: 0, embedding: [1, 0] }] })));
+    vi.stubGlobal('fetch', fetch);
+
+    expect(await openAICompatible('nomic-embed-text').embed!(['Rome'], 'query')).toEqual([[1, 0]]);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/embeddings');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'nomic-embed-text', input: ['Rome'] });
+  });
+
+  it('leaves embedding to the browser without an embedding model', () => {
+    expect(openAICompatible(' ').embed).toBeUndefined();
+  });
+
+  it('sends the app server at most 100 texts per embedding request', async () => {
+    const fetch = vi.fn(async (url: string, init: RequestInit) => {
+      const { texts } = JSON.parse(init.body as string);
+      return new Response(JSON.stringify({ vectors: texts.map((text: string) => [Number(text)]) }));
+    });
+    vi.stubGlobal('fetch', fetch);
+    const texts = Array.from({ length: 250 }, (_, i) => String(i));
+
+    const vectors = await createProvider(DEFAULT_SETTINGS).embed!(texts, 'document');
+
+    expect(fetch.mock.calls.map(([, init]) => JSON.parse(init.body as string).texts.length)).toEqual([100, 100, 50]);
+    expect(vectors).toEqual(texts.map(text => [Number(text)]));
+  });
+});
@@ -0,0 +1,154 @@
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createProxyProvider } from './providers/proxyProvider';
+
+/**
+ * Provider-neutral subset of JSON Schema used for structured output.
+ * Each provider translates it to its own dialect.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatOptions {
+  systemInstruction: string;
+  temperature?: number;
+  history?: ChatTurn[];
+}
+
+/**
+ * A stateful conversation. Only completed turns are added to its history,
+ * so an aborted stream leaves the session as it was before the question.
+ * The history keeps `question` when given instead of the message: a turn's
+ * message may carry passages that only that turn needs.
+ */
+export interface ChatSession {
+  send: (message: string, signal?: AbortSignal, question?: string) => Promise<string>;
+  /** Yields text deltas as they arrive. */
+  stream: (message: string, signal?: AbortSignal, question?: string) => AsyncGenerator<string>;
+}
+
+export type EmbeddingTask = 'document' | 'query';
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  /** Returns the raw JSON text produced for the schema. */
+  generateJson: (prompt: string, schema: JsonSchema, signal?: AbortSignal) => Promise<string>;
+  createChat: (options: ChatOptions) => ChatSession;
+  /** Optional: providers without an embedding endpoint fall back to local embeddings. */
+  embed?: (texts: string[], task: EmbeddingTask) => Promise<number[][]>;
+}
+
+export type ProviderId = 'proxy' | 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string; // Ignored by the proxy, whose server picks the model
+  serverUrl: string; // Only used by the proxy provider
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  embeddingModel: string; // Only used by the OpenAI-compatible provider; empty to index documents locally
+  apiKey: string; // Used by direct Gemini and the OpenAI-compatible provider; the proxy keeps its own
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'proxy': 'App server (API key stays on the server)',
+  'gemini': 'Google Gemini (direct, with your own key)',
+  'openai-compatible': 'OpenAI-compatible (Ollama, llama.cpp, ...)',
+  'mock': 'Mock (offline, deterministic)',
+};
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  'proxy': '',
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock-1',
+};
+
+// Ollama's usual embedding model; chat models mostly can't embed
+export const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+// Same origin by default: the server runs inside `vite` / `vite preview`
+export const DEFAULT_SERVER_URL = import.meta.env?.VITE_API_BASE_URL || '/api';
+
+export const DEFAULT_SETTINGS: ProviderSettings = {
+  provider: 'proxy',
+  model: DEFAULT_MODELS.proxy,
+  serverUrl: DEFAULT_SERVER_URL,
+  baseUrl: 'http://localhost:11434/v1',
+  embeddingModel: DEFAULT_EMBEDDING_MODEL,
+  apiKey: '',
+};
+
+const SETTINGS_KEY = 'wanderlust-ai:provider-settings';
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const settings: ProviderSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    // Gemini used to get its key from the build; without one of its own it now goes through the server
+    if (settings.provider === 'gemini' && !settings.apiKey) {
+      return { ...settings, provider: 'proxy', model: DEFAULT_MODELS.proxy };
+    }
+    return settings;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const createProvider = (settings: ProviderSettings): LLMProvider => {
+  const model = settings.model.trim() || DEFAULT_MODELS[settings.provider];
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider({ model, apiKey: settings.apiKey });
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: settings.baseUrl,
+        model,
+        embeddingModel: settings.embeddingModel.trim() || undefined,
+        apiKey: settings.apiKey,
+      });
+    case 'mock':
+      return createMockProvider({ model });
+    default:
+      return createProxyProvider({ baseUrl: settings.serverUrl || DEFAULT_SERVER_URL });
+  }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(loadProviderSettings());
+  }
+  return activeProvider;
+};
+
+/**
+ * Switches the provider used by every later model call. Existing chat
+ * sessions keep talking to the provider they were created with.
+ */
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  activeProvider = createProvider(settings);
+};
+
+/**
+ * Overrides the active provider without touching saved settings, e.g. to run
+ * against the mock provider in tests.
+ */
+export const setProvider = (provider: LLMProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,52 @@
+// Tesseract.js is loaded via CDN in index.html, like PDF.js, and exposed as a global.
+// Its worker and the language data are only downloaded on first use.
+declare global {
+  interface Window {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    Tesseract: any;
+  }
+}
+
+export type OcrProgressHandler = (progress: number) => void; // 0..1 for the current image
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let workerPromise: Promise<any> | null = null;
+let currentProgressHandler: OcrProgressHandler | null = null;
+
+const getWorker = () => {
+  if (!workerPromise) {
+    if (!window.Tesseract) {
+      throw new Error("Tesseract.js library not loaded");
+    }
+    workerPromise = window.Tesseract.createWorker('eng', 1, {
+      // The logger is fixed per worker, so route it to whichever page is being read
+      logger: (message: { status: string; progress: number }) => {
+        if (message.status === 'recognizing text') {
+          currentProgressHandler?.(message.progress);
+        }
+      },
+    }).catch((error: unknown) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+/**
+ * Runs OCR on a rendered page. Calls are serialized by the single worker,
+ * which is also what keeps memory in check on large scans.
+ */
+export const recognizeImage = async (
+  image: HTMLCanvasElement | Blob,
+  onProgress?: OcrProgressHandler
+): Promise<string> => {
+  const worker = await getWorker();
+  currentProgressHandler = onProgress ?? null;
+  try {
+    const { data } = await worker.recognize(image);
+    return (data?.text ?? '').replace(/[ \t]+\n/g, '\n').trim();
+  } finally {
+    currentProgressHandler = null;
+  }
+};
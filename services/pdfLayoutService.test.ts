@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { layoutPageText, PdfTextItem } from './pdfLayoutService';
+
+// A text item at (x, y) in PDF space, about half the font size wide per character
+const item = (str: string, x: number, y: number, size = 10): PdfTextItem => ({
+  str,
+  transform: [size, 0, 0, size, x, y],
+  width: str.length * size * 0.5,
+  height: size,
+});
+
+const row = (y: number, ...cells: string[]) => cells.map((text, i) => item(text, 50 + i * 100, y));
+
+describe('layoutPageText', () => {
+  it('renders a flight table with each time on the row of its own leg', () => {
+    const [header, first, second] = [
+      row(700, 'Flight', 'From', 'To', 'Departure', 'Arrival'),
+      row(685, 'AF1234', 'CDG', 'FCO', '10:00', '12:05'),
+      row(670, 'AZ5678', 'FCO', 'ATH', '14:30', '17:45'),
+    ];
+    // The times come last in the stream, and a little off the baseline
+    const times = [...first.slice(3), ...second.slice(3)].map(time => ({
+      ...time,
+      transform: [10, 0, 0, 10, time.transform[4], time.transform[5] - 1],
+    }));
+
+    const text = layoutPageText([
+      item('Your itinerary', 50, 740, 14),
+      ...header,
+      ...first.slice(0, 3),
+      ...second.slice(0, 3),
+      ...times,
+    ]);
+
+    expect(text).toBe([
+      'Your itinerary',
+      '',
+      '| Flight | From | To | Departure | Arrival |',
+      '| --- | --- | --- | --- | --- |',
+      '| AF1234 | CDG | FCO | 10:00 | 12:05 |',
+      '| AZ5678 | FCO | ATH | 14:30 | 17:45 |',
+    ].join('\n'));
+  });
+
+  it('reads two columns of prose one after the other, not as a table', () => {
+    const left = [
+      'Check-in opens at 14:00 on the day of arrival.',
+      'Late arrivals should let the front desk know.',
+      'Breakfast is served from 07:00 until 10:30.',
+    ];
+    const right = [
+      'Check-out is at 11:00, luggage can be stored.',
+      'The spa is open daily from 09:00 to 21:00.',
+      'Parking is available for 25 EUR per night.',
+    ];
+    const items = left.flatMap((text, i) => [item(text, 50, 700 - i * 12), item(right[i], 320, 700 - i * 12)]);
+
+    const text = layoutPageText(items);
+
+    expect(text).not.toContain('|');
+    expect(text).toBe([...left, '', ...right].join('\n'));
+  });
+
+  it('keeps a lone label and value on one line', () => {
+    expect(layoutPageText([item('Booking ref', 50, 700), item('ABC123', 250, 700)])).toBe('Booking ref   ABC123');
+  });
+
+  it('joins the words of a line split into several items', () => {
+    expect(layoutPageText([item('Hotel', 50, 700), item('Artemide', 78, 700), item(', Rome', 118, 700)])).toBe('Hotel Artemide, Rome');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Rebuilds readable page text from PDF.js text items using their positions.
+ * Booking confirmations lay flights and rooms out as tables; joining the
+ * items in stream order runs flight numbers, times and airports together,
+ * so items are grouped into lines, lines into cells, and aligned rows into
+ * markdown tables.
+ */
+
+// The subset of a PDF.js TextItem used here. transform is [a, b, c, d, x, y].
+export interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface Fragment {
+  text: string;
+  x: number;
+  y: number;
+  right: number;
+  size: number; // Font size, from the item's height or its transform
+}
+
+interface Cell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  cells: Cell[];
+}
+
+// Gaps are measured in multiples of the font size
+const SAME_LINE_TOLERANCE = 0.5;
+const WORD_GAP = 0.15;
+const CELL_GAP = 1.5;
+const PARAGRAPH_GAP = 1.8;
+const TABLE_ROW_GAP = 2.5;
+// Two long cells per line read as a two-column page, not a table
+const PROSE_CELL_CHARS = 30;
+
+const toFragment = (item: PdfTextItem): Fragment | null => {
+  if (!item.str || !item.str.trim() || !item.transform) return null;
+  const [a, b, , d, x, y] = item.transform;
+  const size = Math.abs(item.height) || Math.hypot(b, d) || Math.abs(a) || 10;
+  return { text: item.str, x, y, right: x + (item.width || 0), size };
+};
+
+const groupLines = (fragments: Fragment[]): Fragment[][] => {
+  // PDF space starts at the bottom of the page, so higher y reads first
+  const sorted = [...fragments].sort((p, q) => q.y - p.y || p.x - q.x);
+  const lines: Fragment[][] = [];
+
+  sorted.forEach(fragment => {
+    const current = lines[lines.length - 1];
+    const anchor = current?.[0];
+    if (anchor && Math.abs(anchor.y - fragment.y) <= Math.max(anchor.size, fragment.size) * SAME_LINE_TOLERANCE) {
+      current.push(fragment);
+    } else {
+      lines.push([fragment]);
+    }
+  });
+
+  return lines.map(line => line.sort((p, q) => p.x - q.x));
+};
+
+const toLine = (fragments: Fragment[]): Line => {
+  const size = Math.max(...fragments.map(f => f.size));
+  const cells: Cell[] = [];
+
+  fragments.forEach(fragment => {
+    const cell = cells[cells.length - 1];
+    const gap = cell ? fragment.x - cell.right : Infinity;
+
+    if (gap > size * CELL_GAP) {
+      cells.push({ text: fragment.text.trim(), x: fragment.x, right: fragment.right });
+      return;
+    }
+    const needsSpace = gap > size * WORD_GAP && !cell.text.endsWith(' ') && !fragment.text.startsWith(' ');
+    cell.text = `${cell.text}${needsSpace ? ' ' : ''}${fragment.text}`.replace(/\s+/g, ' ').trim();
+    cell.right = Math.max(cell.right, fragment.right);
+  });
+
+  return { y: fragments[0].y, size, cells };
+};
+
+// Column bands: cell extents of every row merged wherever they overlap
+const findColumns = (rows: Line[]): { x: number; right: number }[] => {
+  const spans = rows.flatMap(row => row.cells.map(c => ({ x: c.x, right: c.right }))).sort((p, q) => p.x - q.x);
+  const columns: { x: number; right: number }[] = [];
+  spans.forEach(span => {
+    const last = columns[columns.length - 1];
+    if (last && span.x <= last.right) last.right = Math.max(last.right, span.right);
+    else columns.push({ ...span });
+  });
+  return columns;
+};
+
+const escapeCell = (text: string) => text.replace(/\|/g, '/');
+
+const renderTable = (rows: Line[]): string | null => {
+  const columns = findColumns(rows);
+  if (columns.length < 2) return null;
+
+  const grid = rows.map(row => {
+    const cells: string[] = columns.map(() => '');
+    row.cells.forEach(cell => {
+      const index = columns.findIndex(c => cell.x <= c.right && cell.right >= c.x);
+      cells[index] = [cells[index], escapeCell(cell.text)].filter(Boolean).join(' ');
+    });
+    return cells;
+  });
+
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [line(grid[0]), line(columns.map(() => '---')), ...grid.slice(1).map(line)].join('\n');
+};
+
+const isProseColumns = (rows: Line[]): boolean =>
+  rows.every(row => row.cells.length === 2) &&
+  rows.flatMap(row => row.cells).reduce((sum, c) => sum + c.text.length, 0) / (rows.length * 2) >= PROSE_CELL_CHARS;
+
+const renderBlock = (rows: Line[]): string => {
+  if (rows.length >= 2) {
+    // Newspaper-style columns: read the left column down, then the right one
+    if (isProseColumns(rows)) {
+      return [0, 1].map(col => rows.map(row => row.cells[col].text).join('\n')).join('\n\n');
+    }
+    const table = renderTable(rows);
+    if (table) return table;
+  }
+  // A lone row with gaps is usually label/value pairs ("Booking ref    ABC123")
+  return rows.map(row => row.cells.map(c => c.text).join('   ')).join('\n');
+};
+
+/**
+ * Page text in reading order: one line per visual line, a blank line between
+ * paragraphs, and runs of multi-cell rows rendered as markdown tables.
+ */
+export const layoutPageText = (items: PdfTextItem[]): string => {
+  const fragments = items.map(toFragment).filter((f): f is Fragment => f !== null);
+  if (fragments.length === 0) return '';
+
+  const lines = groupLines(fragments).map(toLine);
+  const blocks: string[] = [];
+  let pending: Line[] = []; // Consecutive multi-cell rows, possibly a table
+  let previous: Line | null = null;
+
+  const flush = () => {
+    if (pending.length > 0) {
+      const block = renderBlock(pending);
+      // Markdown tables need blank lines around them
+      blocks.push(...(block.startsWith('|') ? ['', block, ''] : [block]));
+    }
+    pending = [];
+  };
+
+  lines.forEach(line => {
+    const gap = previous ? previous.y - line.y : 0;
+    const isFarBelow = previous !== null && gap > Math.max(previous.size, line.size) * PARAGRAPH_GAP;
+
+    if (line.cells.length >= 2) {
+      const lastRow = pending[pending.length - 1];
+      if (lastRow && lastRow.y - line.y > Math.max(lastRow.size, line.size) * TABLE_ROW_GAP) flush();
+      if (pending.length === 0 && isFarBelow) blocks.push('');
+      pending.push(line);
+    } else {
+      flush();
+      if (isFarBelow) blocks.push('');
+      blocks.push(line.cells[0].text);
+    }
+    previous = line;
+  });
+  flush();
+
+  return blocks
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
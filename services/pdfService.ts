@@ -1,4 +1,6 @@
-import { UploadedFile } from '../types';
+import { ExtractionProgress, PageText, UploadedFile } from '../types';
+import { recognizeImage } from './ocrService';
+import { layoutPageText } from './pdfLayoutService';
 
 // We declare the global window object to access the PDF.js library loaded via CDN in index.html
 // This avoids complex build configuration for pdf.worker.js in this specific environment
@@ -8,7 +10,28 @@ declare global {
   }
 }
 
-export const extractTextFromPdf = async (file: File): Promise<UploadedFile> => {
+// Pages with less real text than this are treated as scans and sent to OCR
+const MIN_TEXT_CHARS = 25;
+const OCR_RENDER_SCALE = 2; // ~150 DPI for a typical A4 page, enough for small print
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const renderPageToCanvas = async (page: any): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas 2D context unavailable");
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+export const extractTextFromPdf = async (
+  file: File,
+  onProgress?: (progress: ExtractionProgress) => void
+): Promise<UploadedFile> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -27,21 +50,47 @@ export const extractTextFromPdf = async (file: File): Promise<UploadedFile> => {
         const pdf = await loadingTask.promise;
 
         let fullText = '';
+        const pages: PageText[] = [];
         const totalPages = pdf.numPages;
 
         for (let i = 1; i <= totalPages; i++) {
           const page = await pdf.getPage(i);
           const textContent = await page.getTextContent();
-          const pageText = textContent.items
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            .map((item: any) => item.str)
-            .join(' ');
+          // Rebuilt from item positions so tables keep their rows and columns
+          let pageText = layoutPageText(textContent.items);
+          let isOcr = false;
+
+          onProgress?.({ fileName: file.name, page: i, totalPages, stage: 'text' });
+
+          // Scanned boarding passes and photographed vouchers have no text layer
+          if (pageText.replace(/\s+/g, '').length < MIN_TEXT_CHARS) {
+            try {
+              onProgress?.({ fileName: file.name, page: i, totalPages, stage: 'ocr', ocrProgress: 0 });
+              const canvas = await renderPageToCanvas(page);
+              const ocrText = await recognizeImage(canvas, (ocrProgress) =>
+                onProgress?.({ fileName: file.name, page: i, totalPages, stage: 'ocr', ocrProgress })
+              );
+              // Release the bitmap right away, scans can be large
+              canvas.width = 0;
+              canvas.height = 0;
+
+              if (ocrText.length > pageText.trim().length) {
+                pageText = ocrText;
+                isOcr = true;
+              }
+            } catch (ocrError) {
+              console.warn(`OCR failed for page ${i} of ${file.name}`, ocrError);
+            }
+          }
+
+          pages.push({ pageNumber: i, text: pageText, isOcr });
           fullText += `--- Page ${i} ---\n${pageText}\n\n`;
         }
 
         resolve({
           name: file.name,
           content: fullText,
+          pages,
           size: file.size,
           pageCount: totalPages,
         });
@@ -0,0 +1,122 @@
+import { GoogleGenAI, Type, Schema, Content, GenerateContentResponse } from "@google/genai";
+import { ChatSession, JsonSchema, LLMProvider } from "../llmProvider";
+import { createModelError } from "../requestService";
+
+// One client per key; the proxy server and the settings panel each bring their own
+const aiInstances = new Map<string, GoogleGenAI>();
+
+const getAIInstance = (apiKey: string | undefined): GoogleGenAI => {
+  if (!apiKey) {
+    throw new Error("API Key is missing. Set GEMINI_API_KEY on the server, or enter a key in Settings.");
+  }
+  let instance = aiInstances.get(apiKey);
+  if (!instance) {
+    instance = new GoogleGenAI({ apiKey });
+    aiInstances.set(apiKey, instance);
+  }
+  return instance;
+};
+
+const EMBEDDING_MODEL = 'text-embedding-004';
+const EMBEDDING_BATCH_SIZE = 100; // API limit per batch request
+
+// Gemini's schema dialect is JSON Schema with upper-case type names
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+// Blocked responses come back without text rather than as an error
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT' || finishReason === 'BLOCKLIST') {
+    throw createModelError('safety', `Response blocked by Gemini (${blockReason ?? finishReason})`);
+  }
+};
+
+export const createGeminiProvider = ({ model, apiKey }: { model: string; apiKey?: string }): LLMProvider => ({
+  id: 'gemini',
+  model,
+
+  generateJson: async (prompt, schema, signal) => {
+    const response = await getAIInstance(apiKey).models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(schema),
+        abortSignal: signal,
+      }
+    });
+
+    throwIfBlocked(response);
+    const text = response.text;
+    if (!text) throw new Error("No JSON generated");
+    return text;
+  },
+
+  createChat: ({ systemInstruction, temperature, history = [] }): ChatSession => {
+    // The SDK's own chats record the message sent; the history is kept here
+    // instead, so a turn can be recorded as its question
+    const turns: Content[] = history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+    const request = (message: string, signal?: AbortSignal) => ({
+      model,
+      contents: [...turns, { role: 'user', parts: [{ text: message }] }],
+      config: { systemInstruction, temperature, abortSignal: signal },
+    });
+    const record = (question: string, text: string) => {
+      turns.push({ role: 'user', parts: [{ text: question }] }, { role: 'model', parts: [{ text }] });
+    };
+
+    return {
+      send: async (message, signal, question = message) => {
+        const result = await getAIInstance(apiKey).models.generateContent(request(message, signal));
+        throwIfBlocked(result);
+        const text = result.text ?? '';
+        if (text) record(question, text);
+        return text;
+      },
+      stream: async function* (message, signal, question = message) {
+        const stream = await getAIInstance(apiKey).models.generateContentStream(request(message, signal));
+        let text = '';
+        for await (const chunk of stream) {
+          if (signal?.aborted) return;
+          throwIfBlocked(chunk);
+          if (chunk.text) {
+            text += chunk.text;
+            yield chunk.text;
+          }
+        }
+        if (text) record(question, text);
+      },
+    };
+  },
+
+  embed: async (texts, task) => {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const response = await getAIInstance(apiKey).models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: batch,
+        config: { taskType: task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT' },
+      });
+
+      const embeddings = response.embeddings ?? [];
+      if (embeddings.length !== batch.length) {
+        throw new Error("Embedding response size does not match the request");
+      }
+      embeddings.forEach(e => vectors.push(e.values ?? []));
+    }
+
+    return vectors;
+  },
+});
@@ -0,0 +1,79 @@
+import { ChatSession, ChatTurn, JsonSchema, LLMProvider } from '../llmProvider';
+import { createHashEmbedder } from '../retrievalService';
+
+interface MockProviderOptions {
+  model?: string;
+  /** Custom JSON for generateJson; defaults to a minimal value matching the schema. */
+  json?: (prompt: string, schema: JsonSchema) => unknown;
+  /** Custom chat reply; defaults to echoing the question. */
+  reply?: (message: string, history: ChatTurn[]) => string;
+}
+
+/**
+ * Builds the smallest value that satisfies a schema: first enum value,
+ * empty arrays, and every property (required or not) filled in.
+ */
+export const buildMockValue = (schema: JsonSchema, name = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, buildMockValue(value, key)])
+      );
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return schema.enum?.[0] ?? `Mock ${name}`;
+  }
+};
+
+// The last line of a retrieval prompt is the user's question
+const extractQuestion = (message: string): string =>
+  message.match(/QUESTION:\s*([\s\S]*)$/)?.[1].trim() ?? message.trim();
+
+/**
+ * Deterministic, offline provider: same input, same output, no network.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): LLMProvider => {
+  const embedder = createHashEmbedder();
+  const reply = options.reply ?? ((message: string) => `Mock answer to: ${extractQuestion(message)}`);
+
+  return {
+    id: 'mock',
+    model: options.model ?? 'mock-1',
+
+    generateJson: async (prompt, schema) =>
+      JSON.stringify(options.json ? options.json(prompt, schema) : buildMockValue(schema)),
+
+    createChat: ({ history = [] }): ChatSession => {
+      const turns = [...history];
+      const record = (message: string, text: string) => {
+        turns.push({ role: 'user', text: message }, { role: 'model', text });
+      };
+
+      return {
+        send: async (message, signal, question = message) => {
+          const text = reply(message, turns);
+          record(question, text);
+          return text;
+        },
+        stream: async function* (message, signal, question = message) {
+          const text = reply(message, turns);
+          // Word by word, so streaming UIs can be exercised
+          for (const word of text.split(/(?<=\s)/)) {
+            if (signal?.aborted) return;
+            yield word;
+          }
+          record(question, text);
+        },
+      };
+    },
+
+    embed: (texts, task) =>
+      task === 'query' ? Promise.all(texts.map(embedder.embedQuery)) : embedder.embedDocuments(texts),
+  };
+};
@@ -0,0 +1,140 @@
+import { ChatSession, ChatTurn, LLMProvider } from '../llmProvider';
+import { createModelError } from '../requestService';
+
+interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp
+  model: string;
+  embeddingModel?: string; // Served at /embeddings; without one, documents are indexed locally
+  apiKey?: string;
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const toOpenAIMessages = (systemInstruction: string, history: ChatTurn[]): OpenAIMessage[] => [
+  { role: 'system', content: systemInstruction },
+  ...history.map(turn => ({ role: turn.role === 'model' ? 'assistant' as const : 'user' as const, content: turn.text })),
+];
+
+/**
+ * Reads a server-sent-events body and yields the content deltas of a
+ * /chat/completions stream.
+ */
+async function* readCompletionStream(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      if (signal?.aborted) return;
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+
+        const choice = JSON.parse(data).choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw createModelError('safety', "Response blocked by the model server's content filter");
+        const delta = choice?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const createOpenAICompatibleProvider = ({ baseUrl, model, embeddingModel, apiKey }: OpenAICompatibleOptions): LLMProvider => {
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Model server returned ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai-compatible',
+    model,
+
+    generateJson: async (prompt, schema, signal) => {
+      const response = await post('/chat/completions', {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema },
+        },
+      }, signal);
+
+      const text = (await response.json()).choices?.[0]?.message?.content;
+      if (!text) throw new Error("No JSON generated");
+      return text;
+    },
+
+    createChat: ({ systemInstruction, temperature, history = [] }): ChatSession => {
+      const messages = toOpenAIMessages(systemInstruction, history);
+
+      return {
+        send: async (message, signal, question = message) => {
+          const response = await post('/chat/completions', {
+            model,
+            temperature,
+            messages: [...messages, { role: 'user', content: message }],
+          }, signal);
+
+          const choice = (await response.json()).choices?.[0];
+          if (choice?.finish_reason === 'content_filter') throw createModelError('safety', "Response blocked by the model server's content filter");
+          const text: string = choice?.message?.content ?? '';
+          if (text) messages.push({ role: 'user', content: question }, { role: 'assistant', content: text });
+          return text;
+        },
+        stream: async function* (message, signal, question = message) {
+          const response = await post('/chat/completions', {
+            model,
+            temperature,
+            stream: true,
+            messages: [...messages, { role: 'user', content: message }],
+          }, signal);
+          if (!response.body) throw new Error("Model server returned no stream");
+
+          let text = '';
+          for await (const delta of readCompletionStream(response.body, signal)) {
+            text += delta;
+            yield delta;
+          }
+          if (text && !signal?.aborted) {
+            messages.push({ role: 'user', content: question }, { role: 'assistant', content: text });
+          }
+        },
+      };
+    },
+
+    embed: embeddingModel ? async (texts) => {
+      const response = await post('/embeddings', { model: embeddingModel, input: texts });
+      const data: { embedding: number[]; index: number }[] = (await response.json()).data ?? [];
+      if (data.length !== texts.length) {
+        throw new Error("Embedding response size does not match the request");
+      }
+      return [...data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+    } : undefined,
+  };
+};
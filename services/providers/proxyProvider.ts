@@ -0,0 +1,145 @@
+import { ChatSession, ChatTurn, EmbeddingTask, JsonSchema, LLMProvider } from '../llmProvider';
+import { ModelErrorKind } from '../../types';
+import { createModelError } from '../requestService';
+
+/**
+ * Talks to the app's own backend (see server/), which holds the API key and
+ * calls the model. The server is stateless: each chat request carries the
+ * conversation so far, like the OpenAI-compatible provider does.
+ */
+
+// Request and response bodies, shared with server/proxyServer.ts
+export interface ProxyJsonRequest {
+  prompt: string;
+  schema: JsonSchema;
+}
+
+export interface ProxyChatRequest {
+  systemInstruction: string;
+  temperature?: number;
+  history: ChatTurn[];
+  message: string;
+}
+
+export interface ProxyEmbedRequest {
+  texts: string[];
+  task: EmbeddingTask;
+}
+
+export interface ProxyErrorBody {
+  error: { kind: ModelErrorKind; message: string };
+}
+
+// One server-sent event of /chat/stream
+export type ProxyStreamEvent = { delta: string } | ProxyErrorBody;
+
+// Texts per /embed request; a whole booking pack at once exceeds the server's body limit
+const EMBEDDING_BATCH_SIZE = 100;
+
+const toModelError = (body: Partial<ProxyErrorBody> | null, status?: number, retryAfter?: string | null) =>
+  createModelError(body?.error?.kind ?? 'unknown', body?.error?.message ?? `Server returned ${status}`, {
+    status,
+    retryAfterMs: retryAfter ? Number(retryAfter) * 1000 || undefined : undefined,
+  });
+
+/**
+ * Reads the server-sent events of a /chat/stream response and yields the
+ * text deltas. An error event is thrown as a ModelError.
+ */
+async function* readProxyStream(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      if (signal?.aborted) return;
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+
+      for (const event of events) {
+        const data = event.replace(/^data:\s*/, '').trim();
+        if (!data) continue;
+        if (data === '[DONE]') return;
+
+        const parsed = JSON.parse(data) as ProxyStreamEvent;
+        if ('error' in parsed) throw toModelError(parsed);
+        if (parsed.delta) yield parsed.delta;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const createProxyProvider = ({ baseUrl }: { baseUrl: string }): LLMProvider => {
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw toModelError(errorBody, response.status, response.headers.get('Retry-After'));
+    }
+    return response;
+  };
+
+  return {
+    id: 'proxy',
+    model: 'server', // Chosen by the server's configuration
+
+    generateJson: async (prompt, schema, signal) => {
+      const request: ProxyJsonRequest = { prompt, schema };
+      const { text } = await (await post('/summary', request, signal)).json();
+      if (!text) throw new Error("No JSON generated");
+      return text;
+    },
+
+    createChat: ({ systemInstruction, temperature, history = [] }): ChatSession => {
+      const turns = [...history];
+      const toRequest = (message: string): ProxyChatRequest => ({ systemInstruction, temperature, history: turns, message });
+
+      return {
+        send: async (message, signal, question = message) => {
+          const { text } = await (await post('/chat', toRequest(message), signal)).json();
+          if (text) turns.push({ role: 'user', text: question }, { role: 'model', text });
+          return text ?? '';
+        },
+        stream: async function* (message, signal, question = message) {
+          const response = await post('/chat/stream', toRequest(message), signal);
+          if (!response.body) throw new Error("Server returned no stream");
+
+          let text = '';
+          for await (const delta of readProxyStream(response.body, signal)) {
+            text += delta;
+            yield delta;
+          }
+          if (text && !signal?.aborted) turns.push({ role: 'user', text: question }, { role: 'model', text });
+        },
+      };
+    },
+
+    embed: async (texts, task) => {
+      const vectors: number[][] = [];
+
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const request: ProxyEmbedRequest = { texts: texts.slice(i, i + EMBEDDING_BATCH_SIZE), task };
+        const { vectors: batch } = await (await post('/embed', request)).json();
+        if (!Array.isArray(batch) || batch.length !== request.texts.length) {
+          throw new Error("Embedding response size does not match the request");
+        }
+        vectors.push(...batch);
+      }
+
+      return vectors;
+    },
+  };
+};
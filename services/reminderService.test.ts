@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { HotelEvent, TripEvent } from '../types';
+import { Reminder, DEFAULT_REMINDER_SETTINGS, buildReminders, createReminderScheduler, getCheckOut } from './reminderService';
+import { createManualClock } from './clockService';
+import { normalizeEventDetails } from './eventDetailsService';
+import { buildIcsCalendar } from './icsService';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+const FLIGHT: TripEvent = {
+  type: 'flight',
+  date: '2025-03-20',
+  time: '10:00',
+  activity: 'Flight AF1234',
+  location: 'Paris CDG → Rome FCO',
+  start: '2025-03-20T10:00',
+  end: '2025-03-20T12:05',
+  timeZone: 'Europe/Paris',
+};
+
+const HOTEL: HotelEvent = {
+  type: 'hotel',
+  date: '2025-03-14',
+  time: '',
+  activity: 'Hotel Lutetia',
+  location: 'Paris',
+  start: '2025-03-14',
+  end: '2025-03-16',
+  allDay: true,
+  timeZone: 'Europe/Paris',
+};
+
+const checkOutReminder = (event: TripEvent) =>
+  buildReminders([event], DEFAULT_REMINDER_SETTINGS).find(reminder => reminder.kind === 'check-out');
+
+describe('buildReminders', () => {
+  it('reminds of a departure by its lead times', () => {
+    const [checkIn, leave] = buildReminders([FLIGHT], DEFAULT_REMINDER_SETTINGS);
+
+    expect(checkIn.kind).toBe('check-in-opens');
+    expect(new Date(checkIn.at).toISOString()).toBe('2025-03-19T09:00:00.000Z');
+    expect(leave.kind).toBe('leave-for-airport');
+    expect(new Date(leave.at).toISOString()).toBe('2025-03-20T06:00:00.000Z');
+  });
+
+  it('reminds of check-out an hour before the stay says, in its own zone', () => {
+    const reminder = checkOutReminder({ ...HOTEL, details: { checkOutTime: '12:00' } });
+    expect(new Date(reminder.at).toISOString()).toBe('2025-03-16T10:00:00.000Z');
+  });
+
+  it('reads check-out times written the way bookings write them', () => {
+    const reminder = checkOutReminder({ ...HOTEL, details: { checkOutTime: '11 AM' } });
+    expect(new Date(reminder.at).toISOString()).toBe('2025-03-16T09:00:00.000Z');
+    expect(reminder.body).toContain('11:00');
+  });
+
+  it('falls back to 11:00 when the check-out time is not a time', () => {
+    const reminder = checkOutReminder({ ...HOTEL, details: { checkOutTime: 'late' } });
+    expect(new Date(reminder.at).toISOString()).toBe('2025-03-16T09:00:00.000Z');
+  });
+
+  it('gives a stay without a zone a real check-out and a valid ICS trigger', () => {
+    const stay: HotelEvent = { ...HOTEL, timeZone: undefined, details: { checkOutTime: '11 AM' } };
+
+    expect(Number.isFinite(getCheckOut(stay).at)).toBe(true);
+    const ics = buildIcsCalendar([stay], { alarms: DEFAULT_REMINDER_SETTINGS });
+    expect(ics).toContain('TRIGGER;RELATED=END:PT10H\r\n');
+  });
+});
+
+describe('normalizeEventDetails', () => {
+  it('brings hotel times to HH:MM and drops what is not a time', () => {
+    const normalized = normalizeEventDetails({
+      ...HOTEL,
+      details: { checkInTime: '2.30 pm', checkOutTime: 'late', roomType: 'Double' },
+    });
+    expect(normalized.details).toEqual({ checkInTime: '14:30', roomType: 'Double' });
+  });
+});
+
+describe('createReminderScheduler', () => {
+  const start = Date.parse('2025-03-19T08:00:00Z');
+
+  const run = (startAt: number, reminders = buildReminders([FLIGHT], DEFAULT_REMINDER_SETTINGS), delivered?: Set<string>) => {
+    const clock = createManualClock(startAt);
+    const sent: { kind: string; at: string }[] = [];
+    const notify = (reminder: Reminder) => sent.push({ kind: reminder.kind, at: new Date(clock.now()).toISOString() });
+    const scheduler = createReminderScheduler(reminders, { clock, notify, delivered });
+    return { clock, sent, scheduler };
+  };
+
+  it('sends each reminder when its time comes, on a fake clock', () => {
+    const { clock, sent } = run(start);
+
+    clock.advance(59 * MINUTE);
+    expect(sent).toEqual([]);
+    clock.advance(MINUTE);
+    expect(sent).toEqual([{ kind: 'check-in-opens', at: '2025-03-19T09:00:00.000Z' }]);
+    clock.advance(24 * HOUR);
+    expect(sent).toEqual([
+      { kind: 'check-in-opens', at: '2025-03-19T09:00:00.000Z' },
+      { kind: 'leave-for-airport', at: '2025-03-20T06:00:00.000Z' },
+    ]);
+  });
+
+  it('still sends a reminder missed by less than the grace period', () => {
+    const { sent } = run(Date.parse('2025-03-19T09:10:00Z'));
+    expect(sent.map(reminder => reminder.kind)).toEqual(['check-in-opens']);
+  });
+
+  it('skips reminders missed by longer, and those whose moment has passed', () => {
+    expect(run(Date.parse('2025-03-19T09:30:00Z')).sent).toEqual([]);
+
+    const { clock, sent } = run(Date.parse('2025-03-20T10:01:00Z'));
+    clock.advance(24 * HOUR);
+    expect(sent).toEqual([]);
+  });
+
+  it('does not repeat what an earlier scheduler delivered', () => {
+    const delivered = new Set<string>();
+    const first = run(start, undefined, delivered);
+    first.clock.advance(HOUR);
+    first.scheduler.stop();
+
+    const second = run(first.clock.now(), undefined, delivered);
+    second.clock.advance(HOUR);
+    expect(first.sent).toHaveLength(1);
+    expect(second.sent).toEqual([]);
+  });
+
+  it('sends nothing once stopped', () => {
+    const { clock, sent, scheduler } = run(start);
+    scheduler.stop();
+    clock.advance(48 * HOUR);
+    expect(sent).toEqual([]);
+  });
+});
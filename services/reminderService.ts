@@ -0,0 +1,192 @@
+import { HotelEvent, TripEvent } from '../types';
+import { parseClockTime, resolveEventTimes, utcToZonedTime, zonedTimeToUtc } from './eventTimeService';
+import { Clock, systemClock } from './clockService';
+
+/**
+ * Reminders for the moments a timeline alone doesn't announce: when to leave
+ * for the airport, when online check-in opens and when to check out. They are
+ * computed from the events, delivered as browser notifications while the app
+ * is open (see createReminderScheduler) and written as VALARMs in the ICS
+ * export. Time comes from a Clock (see clockService) so all of it can run on
+ * a fake one.
+ */
+
+export type ReminderKind = 'leave-for-airport' | 'check-in-opens' | 'check-out';
+
+export const REMINDER_KINDS: ReminderKind[] = ['leave-for-airport', 'check-in-opens', 'check-out'];
+
+export const REMINDER_LABELS: Record<ReminderKind, string> = {
+  'leave-for-airport': 'Leave for the airport',
+  'check-in-opens': 'Online check-in opens',
+  'check-out': 'Check out',
+};
+
+export interface ReminderSettings {
+  enabled: boolean; // Browser notifications; the ICS alarms follow `inCalendar`
+  inCalendar: boolean;
+  leadMinutes: Record<ReminderKind, number>; // How long before the moment itself
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  inCalendar: true,
+  leadMinutes: {
+    'leave-for-airport': 180, // Before departure
+    'check-in-opens': 24 * 60, // Before departure; most airlines open 24h ahead
+    'check-out': 60, // Before check-out time
+  },
+};
+
+// When a stay doesn't say
+const DEFAULT_CHECK_OUT_TIME = '11:00';
+
+const SETTINGS_KEY = 'wanderlust-ai:reminders';
+
+export const loadReminderSettings = (): ReminderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_REMINDER_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_REMINDER_SETTINGS,
+      ...parsed,
+      leadMinutes: { ...DEFAULT_REMINDER_SETTINGS.leadMinutes, ...parsed.leadMinutes },
+    };
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+};
+
+export const saveReminderSettings = (settings: ReminderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface Reminder {
+  id: string; // Stable across rebuilds, so a delivered reminder isn't sent twice
+  kind: ReminderKind;
+  eventIndex: number; // Position in the events it was built from
+  at: number; // When to remind, UTC milliseconds
+  moment: number; // What it reminds of (departure, check-out), UTC milliseconds
+  title: string;
+  body: string;
+}
+
+/** "3 h", "1 day", "1 h 30 min" */
+export const formatLeadTime = (minutes: number): string => {
+  if (minutes > 0 && minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return [hours > 0 ? `${hours} h` : '', rest > 0 || hours === 0 ? `${rest} min` : ''].filter(Boolean).join(' ');
+};
+
+// Wall-clock time of a moment where it happens, e.g. "14:05"
+const localTime = (utcMillis: number, zone?: string) => utcToZonedTime(utcMillis, zone).slice(11);
+
+/**
+ * When a stay ends: its check-out time on the last day, 11:00 when it doesn't
+ * say or says something that isn't a time (trips saved before details were
+ * normalized may hold "11 AM" or "late").
+ */
+export const getCheckOut = (event: HotelEvent): { at: number; time: string } => {
+  const times = resolveEventTimes(event);
+  const checkOutDay = times.allDay ? times.end : times.end.slice(0, 10);
+  const time = parseClockTime(event.details?.checkOutTime) ?? (times.allDay ? DEFAULT_CHECK_OUT_TIME : times.end.slice(11));
+  return { at: zonedTimeToUtc(`${checkOutDay}T${time}`, times.endTimeZone), time };
+};
+
+/**
+ * Every reminder of the timeline, in time order. Past ones are included;
+ * the scheduler decides what is still worth delivering.
+ */
+export const buildReminders = (events: TripEvent[], settings: ReminderSettings): Reminder[] => {
+  const reminders: Reminder[] = [];
+  const add = (kind: ReminderKind, eventIndex: number, moment: number, body: string) => {
+    const event = events[eventIndex];
+    reminders.push({
+      id: `${kind}|${event.date}|${event.time}|${event.activity.trim().toLowerCase()}`,
+      kind,
+      eventIndex,
+      at: moment - settings.leadMinutes[kind] * 60_000,
+      moment,
+      title: `${REMINDER_LABELS[kind]}: ${event.activity}`,
+      body,
+    });
+  };
+
+  events.forEach((event, idx) => {
+    const times = resolveEventTimes(event);
+    if (event.type === 'flight' && !times.allDay) {
+      const departure = zonedTimeToUtc(times.start, times.timeZone);
+      const from = event.details?.departureAirport ?? event.location;
+      const terminal = event.details?.departureTerminal ? `, terminal ${event.details.departureTerminal}` : '';
+      add('leave-for-airport', idx, departure, `Departs ${localTime(departure, times.timeZone)}${from ? ` from ${from}` : ''}${terminal}.`);
+      add('check-in-opens', idx, departure, `Departure at ${localTime(departure, times.timeZone)}${event.confirmationNumber ? `. Booking reference ${event.confirmationNumber}` : ''}.`);
+    }
+    if (event.type === 'hotel') {
+      const checkOut = getCheckOut(event);
+      add('check-out', idx, checkOut.at, `Check-out by ${checkOut.time}${event.location ? ` at ${event.location}` : ''}.`);
+    }
+  });
+
+  return reminders.sort((a, b) => a.at - b.at);
+};
+
+/** Reminders still ahead of `now`, soonest first. */
+export const getUpcomingReminders = (reminders: Reminder[], clock: Pick<Clock, 'now'>): Reminder[] =>
+  reminders.filter(reminder => reminder.at > clock.now());
+
+// Reminders missed by less than this (a sleeping laptop, a late tick) are still sent
+export const DEFAULT_GRACE_MS = 15 * 60_000;
+// Long timers drift and browsers cap them, so the scheduler wakes up at least this often
+const MAX_TIMER_MS = 60 * 60_000;
+
+export interface ReminderSchedulerOptions {
+  clock?: Clock;
+  notify: (reminder: Reminder) => void;
+  delivered?: Set<string>; // Reminder ids already sent; shared so a rebuilt scheduler doesn't repeat them
+  graceMs?: number;
+}
+
+export interface ReminderScheduler {
+  check: () => void; // Sends what is due now; called by the timer
+  stop: () => void;
+}
+
+/**
+ * Delivers the reminders as their time comes, with one timer set for the
+ * next one. Reminders whose moment has already passed are never sent.
+ */
+export const createReminderScheduler = (reminders: Reminder[], options: ReminderSchedulerOptions): ReminderScheduler => {
+  const clock = options.clock ?? systemClock;
+  const delivered = options.delivered ?? new Set<string>();
+  const graceMs = options.graceMs ?? DEFAULT_GRACE_MS;
+  let timer: unknown = null;
+  let stopped = false;
+
+  const check = () => {
+    if (stopped) return;
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+
+    const now = clock.now();
+    reminders.forEach(reminder => {
+      if (delivered.has(reminder.id) || reminder.at > now) return;
+      delivered.add(reminder.id);
+      // One missed by more than the grace period, or after its moment, is skipped for good
+      if (now - reminder.at <= graceMs && now < reminder.moment) options.notify(reminder);
+    });
+
+    const next = reminders.find(reminder => !delivered.has(reminder.id) && reminder.at > now);
+    if (next) timer = clock.setTimeout(check, Math.min(next.at - now, MAX_TIMER_MS));
+  };
+
+  check();
+  return {
+    check,
+    stop: () => {
+      stopped = true;
+      if (timer !== null) clock.clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
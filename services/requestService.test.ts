@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyError, requestWithRetry, streamWithRetry } from './requestService';
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 1 };
+
+// Retries are logged; keep the test output quiet
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const httpFailure = (status: number, message = `Server returned ${status}`) =>
+  Object.assign(new Error(message), { status });
+
+// Fails with each error in turn, then answers
+const failing = (...errors: unknown[]) => {
+  let calls = 0;
+  const call = vi.fn(async () => {
+    const error = errors[calls++];
+    if (error) throw error;
+    return 'answer';
+  });
+  return call;
+};
+
+describe('classifyError', () => {
+  it('retries rate limits, lost connections, timeouts and server errors', () => {
+    expect(classifyError(httpFailure(429))).toMatchObject({ kind: 'quota', retryable: true });
+    expect(classifyError(new TypeError('Failed to fetch'))).toMatchObject({ kind: 'network', retryable: true });
+    expect(classifyError(httpFailure(504))).toMatchObject({ kind: 'timeout', retryable: true });
+    expect(classifyError(httpFailure(503))).toMatchObject({ kind: 'network', retryable: true });
+  });
+
+  it('sorts other client errors by status, and does not retry them', () => {
+    expect(classifyError(httpFailure(401))).toMatchObject({ kind: 'auth', retryable: false });
+    expect(classifyError(httpFailure(413))).toMatchObject({ kind: 'context-length', retryable: false });
+    expect(classifyError(httpFailure(400))).toMatchObject({ kind: 'bad-request', retryable: false });
+    expect(classifyError(new Error('Server returned 404'))).toMatchObject({ kind: 'bad-request', status: 404 });
+    expect(classifyError(new Error('No JSON generated'))).toMatchObject({ kind: 'unknown', retryable: false });
+  });
+});
+
+describe('requestWithRetry', () => {
+  it('retries transient failures until one attempt succeeds', async () => {
+    const call = failing(httpFailure(429), new TypeError('fetch failed'), httpFailure(502));
+    await expect(requestWithRetry(call, FAST)).resolves.toBe('answer');
+    expect(call).toHaveBeenCalledTimes(4);
+  });
+
+  it('gives up at once on errors that would happen again', async () => {
+    for (const error of [httpFailure(400), new Error('No JSON generated')]) {
+      const call = failing(error);
+      await expect(requestWithRetry(call, FAST)).rejects.toMatchObject({ retryable: false });
+      expect(call).toHaveBeenCalledTimes(1);
+    }
+  });
+});
+
+describe('abort listeners', () => {
+  // Abort listeners added and not yet removed, across every signal
+  const countListeners = () => {
+    const active = new Set<unknown>();
+    vi.spyOn(EventTarget.prototype, 'addEventListener').mockImplementation(function (this: EventTarget, type, listener) {
+      if (type === 'abort' && this instanceof AbortSignal) active.add(listener);
+    });
+    vi.spyOn(EventTarget.prototype, 'removeEventListener').mockImplementation(function (this: EventTarget, type, listener) {
+      if (type === 'abort' && this instanceof AbortSignal) active.delete(listener);
+    });
+    return active;
+  };
+
+  it('are removed after every attempt of a request', async () => {
+    const active = countListeners();
+    const controller = new AbortController();
+    await requestWithRetry(failing(httpFailure(503)), { ...FAST, signal: controller.signal });
+    expect(active.size).toBe(0);
+  });
+
+  it('are removed after every chunk of a stream', async () => {
+    const active = countListeners();
+    const chunks: string[] = [];
+    for await (const chunk of streamWithRetry(async function* () {
+      yield* ['one', 'two', 'three'];
+    }, FAST)) {
+      chunks.push(chunk);
+      expect(active.size).toBe(0);
+    }
+    expect(chunks).toEqual(['one', 'two', 'three']);
+  });
+});
@@ -0,0 +1,218 @@
+import { ModelErrorKind } from '../types';
+
+/**
+ * Retries, timeouts and error classification for model requests. Providers
+ * throw whatever their SDK or fetch throws; callers in geminiService wrap
+ * each call here so the UI only ever deals with a ModelError of known kind.
+ */
+
+export type ModelError = Error & {
+  kind: ModelErrorKind;
+  retryable: boolean;
+  status?: number; // HTTP status, when the error came from a response
+  retryAfterMs?: number; // Server's hint for rate limits
+};
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request and any pending retry; never retried
+  timeoutMs?: number; // Per attempt; for streams, the longest wait for the next chunk
+  retries?: number; // Additional attempts for retryable errors
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 20_000;
+
+const RETRYABLE_KINDS: ModelErrorKind[] = ['quota', 'network', 'timeout'];
+
+export const createModelError = (
+  kind: ModelErrorKind,
+  message: string,
+  extra: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+): ModelError => {
+  const error = new Error(message, { cause: extra.cause }) as ModelError;
+  error.name = 'ModelError';
+  error.kind = kind;
+  error.retryable = RETRYABLE_KINDS.includes(kind);
+  if (extra.status !== undefined) error.status = extra.status;
+  if (extra.retryAfterMs !== undefined) error.retryAfterMs = extra.retryAfterMs;
+  return error;
+};
+
+export const isModelError = (error: unknown): error is ModelError =>
+  error instanceof Error && error.name === 'ModelError' && 'kind' in error;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Gemini puts "retryDelay": "27s" in its 429 bodies; HTTP servers may say "Retry-After: 30"
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry[-_ ]?(?:delay|after)"?\s*[:=]?\s*"?(\d+(?:\.\d+)?)\s*s?/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Sorts any error thrown by a provider into a ModelError. The SDKs and
+ * servers disagree on shapes, so this goes by HTTP status where there is one
+ * and by well-known phrases in the message otherwise.
+ */
+export const classifyError = (error: unknown): ModelError => {
+  if (isModelError(error)) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const statusValue = (error as { status?: unknown })?.status;
+  const status = typeof statusValue === 'number'
+    ? statusValue
+    : Number(message.match(/\b(?:status(?: code)?:?|returned)\s*(\d{3})\b/i)?.[1]) || undefined;
+  const lower = message.toLowerCase();
+  const make = (kind: ModelErrorKind, extra: { retryAfterMs?: number } = {}) =>
+    createModelError(kind, message, { status, cause: error, ...extra });
+
+  if (/safety|blocked|content[_ ]filter|prohibited_content/.test(lower)) return make('safety');
+  if (/context[_ ]length|too many tokens|token count|exceeds the maximum|too long|maximum context/.test(lower)) {
+    return make('context-length');
+  }
+  if (status === 401 || status === 403 || /api[_ ]key|unauthori[sz]ed|permission[_ ]denied|unauthenticated/.test(lower)) {
+    return make('auth');
+  }
+  if (status === 429 || /resource[_ ]exhausted|rate[_ ]limit|quota/.test(lower)) {
+    return make('quota', { retryAfterMs: parseRetryAfter(message) });
+  }
+  if (status === 408 || status === 504 || /timed? ?out|deadline/.test(lower)) return make('timeout');
+  if (status === 413) return make('context-length');
+  if (error instanceof TypeError || /failed to fetch|networkerror|network error|fetch failed|econn|enotfound|load failed/.test(lower)) {
+    return make('network');
+  }
+  // A server error or "overloaded" usually passes; retry it as we would a dropped connection
+  if (status !== undefined && status >= 500) return make('network');
+  // Any other refusal (400, 404, 422...) would be refused again
+  if (status !== undefined && status >= 400) return make('bad-request');
+  return make('unknown');
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/** Exponential backoff with full jitter, or the server's own hint when it gave one. */
+export const getRetryDelay = (attempt: number, error: ModelError, options: RequestOptions = {}): number => {
+  const maxDelay = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  if (error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, maxDelay);
+  const ceiling = Math.min(maxDelay, (options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * An abort controller for one attempt: aborted by the caller's signal, or
+ * with a timeout error when `restartTimer` isn't called again in time.
+ */
+const createAttempt = (options: RequestOptions) => {
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onAbort = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      controller.abort(createModelError('timeout', `No response from the model within ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+  };
+  restartTimer();
+
+  return {
+    signal: controller.signal,
+    restartTimer,
+    // The timeout error, if that is why the attempt was aborted
+    timeoutError: () => (isModelError(controller.signal.reason) ? controller.signal.reason : null),
+    dispose: () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+// Races a promise against the attempt's signal, so SDKs that ignore aborts still time out
+const untilAborted = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+/**
+ * Runs one model request with a timeout, retrying retryable failures with
+ * backoff. Throws a ModelError, or the caller's abort reason if it aborted.
+ */
+export const requestWithRetry = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const current = createAttempt(options);
+    try {
+      return await untilAborted(call(current.signal), current.signal);
+    } catch (caught) {
+      if (options.signal?.aborted) throw caught;
+      const error = current.timeoutError() ?? classifyError(caught);
+      if (!error.retryable || attempt >= retries) throw error;
+      console.warn(`Model request failed (${error.kind}), retrying`, error);
+      await sleep(getRetryDelay(attempt, error, options), options.signal);
+    } finally {
+      current.dispose();
+    }
+  }
+};
+
+/**
+ * Streaming version of requestWithRetry. A stream is only retried until its
+ * first chunk arrives: after that, starting over would repeat text the
+ * caller already has. The timeout applies to each wait for the next chunk.
+ */
+export async function* streamWithRetry(
+  start: (signal: AbortSignal) => AsyncIterable<string>,
+  options: RequestOptions = {}
+): AsyncGenerator<string> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const current = createAttempt(options);
+    let received = false;
+    try {
+      const iterator = start(current.signal)[Symbol.asyncIterator]();
+      while (true) {
+        const { done, value } = await untilAborted(iterator.next(), current.signal);
+        if (done) return;
+        received = true;
+        current.restartTimer();
+        yield value;
+      }
+    } catch (caught) {
+      if (options.signal?.aborted) throw caught;
+      const error = current.timeoutError() ?? classifyError(caught);
+      if (received || !error.retryable || attempt >= retries) throw error;
+      console.warn(`Model stream failed (${error.kind}), retrying`, error);
+      await sleep(getRetryDelay(attempt, error, options), options.signal);
+    } finally {
+      current.dispose();
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UploadedFile } from '../types';
+import { chunkDocument, createHashEmbedder, createRetriever, Embedder, formatPassagesForPrompt } from './retrievalService';
+
+// Only the text matters to retrieval
+const file = (name: string, content: string): UploadedFile => ({ name, content, pages: [], size: content.length, pageCount: 1 });
+
+const BOOKING = file('booking.pdf', [
+  '--- Page 1 ---',
+  'Flight AF1234 from Paris CDG to Rome FCO. Departure 10:00, terminal 2F, seat 14C.',
+  '--- Page 2 ---',
+  'Hotel Artemide, Via Nazionale 22, Rome. Check-in from 14:00, breakfast included.',
+].join('\n'));
+
+const TICKETS = file('tickets.pdf', '--- Page 1 ---\nColosseum tour, meeting point at the Arch of Constantine at 09:00.');
+
+describe('chunkDocument', () => {
+  it('keeps each chunk on one page, so it can be cited', () => {
+    const chunks = chunkDocument(BOOKING.content, BOOKING.name);
+    expect(chunks.map(chunk => chunk.id)).toEqual(['booking.pdf#p1-c0', 'booking.pdf#p2-c0']);
+    expect(chunks[1]).toMatchObject({ pageNumber: 2, text: expect.stringContaining('Hotel Artemide') });
+  });
+
+  it('cuts long pages at words, with an overlap', () => {
+    const words = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkDocument(words, 'long.pdf', { maxChars: 100, overlapChars: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(100);
+      expect(chunk.text).toMatch(/^word\d+( word\d+)*$/);
+    });
+    // The last word of a chunk starts the next one again
+    const lastWord = chunks[0].text.split(' ').pop();
+    expect(chunks[1].text.split(' ')).toContain(lastWord);
+  });
+
+  it('treats text without page markers as page 1', () => {
+    expect(chunkDocument('Just a note', 'note.txt')).toEqual([
+      { id: 'note.txt#p1-c0', fileName: 'note.txt', pageNumber: 1, text: 'Just a note' },
+    ]);
+  });
+});
+
+describe('createRetriever', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const indexed = async (embedder: Embedder) => {
+    const retriever = createRetriever(embedder);
+    await retriever.addDocument(BOOKING);
+    await retriever.addDocument(TICKETS);
+    return retriever;
+  };
+
+  it('ranks the passage sharing the most words first, the same way every time', async () => {
+    const retriever = await indexed(createHashEmbedder());
+
+    const [first] = await retriever.retrieve('Which seat do I have on flight AF1234?', 1);
+    expect(first.chunk.id).toBe('booking.pdf#p1-c0');
+    expect((await retriever.retrieve('Where is the meeting point for the Colosseum tour?'))[0].chunk.fileName).toBe('tickets.pdf');
+    expect(await retriever.retrieve('hotel breakfast')).toEqual(await retriever.retrieve('hotel breakfast'));
+  });
+
+  it('replaces a document added again, and forgets a removed one', async () => {
+    const retriever = await indexed(createHashEmbedder());
+    await retriever.addDocument(file('tickets.pdf', 'Vatican museums, entrance at 08:30.'));
+    expect(retriever.chunkCount).toBe(3);
+
+    retriever.removeDocument('booking.pdf');
+    expect(retriever.documentNames).toEqual(['tickets.pdf']);
+    expect((await retriever.retrieve('hotel')).map(passage => passage.chunk.fileName)).toEqual(['tickets.pdf']);
+  });
+
+  it('falls back to keywords when the question cannot be embedded', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const retriever = await indexed({
+      ...createHashEmbedder(),
+      embedQuery: async () => {
+        throw new Error('Failed to fetch');
+      },
+    });
+
+    const [first] = await retriever.retrieve('What time is check-in at the hotel?', 1);
+    expect(first.chunk.id).toBe('booking.pdf#p2-c0');
+  });
+});
+
+describe('formatPassagesForPrompt', () => {
+  it('lists passages by file and page, whatever their score', async () => {
+    const retriever = createRetriever(createHashEmbedder());
+    await retriever.addDocument(BOOKING);
+    const prompt = formatPassagesForPrompt(await retriever.retrieve('hotel check-in'));
+    expect(prompt.indexOf('[booking.pdf, Page 1]')).toBeLessThan(prompt.indexOf('[booking.pdf, Page 2]'));
+  });
+});
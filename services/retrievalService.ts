@@ -0,0 +1,253 @@
+import { DocumentChunk, RetrievedPassage, UploadedFile } from '../types';
+
+/**
+ * Anything that can turn text into vectors. The Gemini implementation lives in
+ * geminiService.ts; the local hash embedder below needs no network, which keeps
+ * retrieval deterministic for tests and usable as an offline fallback.
+ */
+export interface Embedder {
+  embedDocuments: (texts: string[]) => Promise<number[][]>;
+  embedQuery: (text: string) => Promise<number[]>;
+}
+
+export interface Retriever {
+  readonly chunkCount: number;
+  readonly documentNames: string[];
+  addDocument: (file: UploadedFile) => Promise<void>;
+  removeDocument: (fileName: string) => void;
+  retrieve: (query: string, topK?: number) => Promise<RetrievedPassage[]>;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+const PAGE_MARKER = /--- Page (\d+) ---\n/g;
+const DEFAULT_TOP_K = 5;
+
+/**
+ * Splits the output of extractTextFromPdf back into its pages.
+ * Text before the first marker (if any) is treated as page 1.
+ */
+export const splitPages = (content: string): { pageNumber: number; text: string }[] => {
+  const pages: { pageNumber: number; text: string }[] = [];
+  const markers = [...content.matchAll(PAGE_MARKER)];
+
+  if (markers.length === 0) {
+    return content.trim() ? [{ pageNumber: 1, text: content.trim() }] : [];
+  }
+
+  markers.forEach((match, idx) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = idx + 1 < markers.length ? markers[idx + 1].index : content.length;
+    pages.push({ pageNumber: parseInt(match[1], 10), text: content.slice(start, end).trim() });
+  });
+
+  return pages;
+};
+
+/**
+ * Page-aware chunking: chunks never span two pages so every passage can be
+ * cited with a single [Page X]. Long pages are cut at whitespace with a small
+ * overlap so a sentence split across a boundary still lands in one chunk.
+ */
+export const chunkDocument = (content: string, fileName: string, options: ChunkOptions = {}): DocumentChunk[] => {
+  const maxChars = options.maxChars ?? 800;
+  const overlapChars = Math.min(options.overlapChars ?? 150, Math.floor(maxChars / 2));
+  const chunks: DocumentChunk[] = [];
+
+  splitPages(content).forEach(({ pageNumber, text }) => {
+    // Line breaks are kept so table rows from layout-aware extraction survive
+    const normalized = text.replace(/[^\S\n]+/g, ' ').replace(/\n\s*\n\s*/g, '\n\n').trim();
+    if (!normalized) return;
+
+    let start = 0;
+    let part = 0;
+    while (start < normalized.length) {
+      let end = Math.min(start + maxChars, normalized.length);
+      if (end < normalized.length) {
+        // Prefer ending on a line (a whole table row), then on a word
+        const lastBreak = normalized.lastIndexOf('\n', end);
+        const lastSpace = normalized.lastIndexOf(' ', end);
+        if (lastBreak > start + overlapChars) end = lastBreak;
+        else if (lastSpace > start + overlapChars) end = lastSpace;
+      }
+
+      chunks.push({
+        id: `${fileName}#p${pageNumber}-c${part}`,
+        fileName,
+        pageNumber,
+        text: normalized.slice(start, end).trim(),
+      });
+
+      if (end >= normalized.length) break;
+      start = Math.max(end - overlapChars, start + 1);
+      // Don't start the next chunk in the middle of a line, or at least of a word
+      const overlap = normalized.slice(start, end);
+      const nextBreak = overlap.indexOf('\n');
+      const nextSpace = overlap.search(/\s/);
+      if (nextBreak !== -1 && nextBreak < overlap.length - 1) start += nextBreak + 1;
+      else if (nextSpace !== -1) start += nextSpace + 1;
+      part++;
+    }
+  });
+
+  return chunks;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// FNV-1a, good enough to spread tokens over the hash buckets
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+};
+
+// Feature hashing over unigrams and bigrams: texts sharing words get close vectors
+const embedByHashing = (text: string, dimensions: number): number[] => {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+  const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`)];
+
+  features.forEach(feature => {
+    const hash = hashToken(feature);
+    // Use one bit of the hash as a sign to reduce collision bias
+    vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1;
+  });
+
+  return normalize(vector);
+};
+
+/**
+ * Deterministic bag-of-words embedder using feature hashing over unigrams and
+ * bigrams. No network, no model: the same text always yields the same vector.
+ */
+export const createHashEmbedder = (dimensions = 512): Embedder => ({
+  embedDocuments: async (texts) => texts.map(text => embedByHashing(text, dimensions)),
+  embedQuery: async (text) => embedByHashing(text, dimensions),
+});
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+const KEYWORD_DIMENSIONS = 512;
+
+const comparePassageOrder = (a: RetrievedPassage, b: RetrievedPassage): number =>
+  a.chunk.fileName.localeCompare(b.chunk.fileName) || a.chunk.pageNumber - b.chunk.pageNumber;
+
+const rank = (passages: RetrievedPassage[], topK: number): RetrievedPassage[] =>
+  passages.sort((a, b) => b.score - a.score || comparePassageOrder(a, b)).slice(0, topK);
+
+/**
+ * Minimal in-memory vector index. A brute-force scan is plenty for the few
+ * thousand chunks a booking pack produces.
+ */
+export const createVectorIndex = () => {
+  const entries: { chunk: DocumentChunk; vector: number[] }[] = [];
+
+  return {
+    get size() {
+      return entries.length;
+    },
+    add: (chunks: DocumentChunk[], vectors: number[][]) => {
+      if (chunks.length !== vectors.length) {
+        throw new Error('Each chunk needs exactly one embedding vector.');
+      }
+      chunks.forEach((chunk, idx) => entries.push({ chunk, vector: vectors[idx] }));
+    },
+    search: (query: number[], topK: number): RetrievedPassage[] =>
+      rank(entries.map(({ chunk, vector }) => ({ chunk, score: cosineSimilarity(query, vector) })), topK),
+    // Ranks by the words chunk and query share, for when the query can't be embedded
+    searchByKeywords: (query: string, topK: number): RetrievedPassage[] => {
+      const queryVector = embedByHashing(query, KEYWORD_DIMENSIONS);
+      return rank(entries.map(({ chunk }) => ({
+        chunk,
+        score: cosineSimilarity(queryVector, embedByHashing(chunk.text, KEYWORD_DIMENSIONS)),
+      })), topK);
+    },
+    removeWhere: (predicate: (chunk: DocumentChunk) => boolean) => {
+      for (let i = entries.length - 1; i >= 0; i--) {
+        if (predicate(entries[i].chunk)) entries.splice(i, 1);
+      }
+    },
+  };
+};
+
+
+/**
+ * Creates a retriever over the documents of one trip. Documents can be added
+ * and removed mid-session; re-adding a file name replaces its old chunks.
+ * When the question can't be embedded, passages are ranked by shared words.
+ */
+export const createRetriever = (embedder: Embedder, options?: ChunkOptions): Retriever => {
+  const index = createVectorIndex();
+  const documentNames = new Set<string>();
+
+  return {
+    get chunkCount() {
+      return index.size;
+    },
+    get documentNames() {
+      return [...documentNames];
+    },
+    addDocument: async (file) => {
+      const chunks = chunkDocument(file.content, file.name, options);
+      // Embed before touching the index so a failed request leaves it intact
+      const vectors = chunks.length > 0 ? await embedder.embedDocuments(chunks.map(c => c.text)) : [];
+      index.removeWhere(chunk => chunk.fileName === file.name);
+      index.add(chunks, vectors);
+      documentNames.add(file.name);
+    },
+    removeDocument: (fileName) => {
+      index.removeWhere(chunk => chunk.fileName === fileName);
+      documentNames.delete(fileName);
+    },
+    retrieve: async (query, topK = DEFAULT_TOP_K) => {
+      if (index.size === 0 || !query.trim()) return [];
+      let queryVector: number[];
+      try {
+        queryVector = await embedder.embedQuery(query);
+      } catch (error) {
+        // The documents are indexed already; one failed request shouldn't cost the answer
+        console.warn("Embedding the question failed, ranking passages by keywords instead", error);
+        return index.searchByKeywords(query, topK);
+      }
+      return index.search(queryVector, topK);
+    },
+  };
+};
+
+/**
+ * Renders retrieved passages as a prompt block, grouped by file and in page
+ * order so the model reads them the way they appear in the documents.
+ */
+export const formatPassagesForPrompt = (passages: RetrievedPassage[]): string => {
+  if (passages.length === 0) return 'No relevant passages were found in the documents.';
+
+  return [...passages]
+    .sort(comparePassageOrder)
+    .map(p => `[${p.chunk.fileName}, Page ${p.chunk.pageNumber}]\n${p.chunk.text}`)
+    .join('\n\n');
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { HotelEvent, Message, UploadedFile } from '../types';
+import { TripSession, buildSessionJson, parseSessionJson } from './sessionExportService';
+
+const FILE: UploadedFile = {
+  name: 'hotel.pdf',
+  content: '--- Page 1 ---\nHotel Lutetia, check-out 11 AM',
+  pages: [{ pageNumber: 1, text: 'Hotel Lutetia, check-out 11 AM' }],
+  size: 1024,
+  pageCount: 1,
+};
+
+const HOTEL: HotelEvent = {
+  type: 'hotel',
+  date: '2025-03-14',
+  time: '',
+  activity: 'Hotel Lutetia',
+  location: 'Paris',
+  start: '2025-03-14',
+  end: '2025-03-16',
+  allDay: true,
+  timeZone: 'Europe/Paris',
+  details: { checkOutTime: '11:00' },
+};
+
+const MESSAGE: Message = { id: 'm1', role: 'user', content: 'When is check-out?', timestamp: 1741939200000 };
+
+const SESSION: TripSession = {
+  name: 'Paris',
+  files: [FILE],
+  summary: { title: 'Paris', destination: 'Paris', dates: 'March 2025', events: [HOTEL], suggestedQuestions: [] },
+  messages: [MESSAGE],
+};
+
+// The exported file with one part replaced
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const exported = (patch: (data: Record<string, any>) => void): string => {
+  const data = JSON.parse(buildSessionJson(SESSION));
+  patch(data);
+  return JSON.stringify(data);
+};
+
+describe('parseSessionJson', () => {
+  it('reads back what was exported', () => {
+    expect(parseSessionJson(buildSessionJson(SESSION))).toEqual(SESSION);
+  });
+
+  it('rejects files that are not sessions, or from a newer app', () => {
+    expect(() => parseSessionJson('{')).toThrow('not valid JSON');
+    expect(() => parseSessionJson('{"format":"other"}')).toThrow("isn't a WanderLust session");
+    expect(() => parseSessionJson(exported(data => { data.version = 99; }))).toThrow('newer version');
+  });
+
+  it('rejects documents, events and messages the app could not show', () => {
+    expect(() => parseSessionJson(exported(data => { data.files[0].pages = [{ pageNumber: '1' }]; })))
+      .toThrow("its documents can't be read");
+    expect(() => parseSessionJson(exported(data => { delete data.summary.events[0].date; delete data.summary.events[0].start; })))
+      .toThrow("its timeline can't be read");
+    expect(() => parseSessionJson(exported(data => { data.summary.events[0].type = 'castle'; })))
+      .toThrow("its timeline can't be read");
+    expect(() => parseSessionJson(exported(data => { data.summary.events[0].costs = [{ amount: '120 EUR' }]; })))
+      .toThrow("its timeline can't be read");
+    expect(() => parseSessionJson(exported(data => { data.messages[0].timestamp = 'yesterday'; })))
+      .toThrow("its conversation can't be read");
+  });
+
+  it('cleans events the way model output is cleaned', () => {
+    const session = parseSessionJson(exported(data => {
+      data.summary.events[0] = { type: 'hotel', date: '2025-03-14', activity: 'Hotel Lutetia', end: '2025-03-16', details: { checkOutTime: '11 AM', stars: 5 } };
+    }));
+
+    expect(session.summary?.events[0]).toEqual({
+      type: 'hotel',
+      date: '2025-03-14',
+      time: '',
+      activity: 'Hotel Lutetia',
+      location: '',
+      start: '2025-03-14',
+      end: '2025-03-16',
+      allDay: true,
+      details: { checkOutTime: '11:00' },
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { Citation, Message, TripEvent, TripSummary, UploadedFile } from '../types';
+import { countNights, normalizeEventTimes, resolveEventTimes } from './eventTimeService';
+import { getEventDetailEntries, normalizeEventDetails } from './eventDetailsService';
+import { normalizeEventType } from './summaryValidationService';
+import { NOTE_CATEGORY_LABELS, NoteGroup, groupTripNotes } from './tripNotesService';
+import { CHECKLIST_CATEGORY_LABELS, groupChecklist } from './checklistService';
+
+/**
+ * Sharing a trip outside the app: a session file that another browser can
+ * import as-is (documents, timeline and conversation), and a readable
+ * Markdown version of the same. The printable briefing is rendered by
+ * components/TripBriefing.tsx from the helpers here.
+ */
+
+export const SESSION_FORMAT = 'wanderlust-session';
+export const SESSION_VERSION = 1;
+
+export interface TripSession {
+  name: string;
+  files: UploadedFile[];
+  summary: TripSummary | null;
+  messages: Message[];
+}
+
+interface SessionFile extends TripSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+}
+
+export const buildSessionJson = (session: TripSession, now = new Date()): string => {
+  const file: SessionFile = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    exportedAt: now.toISOString(),
+    ...session,
+    // A half-streamed answer is saved as what it is
+    messages: session.messages.map(({ isStreaming, ...message }) => (isStreaming ? { ...message, isTruncated: true } : message)),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Absent, or a list whose every item passes
+const isOptionalList = (value: unknown, isValid: (item: unknown) => boolean): boolean =>
+  value === undefined || (Array.isArray(value) && value.every(isValid));
+
+const damaged = (part: string) => new Error(`This session file is damaged: its ${part} can't be read.`);
+
+const isValidCost = (cost: unknown): boolean =>
+  isObject(cost) && typeof cost.amount === 'number' && Number.isFinite(cost.amount) && isString(cost.currency)
+  && (cost.status === 'paid' || cost.status === 'due');
+
+const isValidSource = (source: unknown): boolean =>
+  isObject(source) && isString(source.fileName) && typeof source.pageNumber === 'number';
+
+/**
+ * An event as this app stores it: a known type, a title and a date to place
+ * it on. Without the date, resolveEventTimes would quietly put it on today.
+ */
+const isValidEvent = (event: unknown): event is TripEvent =>
+  isObject(event)
+  && (event.id === undefined || isString(event.id))
+  && normalizeEventType(event.type) === event.type
+  && isString(event.activity)
+  && /^\d{4}-\d{2}-\d{2}/.test(isString(event.start) ? event.start : String(event.date))
+  && (event.details === undefined || isObject(event.details))
+  && isOptionalList(event.costs, isValidCost)
+  && isOptionalList(event.participants, participant => isObject(participant) && isString(participant.name))
+  && isOptionalList(event.sources, isValidSource);
+
+// The same cleanup model output gets, so what the timeline shows is well-formed
+const normalizeImportedEvent = (event: TripEvent): TripEvent => normalizeEventDetails(normalizeEventTimes({
+  ...event,
+  location: isString(event.location) ? event.location : '',
+  time: isString(event.time) ? event.time : '',
+}));
+
+const isValidFile = (file: unknown): boolean =>
+  isObject(file) && isString(file.name) && isString(file.content)
+  && Array.isArray(file.pages) && file.pages.every(page => isObject(page) && typeof page.pageNumber === 'number' && isString(page.text))
+  && isOptionalList(file.events, isValidEvent);
+
+const isValidMessage = (message: unknown): boolean =>
+  isObject(message) && isString(message.id) && isString(message.content) && typeof message.timestamp === 'number'
+  && ['user', 'model', 'system'].includes(message.role as string)
+  && isOptionalList(message.citations, isObject);
+
+const isValidChecklistItem = (item: unknown): boolean =>
+  isObject(item) && isString(item.id) && isString(item.text) && isString(item.category);
+
+const isValidSummary = (summary: unknown): boolean =>
+  isObject(summary) && isString(summary.title) && isString(summary.destination) && isString(summary.dates)
+  && Array.isArray(summary.events) && summary.events.every(isValidEvent)
+  && isOptionalList(summary.suggestedQuestions, isString)
+  && isOptionalList(summary.checklist, isValidChecklistItem);
+
+/**
+ * Reads a session file. Throws an Error whose message can be shown to the
+ * user when the file isn't one, comes from a newer version of the app, or
+ * has documents, events or messages that this app couldn't display.
+ */
+export const parseSessionJson = (text: string): TripSession => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't a WanderLust session (it's not valid JSON).");
+  }
+
+  if (!isObject(data) || data.format !== SESSION_FORMAT) {
+    throw new Error("This file isn't a WanderLust session. Export one with \"Export → Session file\".");
+  }
+  if (typeof data.version !== 'number' || data.version > SESSION_VERSION) {
+    throw new Error("This session was exported by a newer version of WanderLust. Update the app to open it.");
+  }
+
+  const { files, summary, messages } = data;
+  if (!Array.isArray(files) || !files.every(isValidFile)) throw damaged('documents');
+  if (summary !== null && !isValidSummary(summary)) throw damaged('timeline');
+  if (!Array.isArray(messages) || !messages.every(isValidMessage)) throw damaged('conversation');
+  const timeline = summary as TripSummary | null;
+
+  return {
+    name: isString(data.name) && data.name.trim() ? data.name : 'Imported trip',
+    files: (files as UploadedFile[]).map(file => (file.events ? { ...file, events: file.events.map(normalizeImportedEvent) } : file)),
+    summary: timeline && {
+      ...timeline,
+      events: timeline.events.map(normalizeImportedEvent),
+      suggestedQuestions: timeline.suggestedQuestions ?? [],
+    },
+    messages: messages as Message[],
+  };
+};
+
+export interface TimelineDay {
+  date: string; // YYYY-MM-DD
+  events: TripEvent[];
+}
+
+/** Events grouped by the day they start, days and events in order. */
+export const groupEventsByDay = (events: TripEvent[]): TimelineDay[] => {
+  const sorted = events
+    .map(event => ({ event, start: resolveEventTimes(event).start }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+  const days: TimelineDay[] = [];
+  sorted.forEach(({ event, start }) => {
+    const date = start.slice(0, 10);
+    const day = days[days.length - 1];
+    if (day?.date === date) day.events.push(event);
+    else days.push({ date, events: [event] });
+  });
+  return days;
+};
+
+// Bookings worth having at hand on the road: anything with a reference, plus all flights and stays
+export const getKeyBookings = (events: TripEvent[]): TripEvent[] =>
+  groupEventsByDay(events)
+    .flatMap(day => day.events)
+    .filter(event => event.confirmationNumber || event.type === 'flight' || event.type === 'hotel');
+
+export const formatDayHeading = (date: string): string => {
+  const parsed = new Date(date + 'T12:00:00'); // Noon to avoid timezone shifts
+  if (isNaN(parsed.getTime())) return date;
+  return new Intl.DateTimeFormat('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }).format(parsed);
+};
+
+export const formatNoteGroupTitle = (group: NoteGroup): string =>
+  group.category ? NOTE_CATEGORY_LABELS[group.category] : group.date ? formatDayHeading(group.date) : 'Whole trip';
+
+// Pinned answers by trip day, for the briefing and the Markdown export
+export const getPinnedAnswersByDay = (session: TripSession): NoteGroup[] =>
+  groupTripNotes(session.summary?.events ?? [], session.messages, 'day').filter(group => group.answers.length > 0);
+
+/** "09:30–11:00", "3 nights" or "All day", in the event's local time. */
+export const formatEventWhen = (event: TripEvent): string => {
+  const times = resolveEventTimes(event);
+  if (times.allDay) {
+    const nights = countNights(times);
+    return event.type === 'hotel' ? `${nights} night${nights === 1 ? '' : 's'}` : 'All day';
+  }
+  const hasEnd = !!event.end && event.end.slice(0, 16) === times.end;
+  if (!hasEnd) return times.start.slice(11);
+  const sameDay = times.end.slice(0, 10) === times.start.slice(0, 10);
+  return `${times.start.slice(11)}–${sameDay ? times.end.slice(11) : `${times.end.slice(5, 10)} ${times.end.slice(11)}`}`;
+};
+
+export const formatCitation = (citation: Citation): string =>
+  citation.fileName ? `${citation.fileName}, page ${citation.pageNumber}` : citation.raw;
+
+export const getSessionTitle = (session: TripSession): string => session.summary?.title || session.name;
+
+export const sessionFileName = (session: TripSession, extension: string): string =>
+  `${getSessionTitle(session).replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').toLowerCase() || 'trip'}.${extension}`;
+
+const escapeTableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * The whole session as Markdown: overview, day-by-day plan with the user's
+ * notes, key bookings, the checklist, pinned answers and the full conversation.
+ */
+export const buildSessionMarkdown = (session: TripSession): string => {
+  const { summary } = session;
+  const lines: string[] = [`# ${getSessionTitle(session)}`, ''];
+
+  if (summary) {
+    lines.push(`**Destination:** ${summary.destination}  `, `**Dates:** ${summary.dates}`, '');
+  }
+  lines.push(`**Documents:** ${session.files.map(f => f.name).join(', ') || 'none'}`, '');
+
+  const events = summary?.events ?? [];
+  if (events.length > 0) {
+    lines.push('## Day by day', '');
+    groupEventsByDay(events).forEach(day => {
+      lines.push(`### ${formatDayHeading(day.date)}`, '');
+      day.events.forEach(event => {
+        const where = event.location ? ` (${event.location})` : '';
+        const reference = event.confirmationNumber ? ` · Ref. ${event.confirmationNumber}` : '';
+        lines.push(`- **${formatEventWhen(event)}** ${event.activity}${where}${reference}`);
+        if (event.note) lines.push(`  - _Note:_ ${event.note.replace(/\n+/g, ' ')}`);
+      });
+      lines.push('');
+    });
+
+    const bookings = getKeyBookings(events);
+    if (bookings.length > 0) {
+      lines.push('## Key bookings', '', '| Booking | When | Reference | Details |', '| --- | --- | --- | --- |');
+      bookings.forEach(event => {
+        const details = getEventDetailEntries(event)
+          .filter(entry => entry.label !== 'Confirmation')
+          .map(entry => `${entry.label}: ${entry.value}`)
+          .join('; ');
+        lines.push(`| ${escapeTableCell(event.activity)} | ${event.date} ${escapeTableCell(formatEventWhen(event))} | ${escapeTableCell(event.confirmationNumber ?? '')} | ${escapeTableCell(details)} |`);
+      });
+      lines.push('');
+    }
+  }
+
+  const checklist = groupChecklist(summary?.checklist ?? []);
+  if (checklist.length > 0) {
+    lines.push('## Checklist', '');
+    checklist.forEach(group => {
+      lines.push(`### ${CHECKLIST_CATEGORY_LABELS[group.category]}`, '');
+      group.items.forEach(item => {
+        lines.push(`- [${item.done ? 'x' : ' '}] ${item.text}${item.due ? ` (by ${item.due.replace('T', ' ')})` : ''}`);
+        if (item.quote) lines.push(`  > ${item.quote.replace(/\n+/g, ' ')}`);
+      });
+      lines.push('');
+    });
+  }
+
+  const pinnedGroups = getPinnedAnswersByDay(session);
+  if (pinnedGroups.length > 0) {
+    lines.push('## Pinned answers', '');
+    pinnedGroups.forEach(group => {
+      lines.push(`### ${formatNoteGroupTitle(group)}`, '');
+      group.answers.forEach(({ question, answer }) => {
+        lines.push(`#### ${question?.content ?? 'Answer'}`, '', answer.content, '');
+        const sources = (answer.citations ?? []).filter(c => c.isValid).map(formatCitation);
+        if (sources.length > 0) lines.push(`_Sources: ${[...new Set(sources)].join('; ')}_`, '');
+      });
+    });
+  }
+
+  const conversation = session.messages.filter(m => m.role !== 'system' && m.content);
+  if (conversation.length > 0) {
+    lines.push('## Conversation', '');
+    conversation.forEach(message => {
+      const time = new Date(message.timestamp).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+      lines.push(`**${message.role === 'user' ? 'You' : 'Assistant'}** (${time})${message.isError ? ' (error)' : ''}`, '', message.content, '');
+    });
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+};
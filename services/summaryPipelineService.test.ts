@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { HotelEvent, TripEvent } from '../types';
+import { mergeExtractedEvents, withEventIds } from './summaryPipelineService';
+
+const CONFIRMATION: HotelEvent = {
+  type: 'hotel',
+  date: '2025-03-14',
+  time: '15:00',
+  activity: 'Hotel Lutetia',
+  location: 'Paris',
+  confirmationNumber: 'HL-55',
+  details: { checkInTime: '15:00' },
+  sources: [{ fileName: 'hotel.pdf', pageNumber: 1 }],
+  costs: [{ amount: 120, currency: 'EUR', status: 'paid', label: 'Deposit' }],
+};
+
+const INVOICE: HotelEvent = {
+  ...CONFIRMATION,
+  location: '',
+  details: { checkInTime: '14:00', checkOutTime: '11:00' },
+  sources: [{ fileName: 'hotel.pdf', pageNumber: 3 }],
+  costs: [
+    { amount: 120, currency: 'EUR', status: 'paid', label: 'deposit' },
+    { amount: 120, currency: 'EUR', status: 'paid', label: 'Deposit' },
+    { amount: 120, currency: 'EUR', status: 'due', dueDate: '2025-03-14', label: 'Balance' },
+  ],
+};
+
+describe('mergeExtractedEvents', () => {
+  it('folds two readings of one booking, the first winning', () => {
+    const [merged] = mergeExtractedEvents([CONFIRMATION, INVOICE]) as HotelEvent[];
+
+    expect(merged.location).toBe('Paris');
+    expect(merged.details).toEqual({ checkInTime: '15:00', checkOutTime: '11:00' });
+    expect(merged.sources).toEqual([
+      { fileName: 'hotel.pdf', pageNumber: 1 },
+      { fileName: 'hotel.pdf', pageNumber: 3 },
+    ]);
+  });
+
+  it('keeps equal charges that are separate, and drops a price printed twice', () => {
+    const [merged] = mergeExtractedEvents([CONFIRMATION, INVOICE]);
+
+    expect(merged.costs).toEqual([
+      { amount: 120, currency: 'EUR', status: 'paid', label: 'Deposit' },
+      { amount: 120, currency: 'EUR', status: 'paid', label: 'Deposit' },
+      { amount: 120, currency: 'EUR', status: 'due', dueDate: '2025-03-14', label: 'Balance' },
+    ]);
+  });
+
+  it('never merges events of different types', () => {
+    const dinner: TripEvent = { type: 'food', date: '2025-03-14', time: '15:00', activity: 'Hotel Lutetia', location: 'Paris' };
+    expect(mergeExtractedEvents([CONFIRMATION, dinner])).toHaveLength(2);
+  });
+});
+
+describe('withEventIds', () => {
+  it('gives new events an id and leaves existing ones alone', () => {
+    const [kept, added] = withEventIds([{ ...CONFIRMATION, id: 'hotel-1' }, INVOICE]);
+    expect(kept.id).toBe('hotel-1');
+    expect(added.id).toEqual(expect.any(String));
+
+    const events = [kept, added];
+    expect(withEventIds(events)).toBe(events);
+  });
+
+  it('keeps the id through a merge of two readings', () => {
+    const [merged] = mergeExtractedEvents([CONFIRMATION, { ...INVOICE, id: 'hotel-1' }]);
+    expect(merged.id).toBe('hotel-1');
+  });
+});
@@ -0,0 +1,185 @@
+import { EventCost, EventSource, TripEvent, UploadedFile } from '../types';
+import { mergeParticipants } from './travelerService';
+
+/**
+ * Plumbing for summarizing documents too long for one request: the pages are
+ * cut into ranges that are extracted separately ("map"), then the events of
+ * all ranges are merged back into one timeline ("reduce"). The prompts live in
+ * geminiService; everything here is independent of the model.
+ */
+
+export const DEFAULT_RANGE_CHARS = 12_000;
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 3;
+
+export interface PageRange {
+  fileName: string;
+  firstPage: number;
+  lastPage: number;
+  text: string; // The pages under "--- Page N ---" headers
+}
+
+/**
+ * Groups each file's pages into ranges of at most maxChars. Ranges never span
+ * two files, so page numbers given back by the model are unambiguous. A page
+ * longer than maxChars gets a range of its own rather than being cut.
+ */
+export const splitIntoPageRanges = (files: UploadedFile[], maxChars = DEFAULT_RANGE_CHARS): PageRange[] => {
+  const ranges: PageRange[] = [];
+
+  files.forEach(file => {
+    let current: PageRange | null = null;
+    file.pages.forEach(page => {
+      const block = `--- Page ${page.pageNumber} ---\n${page.text}\n\n`;
+      if (current && current.text.length + block.length > maxChars) {
+        ranges.push(current);
+        current = null;
+      }
+      current = current
+        ? { ...current, lastPage: page.pageNumber, text: current.text + block }
+        : { fileName: file.name, firstPage: page.pageNumber, lastPage: page.pageNumber, text: block };
+    });
+    if (current) ranges.push(current);
+  });
+
+  return ranges;
+};
+
+/**
+ * Like Promise.all over items.map(task), but with at most `limit` tasks
+ * running at once. Results keep the order of the items.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
+
+/**
+ * Turns the page numbers the model reported for an event into sources,
+ * keeping only pages inside the range it was shown. When none are usable,
+ * pages mentioning the confirmation number are used, else the whole range.
+ */
+export const resolveEventSources = (event: TripEvent, reportedPages: unknown, range: PageRange, file?: UploadedFile): EventSource[] => {
+  const inRange = (page: number) => page >= range.firstPage && page <= range.lastPage;
+  const toSources = (pages: number[]) =>
+    [...new Set(pages)].sort((a, b) => a - b).map(pageNumber => ({ fileName: range.fileName, pageNumber }));
+
+  const reported = (Array.isArray(reportedPages) ? reportedPages : [])
+    .map(page => Number(page))
+    .filter(page => Number.isInteger(page) && inRange(page));
+  if (reported.length > 0) return toSources(reported);
+
+  const confirmation = event.confirmationNumber;
+  const mentioning = confirmation
+    ? (file?.pages ?? []).filter(p => inRange(p.pageNumber) && p.text.includes(confirmation)).map(p => p.pageNumber)
+    : [];
+  if (mentioning.length > 0) return toSources(mentioning);
+
+  const all: number[] = [];
+  for (let page = range.firstPage; page <= range.lastPage; page++) all.push(page);
+  return toSources(all);
+};
+
+const normalizeActivity = (activity: string) => activity.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Two readings of the same booking, e.g. from the confirmation and the invoice
+export const isSameEvent = (a: TripEvent, b: TripEvent): boolean => {
+  if (a.type !== b.type || a.date !== b.date) return false;
+  if (a.confirmationNumber && b.confirmationNumber) {
+    return a.confirmationNumber.replace(/\s/g, '').toUpperCase() === b.confirmationNumber.replace(/\s/g, '').toUpperCase()
+      && (a.time === b.time || !!a.allDay || !!b.allDay);
+  }
+  return a.time === b.time && normalizeActivity(a.activity) === normalizeActivity(b.activity);
+};
+
+const mergeSources = (a: EventSource[] = [], b: EventSource[] = []): EventSource[] | undefined => {
+  const merged = [...a, ...b]
+    .filter((source, i, all) => all.findIndex(s => s.fileName === source.fileName && s.pageNumber === source.pageNumber) === i)
+    .sort((x, y) => x.fileName.localeCompare(y.fileName) || x.pageNumber - y.pageNumber);
+  return merged.length > 0 ? merged : undefined;
+};
+
+// Fields of `target` that are missing or empty are taken from `source`
+const fillBlanks = <T extends object>(target: T, source: T) => {
+  (Object.keys(source) as (keyof T)[]).forEach(key => {
+    if (target[key] === undefined || target[key] === '') target[key] = source[key];
+  });
+};
+
+const isSameCost = (a: EventCost, b: EventCost) =>
+  a.amount === b.amount
+  && a.currency === b.currency
+  && a.status === b.status
+  && (a.dueDate ?? '') === (b.dueDate ?? '')
+  && (a.label ?? '').trim().toLowerCase() === (b.label ?? '').trim().toLowerCase();
+
+// The same price is often printed on both the confirmation and the invoice,
+// but two equal deposits are two charges: each cost of the first reading
+// stands for at most one of the second
+const mergeCosts = (first: EventCost[] = [], second: EventCost[] = []): EventCost[] => {
+  const unmatched = [...first];
+  const extra = second.filter(cost => {
+    const index = unmatched.findIndex(c => isSameCost(c, cost));
+    if (index === -1) return true;
+    unmatched.splice(index, 1);
+    return false;
+  });
+  return [...first, ...extra];
+};
+
+// The first reading wins; the second only fills in what the first lacks.
+// Only readings of one type are merged (see isSameEvent): details of one
+// type mean nothing to another.
+const mergeEventPair = <T extends TripEvent>(first: T, second: T): T => {
+  if (first.type !== second.type) return first;
+  const merged: T = { ...first };
+  fillBlanks(merged, second);
+  if (first.details && second.details) {
+    const details = { ...first.details };
+    fillBlanks(details, second.details);
+    merged.details = details;
+  }
+  const sources = mergeSources(first.sources, second.sources);
+  if (sources) merged.sources = sources;
+  const costs = mergeCosts(first.costs, second.costs);
+  if (costs.length > 0) merged.costs = costs;
+  // Group bookings often list each passenger on a page of their own
+  if (first.participants || second.participants) merged.participants = mergeParticipants(first.participants, second.participants);
+  return merged;
+};
+
+// Random, so that correcting an event's time or name never changes it
+export const createEventId = (): string =>
+  globalThis.crypto?.randomUUID ? globalThis.crypto.randomUUID() : `event-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+/** Gives every event without an id one of its own. */
+export const withEventIds = (events: TripEvent[]): TripEvent[] =>
+  events.some(event => !event.id) ? events.map(event => (event.id ? event : { ...event, id: createEventId() })) : events;
+
+/**
+ * Merges the events extracted from all ranges: duplicates (same booking seen
+ * on several pages) are folded into one event that keeps every source page,
+ * and the result is sorted by start.
+ */
+export const mergeExtractedEvents = (events: TripEvent[]): TripEvent[] => {
+  const merged: TripEvent[] = [];
+  events.forEach(event => {
+    const index = merged.findIndex(existing => isSameEvent(existing, event));
+    if (index === -1) merged.push(event);
+    else merged[index] = mergeEventPair(merged[index], event);
+  });
+  return merged.sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { FlightEvent, UploadedFile } from '../types';
+import {
+  normalizeAmount,
+  normalizeCurrency,
+  normalizeDate,
+  normalizeTime,
+  validateChecklist,
+  validateExtractedEvents,
+} from './summaryValidationService';
+
+describe('normalizeDate', () => {
+  it('reads ISO, written-out and unambiguous slash dates', () => {
+    expect(normalizeDate('2025-03-14T10:00')).toBe('2025-03-14');
+    expect(normalizeDate('Sunday, 12 October 2025')).toBe('2025-10-12');
+    expect(normalizeDate('Oct 12, 2025')).toBe('2025-10-12');
+    expect(normalizeDate('13/04/2025')).toBe('2025-04-13');
+    expect(normalizeDate('04/13/2025')).toBe('2025-04-13');
+  });
+
+  it('refuses to guess which of day and month comes first', () => {
+    expect(normalizeDate('03/04/2025')).toBeNull();
+  });
+
+  it('reads dotted dates day first', () => {
+    expect(normalizeDate('03.04.2025')).toBe('2025-04-03');
+  });
+
+  it('rejects days that do not exist', () => {
+    expect(normalizeDate('31.02.2025')).toBeNull();
+    expect(normalizeDate('next Tuesday')).toBeNull();
+  });
+});
+
+describe('normalizeTime', () => {
+  it('reads 12h times', () => {
+    expect(normalizeTime('2:30 PM')).toBe('14:30');
+    expect(normalizeTime('12 a.m.')).toBe('00:00');
+    expect(normalizeTime('13:00 pm')).toBeNull();
+  });
+
+  it('reads 24h times, with or without seconds', () => {
+    expect(normalizeTime('9:05')).toBe('09:05');
+    expect(normalizeTime('09:05:00')).toBe('09:05');
+    expect(normalizeTime('25:00')).toBeNull();
+  });
+
+  it('reads "21h30" and "2130"', () => {
+    expect(normalizeTime('21h30')).toBe('21:30');
+    expect(normalizeTime('2130')).toBe('21:30');
+  });
+});
+
+describe('amounts and currencies', () => {
+  it('reads prices as printed', () => {
+    expect(normalizeAmount(99.999)).toBe(100);
+    expect(normalizeAmount('1,234.50')).toBe(1234.5);
+    expect(normalizeAmount('1.234,50')).toBe(1234.5);
+    expect(normalizeAmount('1 234,50 €')).toBe(1234.5);
+    expect(normalizeAmount('120,-')).toBe(120);
+  });
+
+  it('rejects negative and unreadable amounts', () => {
+    expect(normalizeAmount('-20')).toBeNull();
+    expect(normalizeAmount('free')).toBeNull();
+  });
+
+  it('turns symbols and names into ISO codes', () => {
+    expect(normalizeCurrency('€')).toBe('EUR');
+    expect(normalizeCurrency('us$')).toBe('USD');
+    expect(normalizeCurrency('eur')).toBe('EUR');
+    expect(normalizeCurrency('Dollars')).toBe('USD');
+    expect(normalizeCurrency('euros!')).toBeNull();
+  });
+});
+
+describe('validateExtractedEvents', () => {
+  it('keeps usable events with their fixable parts, and reports the rest', () => {
+    const result = validateExtractedEvents({
+      events: [
+        {
+          activity: 'Flight AF1234',
+          date: '14.03.2025',
+          type: 'Flights',
+          time: 'noon',
+          costs: [
+            { amount: '1.234,50', currency: '€', status: 'prepaid' },
+            { amount: 'free', currency: 'EUR', status: 'paid' },
+          ],
+        },
+        { activity: 'Dinner', date: 'sometime', type: 'food' },
+      ],
+    });
+
+    expect(result.validCount).toBe(1);
+    expect(result.value).toEqual([{
+      activity: 'Flight AF1234',
+      date: '2025-03-14',
+      time: '09:00',
+      location: '',
+      type: 'flight',
+      pages: undefined,
+      costs: [{ amount: 1234.5, currency: 'EUR', status: 'paid' }],
+    }]);
+    expect(result.errors).toEqual([
+      'events[0].time: "noon" is not a time; use HH:MM (24h)',
+      'events[0].costs[1].amount: "free" is not an amount; use a number like 120.50',
+      'events[1].date: "sometime" is not a date; use YYYY-MM-DD',
+    ]);
+  });
+
+  it('rejects an answer without an events list', () => {
+    expect(validateExtractedEvents([])).toEqual({ value: [], errors: ['events: expected an array of events'], validCount: 0 });
+  });
+});
+
+describe('validateChecklist', () => {
+  const FILES: UploadedFile[] = [{
+    name: 'entry.pdf',
+    content: '',
+    pages: [
+      { pageNumber: 1, text: 'Booking reference AF-99.' },
+      { pageNumber: 2, text: "Travellers must hold a passport that's valid for six months after arrival." },
+    ],
+    size: 0,
+    pageCount: 2,
+  }];
+
+  const FLIGHT: FlightEvent = {
+    type: 'flight',
+    date: '2025-03-14',
+    time: '10:00',
+    activity: 'Flight AF1234',
+    location: 'Paris CDG',
+    confirmationNumber: 'AF-99',
+    sources: [{ fileName: 'entry.pdf', pageNumber: 1 }],
+  };
+
+  it('keeps a quote found in the documents, and cites the page it is really on', () => {
+    const { value, errors } = validateChecklist({
+      items: [{
+        category: 'passport',
+        text: 'Check your passport is valid long enough',
+        quote: 'travellers must hold a passport that’s valid  for six months',
+        fileName: 'entry.pdf',
+        page: 1,
+      }],
+    }, [FLIGHT], FILES);
+
+    expect(errors).toEqual([]);
+    expect(value[0]).toMatchObject({ category: 'visa', sources: [{ fileName: 'entry.pdf', pageNumber: 2 }] });
+    expect(value[0].quote).toBeDefined();
+  });
+
+  it('drops an invented quote but keeps the item, tied to its event', () => {
+    const { value, errors } = validateChecklist({
+      items: [{ category: 'visa', text: 'Apply for a visa', quote: 'A visa is required for all travellers.', eventNumber: 1 }],
+    }, [FLIGHT], FILES);
+
+    expect(value).toEqual([{
+      id: 'check-1',
+      category: 'visa',
+      text: 'Apply for a visa',
+      event: { date: '2025-03-14', activity: 'Flight AF1234', confirmationNumber: 'AF-99' },
+      sources: [{ fileName: 'entry.pdf', pageNumber: 1 }],
+    }]);
+    expect(errors).toEqual(['items[0].quote: not found word for word in the documents; copy the sentence exactly or leave it empty']);
+  });
+});
@@ -0,0 +1,464 @@
+import { ChecklistCategory, ChecklistItem, CostStatus, EventCost, EventParticipant, EventSource, TripEvent, TripEventType, TripSummary, UploadedFile } from '../types';
+import { isValidTimeZone } from './eventTimeService';
+import { mergeParticipants, normalizeTravelerName } from './travelerService';
+
+/**
+ * Runtime checks for the JSON the model returns for summaries. The schema
+ * is only a request: models still send "14.03.2025", "2:30 PM" or "Hotel"
+ * as a type. Values that can be read unambiguously are normalized; the rest
+ * become error messages, written so they can be sent back to the model.
+ */
+
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+  validCount: number; // Accepted items, to pick the best of several attempts
+}
+
+export type ExtractedEvent = TripEvent & { pages?: unknown };
+
+export type TripOverview = Omit<TripSummary, 'events' | 'checklist'>;
+
+const EVENT_TYPES: TripEventType[] = ['flight', 'hotel', 'activity', 'food', 'other'];
+
+// Words models use instead of the enum values
+const EVENT_TYPE_ALIASES: Record<string, TripEventType> = {
+  flights: 'flight', plane: 'flight', air: 'flight', airline: 'flight',
+  accommodation: 'hotel', lodging: 'hotel', stay: 'hotel', hostel: 'hotel', airbnb: 'hotel', 'check-in': 'hotel',
+  restaurant: 'food', dining: 'food', meal: 'food', dinner: 'food', lunch: 'food', breakfast: 'food',
+  tour: 'activity', excursion: 'activity', sightseeing: 'activity', event: 'activity', ticket: 'activity',
+  train: 'activity', transfer: 'activity', transport: 'activity', car: 'activity', 'car rental': 'activity',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return valid ? `${year}-${pad(month)}-${pad(day)}` : null;
+};
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+/**
+ * YYYY-MM-DD from the date formats found in bookings. Slash dates like
+ * 03/04/2025 are only accepted when the day is recognizable (over 12).
+ */
+export const normalizeDate = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:$|[T\s])/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})([./])(\d{1,2})\2(\d{4})$/);
+  if (match) {
+    const [a, b, year] = [+match[1], +match[3], +match[4]];
+    if (match[2] === '.' || a > 12) return toIsoDate(year, b, a); // European day-first
+    if (b > 12) return toIsoDate(year, a, b);
+    return null;
+  }
+
+  // "12 Oct 2025", "Sunday, 12 October 2025"
+  match = text.match(/(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,})\.?,?\s+(\d{4})/);
+  if (match && monthIndex(match[2]) > 0) return toIsoDate(+match[3], monthIndex(match[2]), +match[1]);
+  // "Oct 12, 2025"
+  match = text.match(/([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/);
+  if (match && monthIndex(match[1]) > 0) return toIsoDate(+match[3], monthIndex(match[1]), +match[2]);
+
+  return null;
+};
+
+/** HH:MM (24h) from "9:05", "09:05:00", "2:30 PM", "21h30" or "2130". */
+export const normalizeTime = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  let hour: number;
+  let minute = 0;
+  let meridiem: string | undefined;
+  let match = text.match(/^(\d{1,2})[:h.](\d{2})(?::\d{2}(?:\.\d+)?)?\s?([ap])?\.?m?\.?$/);
+  if (match) {
+    [hour, minute, meridiem] = [+match[1], +match[2], match[3]];
+  } else if ((match = text.match(/^(\d{1,2})\s?([ap])\.?m\.?$/))) {
+    [hour, meridiem] = [+match[1], match[2]];
+  } else if ((match = text.match(/^(\d{2})(\d{2})$/))) {
+    [hour, minute] = [+match[1], +match[2]];
+  } else {
+    return null;
+  }
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  return hour <= 23 && minute <= 59 ? `${pad(hour)}:${pad(minute)}` : null;
+};
+
+export const normalizeEventType = (value: unknown): TripEventType | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if ((EVENT_TYPES as string[]).includes(key)) return key as TripEventType;
+  return EVENT_TYPE_ALIASES[key] ?? null;
+};
+
+// Symbols and names models copy from the documents instead of the ISO code
+const CURRENCY_ALIASES: Record<string, string> = {
+  '€': 'EUR', EURO: 'EUR', EUROS: 'EUR', '$': 'USD', 'US$': 'USD', DOLLAR: 'USD', DOLLARS: 'USD',
+  '£': 'GBP', POUND: 'GBP', POUNDS: 'GBP', '¥': 'JPY', YEN: 'JPY', '₹': 'INR', '₩': 'KRW', '฿': 'THB',
+  'FR.': 'CHF', 'SFR.': 'CHF', 'KČ': 'CZK', 'ZŁ': 'PLN', 'R$': 'BRL', 'A$': 'AUD', 'C$': 'CAD', 'NZ$': 'NZD', 'HK$': 'HKD',
+};
+
+const COST_STATUS_ALIASES: Record<string, CostStatus> = {
+  prepaid: 'paid', charged: 'paid', 'paid in full': 'paid', settled: 'paid',
+  unpaid: 'due', outstanding: 'due', balance: 'due', pending: 'due', 'to pay': 'due',
+  'pay at property': 'due', 'pay on arrival': 'due', 'pay at hotel': 'due', 'pay later': 'due',
+};
+
+/** ISO 4217 code from "eur", "€" or "US$". */
+export const normalizeCurrency = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toUpperCase();
+  if (/^[A-Z]{3}$/.test(key)) return key;
+  return CURRENCY_ALIASES[key] ?? null;
+};
+
+/**
+ * Amount from a number or a price as printed: "1,234.50", "1.234,50",
+ * "1 234,50 €" or "120,-". Negative and unreadable amounts give null.
+ */
+export const normalizeAmount = (value: unknown): number | null => {
+  let amount: number;
+  if (typeof value === 'number') {
+    amount = value;
+  } else if (typeof value === 'string') {
+    let text = value.replace(/[^\d.,'-]/g, '').replace(/[,.]-$/, '').replace(/'/g, '');
+    if (!/\d/.test(text) || text.includes('-')) return null;
+    const decimal = text.match(/[.,](\d{1,2})$/);
+    const [whole, fraction] = decimal ? [text.slice(0, decimal.index), decimal[1]] : [text, ''];
+    text = `${whole.replace(/[.,]/g, '')}${fraction ? `.${fraction}` : ''}`;
+    amount = Number(text);
+  } else {
+    return null;
+  }
+  return Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) / 100 : null;
+};
+
+const normalizeCostStatus = (value: unknown): CostStatus | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if (key === 'paid' || key === 'due') return key;
+  return COST_STATUS_ALIASES[key] ?? null;
+};
+
+// "2025-03-14T10:25", "2025-03-14 10:25:00", "14.03.2025 10:25" or a date alone
+const normalizeEnd = (value: string): string | null => {
+  const match = value.trim().match(/^(.+?)(?:[T\s]+(\d{1,2}[:h.]\d{2}(?::\d{2})?(?:\s?[ap]\.?m\.?)?))?(?:Z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) return null;
+  const date = normalizeDate(match[1]);
+  if (!date) return null;
+  if (!match[2]) return date;
+  const time = normalizeTime(match[2]);
+  return time ? `${date}T${time}` : null;
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks the prices of one event. Costs without a readable amount or
+ * currency are dropped; an unclear status counts as still to pay.
+ */
+const validateCosts = (raw: unknown, path: string, errors: string[]): EventCost[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: expected an array of costs`);
+    return [];
+  }
+
+  return raw.flatMap((item, i): EventCost[] => {
+    const fail = (field: string, message: string) => errors.push(`${path}[${i}].${field}: ${message}`);
+    if (!isObject(item)) {
+      errors.push(`${path}[${i}]: expected an object`);
+      return [];
+    }
+
+    const amount = normalizeAmount(item.amount);
+    if (amount === null) fail('amount', `${JSON.stringify(item.amount) ?? 'nothing'} is not an amount; use a number like 120.50`);
+    const currency = normalizeCurrency(item.currency);
+    if (!currency) fail('currency', `${JSON.stringify(item.currency) ?? 'nothing'} is not a currency; use a 3-letter code like EUR`);
+    if (amount === null || !currency) return [];
+
+    const status = normalizeCostStatus(item.status);
+    if (!status) fail('status', `${JSON.stringify(item.status) ?? 'nothing'} is not "paid" or "due"`);
+
+    const cost: EventCost = { amount, currency, status: status ?? 'due' };
+    const dueDate = optionalString(item.dueDate);
+    if (dueDate) {
+      const normalized = normalizeDate(dueDate);
+      if (normalized) cost.dueDate = normalized;
+      else fail('dueDate', `${JSON.stringify(dueDate)} is not a date; use YYYY-MM-DD`);
+    }
+    const label = optionalString(item.label);
+    if (label) cost.label = label;
+    return [cost];
+  });
+};
+
+/**
+ * Checks who one event is for. Names are normalized so that "SHARMA/PRIYA MS"
+ * and "Priya Sharma" end up as the same traveler; repeated names are folded.
+ */
+const validateParticipants = (raw: unknown, path: string, errors: string[]): EventParticipant[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: expected an array of participants`);
+    return [];
+  }
+
+  return mergeParticipants([], raw.flatMap((item, i): EventParticipant[] => {
+    // Models sometimes list bare names
+    const fields = typeof item === 'string' ? { name: item } : item;
+    if (!isObject(fields)) {
+      errors.push(`${path}[${i}]: expected an object`);
+      return [];
+    }
+    const rawName = optionalString(fields.name);
+    const name = rawName ? normalizeTravelerName(rawName) : null;
+    if (!name) {
+      errors.push(`${path}[${i}].name: ${JSON.stringify(fields.name) ?? 'nothing'} is not a person's name`);
+      return [];
+    }
+    const detail = optionalString(fields.detail);
+    return [detail ? { name, detail } : { name }];
+  }));
+};
+
+/**
+ * Checks one event. Returns null when it can't be used at all (no title, no
+ * readable date or type); smaller problems are reported but the event is kept.
+ */
+const validateEvent = (raw: unknown, path: string, errors: string[]): ExtractedEvent | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return null;
+  }
+  const fail = (field: string, message: string) => errors.push(`${path}.${field}: ${message}`);
+  const shown = (value: unknown) => JSON.stringify(value) ?? 'nothing';
+
+  const activity = optionalString(raw.activity);
+  if (!activity) fail('activity', 'missing; give a short description');
+
+  const date = normalizeDate(raw.date);
+  if (!date) fail('date', `${shown(raw.date)} is not a date; use YYYY-MM-DD`);
+
+  const type = normalizeEventType(raw.type);
+  if (!type) fail('type', `${shown(raw.type)} is not one of ${EVENT_TYPES.join(', ')}`);
+
+  if (!activity || !date || !type) return null;
+
+  let time = normalizeTime(raw.time);
+  if (!time) {
+    if (raw.time !== undefined && raw.time !== '') fail('time', `${shown(raw.time)} is not a time; use HH:MM (24h)`);
+    time = '09:00';
+  }
+
+  const event: Record<string, unknown> = {
+    date,
+    time,
+    activity,
+    location: optionalString(raw.location) ?? '',
+    type,
+    pages: raw.pages,
+  };
+
+  const end = optionalString(raw.end);
+  if (end) {
+    const normalized = normalizeEnd(end);
+    if (normalized) event.end = normalized;
+    else fail('end', `${shown(raw.end)} is not a date or date-time; use YYYY-MM-DDTHH:MM or YYYY-MM-DD`);
+  }
+
+  (['timeZone', 'endTimeZone'] as const).forEach(field => {
+    const zone = optionalString(raw[field]);
+    if (!zone) return;
+    if (isValidTimeZone(zone)) event[field] = zone;
+    else fail(field, `${shown(zone)} is not an IANA time zone such as "Europe/Paris"`);
+  });
+
+  if (typeof raw.allDay === 'boolean') event.allDay = raw.allDay;
+  else if (raw.allDay === 'true' || raw.allDay === 'false') event.allDay = raw.allDay === 'true';
+  else if (raw.allDay !== undefined && raw.allDay !== null) fail('allDay', `${shown(raw.allDay)} is not true or false`);
+
+  const confirmation = optionalString(raw.confirmationNumber);
+  if (confirmation) event.confirmationNumber = confirmation;
+
+  const costs = validateCosts(raw.costs, `${path}.costs`, errors);
+  if (costs.length > 0) event.costs = costs;
+
+  const participants = validateParticipants(raw.participants, `${path}.participants`, errors);
+  if (participants.length > 0) event.participants = participants;
+
+  if (isObject(raw.details)) event.details = raw.details; // Fields are checked per type later
+  else if (raw.details !== undefined && raw.details !== null) fail('details', 'expected an object');
+
+  return event as unknown as ExtractedEvent;
+};
+
+/**
+ * Validates the events of one page range. Unusable events are left out and
+ * the usable ones returned, together with everything that was wrong.
+ */
+export const validateExtractedEvents = (raw: unknown): ValidationResult<ExtractedEvent[]> => {
+  const errors: string[] = [];
+  const list = isObject(raw) ? raw.events : undefined;
+  if (!Array.isArray(list)) {
+    return { value: [], errors: ['events: expected an array of events'], validCount: 0 };
+  }
+
+  const events = list
+    .map((item, i) => validateEvent(item, `events[${i}]`, errors))
+    .filter((event): event is ExtractedEvent => event !== null);
+  return { value: events, errors, validCount: events.length };
+};
+
+/**
+ * Validates the trip overview. Missing fields get neutral placeholders so
+ * the summary is always usable, but are still reported as errors.
+ */
+export const validateOverview = (raw: unknown, placeholder: TripOverview): ValidationResult<TripOverview> => {
+  const errors: string[] = [];
+  const source = isObject(raw) ? raw : {};
+  if (!isObject(raw)) errors.push('expected an object');
+
+  const text = (field: 'title' | 'destination' | 'dates') => {
+    const value = optionalString(source[field]);
+    if (!value) errors.push(`${field}: missing`);
+    return value;
+  };
+  const title = text('title');
+  const destination = text('destination');
+  const dates = text('dates');
+
+  const questions = Array.isArray(source.suggestedQuestions)
+    ? source.suggestedQuestions.map(optionalString).filter((q): q is string => !!q)
+    : [];
+  if (questions.length === 0) errors.push('suggestedQuestions: expected a list of questions');
+
+  return {
+    value: {
+      title: title ?? placeholder.title,
+      destination: destination ?? placeholder.destination,
+      dates: dates ?? placeholder.dates,
+      suggestedQuestions: questions.length > 0 ? questions : placeholder.suggestedQuestions,
+    },
+    errors,
+    validCount: [title, destination, dates].filter(Boolean).length + (questions.length > 0 ? 1 : 0),
+  };
+};
+
+const CHECKLIST_CATEGORIES: ChecklistCategory[] = ['documents', 'visa', 'check-in', 'payment', 'packing'];
+
+const CHECKLIST_CATEGORY_ALIASES: Record<string, ChecklistCategory> = {
+  document: 'documents', docs: 'documents', tickets: 'documents',
+  passport: 'visa', entry: 'visa', 'entry requirements': 'visa', immigration: 'visa',
+  checkin: 'check-in', 'check in': 'check-in', 'online check-in': 'check-in',
+  payments: 'payment', pay: 'payment', money: 'payment', 'payments due': 'payment',
+  pack: 'packing', luggage: 'packing', gear: 'packing', 'packing list': 'packing',
+};
+
+const normalizeChecklistCategory = (value: unknown): ChecklistCategory | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  return CHECKLIST_CATEGORIES.includes(key as ChecklistCategory) ? key as ChecklistCategory : CHECKLIST_CATEGORY_ALIASES[key] ?? null;
+};
+
+// Quotes are compared without case, spacing or typographic quote differences
+const comparable = (text: string) => text.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+
+/**
+ * Validates the checklist. Items are tied to the numbered timeline they were
+ * written from; a quote is only kept when it really is on the page given (or
+ * anywhere in the documents), so nothing invented passes as the document's words.
+ */
+export const validateChecklist = (raw: unknown, events: TripEvent[], files: UploadedFile[]): ValidationResult<ChecklistItem[]> => {
+  const errors: string[] = [];
+  const list = isObject(raw) ? raw.items : undefined;
+  if (!Array.isArray(list)) {
+    return { value: [], errors: ['items: expected an array of checklist items'], validCount: 0 };
+  }
+
+  const items: ChecklistItem[] = [];
+  list.forEach((item, i) => {
+    const path = `items[${i}]`;
+    const fail = (field: string, message: string) => errors.push(`${path}.${field}: ${message}`);
+    const shown = (value: unknown) => JSON.stringify(value) ?? 'nothing';
+    if (!isObject(item)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+
+    const category = normalizeChecklistCategory(item.category);
+    if (!category) fail('category', `${shown(item.category)} is not one of ${CHECKLIST_CATEGORIES.join(', ')}`);
+    const text = optionalString(item.text);
+    if (!text) fail('text', 'missing; say what to do or bring');
+    if (!category || !text) return;
+    // The same reminder from two bookings is one item
+    if (items.some(existing => existing.category === category && comparable(existing.text) === comparable(text))) return;
+
+    const checklistItem: ChecklistItem = { id: `check-${items.length + 1}`, category, text };
+
+    const due = optionalString(item.due);
+    if (due) {
+      const normalized = normalizeEnd(due);
+      if (normalized) checklistItem.due = normalized;
+      else fail('due', `${shown(due)} is not a date or date-time; use YYYY-MM-DD or YYYY-MM-DDTHH:MM`);
+    }
+
+    let sources: EventSource[] = [];
+    if (item.eventNumber !== undefined && item.eventNumber !== null && item.eventNumber !== 0) {
+      const event = Number.isInteger(item.eventNumber) ? events[(item.eventNumber as number) - 1] : undefined;
+      if (event) {
+        checklistItem.event = { date: event.date, activity: event.activity };
+        if (event.confirmationNumber) checklistItem.event.confirmationNumber = event.confirmationNumber;
+        sources = event.sources ?? [];
+      } else {
+        fail('eventNumber', `${shown(item.eventNumber)} is not the number of an event in the timeline (1-${events.length})`);
+      }
+    }
+
+    const fileName = optionalString(item.fileName);
+    const file = fileName ? files.find(f => f.name === fileName) : undefined;
+    const page = file?.pages.find(p => p.pageNumber === Number(item.page));
+    if (fileName && !page) fail('page', `${shown(fileName)} page ${shown(item.page)} is not one of the documents' pages`);
+    if (page) sources = [{ fileName: file.name, pageNumber: page.pageNumber }];
+
+    const quote = optionalString(item.quote);
+    if (quote) {
+      const wanted = comparable(quote);
+      const found = page && comparable(page.text).includes(wanted)
+        ? { fileName: file.name, pageNumber: page.pageNumber }
+        : files.flatMap(f => f.pages.map(p => ({ fileName: f.name, pageNumber: p.pageNumber, text: p.text })))
+          .find(p => comparable(p.text).includes(wanted));
+      if (found) {
+        checklistItem.quote = quote;
+        sources = [{ fileName: found.fileName, pageNumber: found.pageNumber }];
+      } else {
+        fail('quote', 'not found word for word in the documents; copy the sentence exactly or leave it empty');
+      }
+    }
+
+    if (sources.length > 0) checklistItem.sources = sources;
+    items.push(checklistItem);
+  });
+
+  return { value: items, errors, validCount: items.length };
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { HotelEvent, TripEvent } from '../types';
+import { asksAboutNow, formatCountdown, getQuickQuestions, getTodayPlan } from './todayService';
+import { createManualClock } from './clockService';
+
+// "Today" is the device's date; pin the device to the trip's zone
+process.env.TZ = 'Europe/Paris';
+
+const MINUTE = 60_000;
+
+const HOTEL: HotelEvent = {
+  type: 'hotel',
+  activity: 'Hotel Lutetia',
+  date: '2025-05-01',
+  time: '',
+  location: 'Paris',
+  start: '2025-05-01',
+  end: '2025-05-03',
+  allDay: true,
+  timeZone: 'Europe/Paris',
+  details: { checkOutTime: '12:00' },
+};
+
+const EVENTS: TripEvent[] = [
+  HOTEL,
+  { type: 'activity', activity: 'Louvre tour', date: '2025-05-02', time: '09:00', location: 'Louvre', start: '2025-05-02T09:00', end: '2025-05-02T11:00', timeZone: 'Europe/Paris' },
+  { type: 'food', activity: 'Lunch', date: '2025-05-02', time: '12:30', location: 'Le Procope', start: '2025-05-02T12:30', timeZone: 'Europe/Paris' },
+  { type: 'food', activity: 'Dinner', date: '2025-05-02', time: '20:00', location: 'Septime', start: '2025-05-02T20:00', timeZone: 'Europe/Paris' },
+  { type: 'flight', activity: 'Flight AF22', date: '2025-05-03', time: '15:00', location: 'CDG → JFK', start: '2025-05-03T15:00', end: '2025-05-03T17:30', timeZone: 'Europe/Paris', endTimeZone: 'America/New_York', confirmationNumber: 'ABC123' },
+];
+
+const activities = (entries: { event: TripEvent }[]) => entries.map(entry => entry.event.activity);
+
+describe('getTodayPlan', () => {
+  it('tells what is under way, what is next and what is left today', () => {
+    const clock = createManualClock(Date.parse('2025-05-02T10:15:00+02:00'));
+    const plan = getTodayPlan(EVENTS, clock.now());
+
+    expect(plan.today).toBe('2025-05-02');
+    expect(activities(plan.current)).toEqual(['Louvre tour']);
+    expect(activities(plan.stays)).toEqual(['Hotel Lutetia']);
+    expect(plan.next?.event.activity).toBe('Lunch');
+    expect(formatCountdown(plan.next!.start - clock.now())).toBe('in 2 h 15 min');
+    expect(activities(plan.laterToday)).toEqual(['Dinner']);
+  });
+
+  it('moves on as the clock does', () => {
+    const clock = createManualClock(Date.parse('2025-05-02T10:15:00+02:00'));
+
+    clock.advance(2 * 60 * MINUTE);
+    let plan = getTodayPlan(EVENTS, clock.now());
+    expect(plan.current).toEqual([]);
+    expect(formatCountdown(plan.next!.start - clock.now())).toBe('in 15 min');
+
+    clock.advance(15 * MINUTE);
+    plan = getTodayPlan(EVENTS, clock.now());
+    expect(activities(plan.current)).toEqual(['Lunch']);
+    expect(plan.next?.event.activity).toBe('Dinner');
+    expect(plan.laterToday).toEqual([]);
+  });
+
+  it('looks past today for the next event', () => {
+    const plan = getTodayPlan(EVENTS, Date.parse('2025-05-02T22:00:00+02:00'));
+    expect(plan.next?.event.activity).toBe('Flight AF22');
+    expect(plan.laterToday).toEqual([]);
+  });
+
+  it('keeps a stay under way until its check-out time', () => {
+    expect(activities(getTodayPlan(EVENTS, Date.parse('2025-05-03T11:59:00+02:00')).stays)).toEqual(['Hotel Lutetia']);
+    expect(getTodayPlan(EVENTS, Date.parse('2025-05-03T12:00:00+02:00')).stays).toEqual([]);
+  });
+
+  it('keeps a stay without a zone and with a loose check-out time', () => {
+    const stay: HotelEvent = { ...HOTEL, timeZone: undefined, details: { checkOutTime: '11 AM' } };
+    expect(activities(getTodayPlan([stay], Date.parse('2025-05-01T12:00:00+02:00')).stays)).toEqual(['Hotel Lutetia']);
+  });
+
+  it('has nothing next once the trip is over', () => {
+    const plan = getTodayPlan(EVENTS, Date.parse('2025-05-04T10:00:00+02:00'));
+    expect(plan.next).toBeNull();
+    expect(plan.stays).toEqual([]);
+    expect(getQuickQuestions(plan)).toEqual([]);
+  });
+});
+
+describe('formatCountdown', () => {
+  it('counts in minutes, hours, then days', () => {
+    expect(formatCountdown(0)).toBe('now');
+    expect(formatCountdown(30_000)).toBe('in 1 min');
+    expect(formatCountdown(25 * MINUTE)).toBe('in 25 min');
+    expect(formatCountdown(24 * 60 * MINUTE)).toBe('in 1 day');
+    expect(formatCountdown(47 * 60 * MINUTE)).toBe('in 47 h');
+    expect(formatCountdown(11 * 24 * 60 * MINUTE)).toBe('in 11 days');
+  });
+});
+
+describe('getQuickQuestions', () => {
+  it('asks about the next event, the stay and the rest of the day', () => {
+    const questions = getQuickQuestions(getTodayPlan(EVENTS, Date.parse('2025-05-02T10:15:00+02:00')));
+    expect(questions).toEqual([
+      `What's the address of "Lunch" and how do I get there?`,
+      'What time is check-out at "Hotel Lutetia", and can I leave my luggage?',
+      "What's left to do today?",
+    ]);
+  });
+
+  it('asks about the terminal and what to show before a flight', () => {
+    const questions = getQuickQuestions(getTodayPlan(EVENTS, Date.parse('2025-05-03T11:00:00+02:00')));
+    expect(questions.slice(0, 2)).toEqual([
+      'Which terminal and gate does "Flight AF22" leave from, and when does boarding start?',
+      'What do I need to show for "Flight AF22"?',
+    ]);
+  });
+});
+
+describe('asksAboutNow', () => {
+  it('spots questions that depend on the time', () => {
+    expect(asksAboutNow("What's next?")).toBe(true);
+    expect(asksAboutNow('Where do we eat tonight?')).toBe(true);
+    expect(asksAboutNow('What is the hotel address?')).toBe(false);
+    expect(asksAboutNow('How much is still owed?')).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { TripEvent } from '../types';
+import { resolveEventTimes, utcToZonedTime, zonedTimeToUtc } from './eventTimeService';
+import { formatLeadTime, getCheckOut } from './reminderService';
+
+/**
+ * The trip as it stands on the day: what is under way, what comes next and
+ * what is left today. Events are compared as instants, so a flight landing
+ * in another zone is placed right; "today" is the date on the device. The
+ * time comes from the caller's Clock (see clockService).
+ */
+
+export interface TodayEntry {
+  event: TripEvent;
+  index: number; // Position in the events it was built from
+  start: number; // UTC milliseconds
+  end: number; // For a stay, its check-out
+  allDay: boolean;
+}
+
+export interface TodayPlan {
+  today: string; // YYYY-MM-DD on the device
+  current: TodayEntry[]; // Timed events under way
+  stays: TodayEntry[]; // Stays and all-day events covering now
+  next: TodayEntry | null; // The next timed event to start, today or later
+  laterToday: TodayEntry[]; // Timed events starting today after `next`
+}
+
+const toEntry = (event: TripEvent, index: number): TodayEntry => {
+  const times = resolveEventTimes(event);
+  if (!times.allDay) {
+    return {
+      event,
+      index,
+      start: zonedTimeToUtc(times.start, times.timeZone),
+      end: zonedTimeToUtc(times.end, times.endTimeZone),
+      allDay: false,
+    };
+  }
+  return {
+    event,
+    index,
+    start: zonedTimeToUtc(`${times.start}T00:00`, times.timeZone),
+    // A stay lasts until check-out on its last day, not until midnight before it
+    end: event.type === 'hotel' ? getCheckOut(event).at : zonedTimeToUtc(`${times.end}T00:00`, times.endTimeZone),
+    allDay: true,
+  };
+};
+
+export const getTodayPlan = (events: TripEvent[], now: number): TodayPlan => {
+  const today = utcToZonedTime(now).slice(0, 10);
+  const entries = events.map(toEntry).sort((a, b) => a.start - b.start);
+  const timed = entries.filter(entry => !entry.allDay);
+
+  const upcoming = timed.filter(entry => entry.start > now);
+  const next = upcoming[0] ?? null;
+  return {
+    today,
+    current: timed.filter(entry => entry.start <= now && now < entry.end),
+    stays: entries.filter(entry => entry.allDay && entry.start <= now && now < entry.end),
+    next,
+    laterToday: upcoming.slice(1).filter(entry => utcToZonedTime(entry.start).slice(0, 10) === today),
+  };
+};
+
+/** The events of the plan in time order, for the chat prompt. */
+export const getPlanEvents = (plan: TodayPlan): TripEvent[] =>
+  [...plan.stays, ...plan.current, ...(plan.next ? [plan.next] : []), ...plan.laterToday].map(entry => entry.event);
+
+// "What's next?", "Where do I need to be tonight?", "How long until check-out?"
+const NOW_QUESTION = /\b(now|next|today|tonight|tomorrow|this (morning|afternoon|evening)|later|soon|upcoming|how long until|what time)\b/i;
+
+/** Whether a chat question depends on the current time, so its prompt needs it. */
+export const asksAboutNow = (question: string): boolean => NOW_QUESTION.test(question);
+
+/** "in 25 min", "in 2 h 15 min", "in 4 days" */
+export const formatCountdown = (ms: number): string => {
+  const minutes = Math.ceil(ms / 60_000);
+  if (minutes <= 0) return 'now';
+  if (minutes < 48 * 60) return `in ${formatLeadTime(minutes)}`;
+  return `in ${Math.floor(minutes / 1440)} days`;
+};
+
+const MAX_QUICK_QUESTIONS = 4;
+
+/**
+ * Questions worth one tap on the day, about the events in the plan. They
+ * name the event, so the answer doesn't depend on what was asked before.
+ */
+export const getQuickQuestions = (plan: TodayPlan): string[] => {
+  const questions: string[] = [];
+  const { next } = plan;
+
+  if (next?.event.type === 'flight') {
+    questions.push(`Which terminal and gate does "${next.event.activity}" leave from, and when does boarding start?`);
+  } else if (next) {
+    questions.push(`What's the address of "${next.event.activity}" and how do I get there?`);
+  }
+  if (next?.event.confirmationNumber || next?.event.type === 'flight' || next?.event.type === 'hotel') {
+    questions.push(`What do I need to show for "${next.event.activity}"?`);
+  }
+
+  const hotel = plan.stays.find(entry => entry.event.type === 'hotel');
+  if (hotel) questions.push(`What time is check-out at "${hotel.event.activity}", and can I leave my luggage?`);
+
+  const isTripDay = plan.current.length > 0 || plan.stays.length > 0 || plan.laterToday.length > 0
+    || (next && utcToZonedTime(next.start).slice(0, 10) === plan.today);
+  if (isTripDay) questions.push("What's left to do today?");
+  else if (next) questions.push("What's planned for my next travel day?");
+
+  return questions.slice(0, MAX_QUICK_QUESTIONS);
+};
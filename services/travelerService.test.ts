@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { EventParticipant, FlightEvent, HotelEvent, TripEvent } from '../types';
+import {
+  canonicalizeParticipants,
+  collectTravelers,
+  isSameTraveler,
+  mergeParticipants,
+  normalizeTravelerName,
+} from './travelerService';
+
+const flight = (...participants: EventParticipant[]): FlightEvent => ({
+  type: 'flight',
+  date: '2025-03-20',
+  time: '10:00',
+  activity: 'Flight AF1234',
+  location: 'Paris CDG',
+  participants,
+});
+
+const hotel = (...participants: EventParticipant[]): HotelEvent => ({
+  type: 'hotel',
+  date: '2025-03-20',
+  time: '15:00',
+  activity: 'Hotel Artemide',
+  location: 'Rome',
+  participants,
+});
+
+describe('normalizeTravelerName', () => {
+  it('reads airline-style names', () => {
+    expect(normalizeTravelerName('SHARMA/PRIYA MS')).toBe('Priya Sharma');
+    expect(normalizeTravelerName('SMITH/ MR')).toBe('Smith');
+  });
+
+  it('drops titles and re-cases only names written in one case', () => {
+    expect(normalizeTravelerName('Ms  priya   sharma')).toBe('Priya Sharma');
+    expect(normalizeTravelerName('MR JEAN-LUC O\'NEILL')).toBe('Jean-Luc O\'Neill');
+    expect(normalizeTravelerName('Dr. Ronan McDonald')).toBe('Ronan McDonald');
+  });
+
+  it('gives null when nothing but titles is left', () => {
+    expect(normalizeTravelerName('MR / MRS')).toBeNull();
+  });
+});
+
+describe('isSameTraveler', () => {
+  it('matches a part of the name, in any order', () => {
+    expect(isSameTraveler('Priya', 'Priya Sharma')).toBe(true);
+    expect(isSameTraveler('Sharma Priya', 'priya sharma')).toBe(true);
+    expect(isSameTraveler('Priya Sharma', 'Priya Patel')).toBe(false);
+  });
+});
+
+describe('collectTravelers', () => {
+  it('lists each traveler once under their fullest name, in order of appearance', () => {
+    const events: TripEvent[] = [
+      flight({ name: 'Priya' }, { name: 'John Doe', detail: 'Seat 14D' }),
+      hotel({ name: 'Priya' }),
+      flight({ name: 'Priya Sharma', detail: 'Seat 14C' }),
+      hotel(),
+    ];
+    expect(collectTravelers(events)).toEqual(['Priya Sharma', 'John Doe']);
+  });
+
+  it('keeps a name that fits two travelers apart from both', () => {
+    const events = [flight({ name: 'Smith' }), flight({ name: 'John Smith' }), flight({ name: 'Jane Smith' })];
+    expect(collectTravelers(events)).toEqual(['Smith', 'John Smith', 'Jane Smith']);
+  });
+});
+
+describe('canonicalizeParticipants', () => {
+  it('renames partial names to the one traveler they fit', () => {
+    const [first] = canonicalizeParticipants([flight({ name: 'Priya', detail: 'Seat 14C' }), hotel({ name: 'Priya Sharma' })]);
+    expect(first.participants).toEqual([{ name: 'Priya Sharma', detail: 'Seat 14C' }]);
+  });
+
+  it('does not give a surname shared by two travelers to either of them', () => {
+    const events = canonicalizeParticipants([
+      flight({ name: 'John Smith', detail: 'Seat 3A' }, { name: 'Jane Smith', detail: 'Seat 3B' }),
+      hotel({ name: 'Smith', detail: 'Room 204' }),
+    ]);
+
+    expect(events[0].participants).toEqual([{ name: 'John Smith', detail: 'Seat 3A' }, { name: 'Jane Smith', detail: 'Seat 3B' }]);
+    expect(events[1].participants).toEqual([{ name: 'Smith', detail: 'Room 204' }]);
+  });
+});
+
+describe('mergeParticipants', () => {
+  it('keeps the fullest name and the first detail', () => {
+    expect(mergeParticipants([{ name: 'Priya' }], [{ name: 'Priya Sharma', detail: 'Seat 14C' }, { name: 'Priya', detail: 'Seat 2A' }]))
+      .toEqual([{ name: 'Priya Sharma', detail: 'Seat 14C' }]);
+  });
+
+  it('drops a name that fits several participants instead of guessing', () => {
+    expect(mergeParticipants([{ name: 'John Smith' }, { name: 'Jane Smith' }], [{ name: 'Smith', detail: 'Room 204' }]))
+      .toEqual([{ name: 'John Smith' }, { name: 'Jane Smith' }]);
+  });
+});
@@ -0,0 +1,113 @@
+import { EventParticipant, TripEvent } from '../types';
+
+/**
+ * Who is travelling. Bookings print names in many forms ("SHARMA/PRIYA MS",
+ * "Ms Priya Sharma", "Priya"); they are normalized to one display form and
+ * matched loosely, so the same person is recognized across bookings.
+ */
+
+const TITLES = /^(mr|mrs|ms|miss|mstr|master|dr|prof|herr|frau|mme|mlle|sr|sra|chd|inf|adult|child)\.?$/i;
+
+const capitalize = (word: string) =>
+  word.split(/([-'])/).map(part => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()).join('');
+
+/** "SHARMA/PRIYA MS" → "Priya Sharma". Null when nothing but titles is left. */
+export const normalizeTravelerName = (raw: string): string | null => {
+  let text = raw.replace(/\s+/g, ' ').trim();
+  // Airline style: SURNAME/GIVEN NAMES TITLE
+  const slash = text.match(/^([^/]+)\/(.+)$/);
+  if (slash) text = `${slash[2]} ${slash[1]}`;
+
+  const words = text.split(' ').filter(word => word && !TITLES.test(word));
+  if (words.length === 0) return null;
+  // Only names in a single case are re-cased, so "McDonald" stays as written
+  return words.map(word => (word === word.toUpperCase() || word === word.toLowerCase() ? capitalize(word) : word)).join(' ');
+};
+
+const nameTokens = (name: string) => name.toLowerCase().split(/\s+/).filter(Boolean);
+
+/** "Priya" and "Priya Sharma" are the same person; word order doesn't matter. */
+export const isSameTraveler = (a: string, b: string): boolean => {
+  const [x, y] = [nameTokens(a), nameTokens(b)];
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  return shorter.length > 0 && shorter.every(token => longer.includes(token));
+};
+
+// Same words, so the same name written in another order or case
+const isSameName = (a: string, b: string) => nameTokens(a).length === nameTokens(b).length && isSameTraveler(a, b);
+
+/**
+ * The fullest form of `name` among `names`. A partial name that fits several
+ * people ("Smith" with John and Jane Smith) is left as it is.
+ */
+const fullestName = (name: string, names: string[]): string => {
+  const fuller = names.filter(other => nameTokens(other).length > nameTokens(name).length && isSameTraveler(name, other));
+  const longest = fuller.filter(other => !fuller.some(longer => nameTokens(longer).length > nameTokens(other).length && isSameTraveler(other, longer)));
+  const people = longest.filter((other, i) => longest.findIndex(first => isSameName(first, other)) === i);
+  return people.length === 1 ? people[0] : name;
+};
+
+// Travelers in order of appearance, and the traveler each written name stands for
+const groupTravelers = (events: TripEvent[]) => {
+  const names = events.flatMap(event => event.participants?.map(p => p.name) ?? []);
+  const travelers: string[] = [];
+  const canonical = new Map<string, string>();
+  names.forEach(name => {
+    const fullest = fullestName(name, names);
+    const existing = travelers.find(traveler => isSameName(traveler, fullest));
+    if (!existing) travelers.push(fullest);
+    canonical.set(name, existing ?? fullest);
+  });
+  return { travelers, canonical };
+};
+
+/** Everyone named on a booking, once each under their fullest name, in order of appearance. */
+export const collectTravelers = (events: TripEvent[]): string[] => groupTravelers(events).travelers;
+
+/**
+ * Adds the participants of `extra` that aren't in `participants` yet. A name
+ * that fits several participants already listed is one of them, so it is dropped.
+ */
+export const mergeParticipants = (participants: EventParticipant[] = [], extra: EventParticipant[] = []): EventParticipant[] => {
+  const merged = participants.map(p => ({ ...p }));
+  extra.forEach(participant => {
+    const matches = merged.filter(p => isSameTraveler(p.name, participant.name));
+    if (matches.length === 0) merged.push({ ...participant });
+    if (matches.length !== 1) return;
+    const [existing] = matches;
+    if (nameTokens(participant.name).length > nameTokens(existing.name).length) existing.name = participant.name;
+    if (!existing.detail && participant.detail) existing.detail = participant.detail;
+  });
+  return merged;
+};
+
+/** Renames participants to the travelers' fullest names, so filters and exports agree. */
+export const canonicalizeParticipants = (events: TripEvent[]): TripEvent[] => {
+  const { canonical } = groupTravelers(events);
+  return events.map(event => {
+    if (!event.participants?.length) return event;
+    const renamed = event.participants.map(p => ({ ...p, name: canonical.get(p.name) ?? p.name }));
+    return { ...event, participants: mergeParticipants([], renamed) };
+  });
+};
+
+/** Bookings without participants are for the whole party. */
+export const isTravelerOnEvent = (event: TripEvent, traveler: string): boolean =>
+  !event.participants?.length || event.participants.some(p => isSameTraveler(p.name, traveler));
+
+export const filterEventsForTraveler = (events: TripEvent[], traveler: string | null): TripEvent[] =>
+  traveler ? events.filter(event => isTravelerOnEvent(event, traveler)) : events;
+
+/** "Priya Sharma (Seat 14C), John Doe" */
+export const formatParticipants = (participants: EventParticipant[] = []): string =>
+  participants.map(p => (p.detail ? `${p.name} (${p.detail})` : p.name)).join(', ');
+
+/** Reads back what formatParticipants writes, as typed by the user. */
+export const parseParticipants = (text: string): EventParticipant[] =>
+  mergeParticipants([], text.split(/[,;\n]/).flatMap(part => {
+    const match = part.trim().match(/^(.+?)\s*(?:\(([^)]*)\))?$/);
+    const name = match ? normalizeTravelerName(match[1]) : null;
+    if (!name) return [];
+    const detail = match[2]?.trim();
+    return [detail ? { name, detail } : { name }];
+  }));
@@ -0,0 +1,77 @@
+import { SavedTrip } from '../types';
+
+const DB_NAME = 'wanderlust-ai';
+const DB_VERSION = 1;
+const TRIPS_STORE = 'trips';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRIPS_STORE)) {
+          const store = db.createObjectStore(TRIPS_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a retry on the next call
+        reject(request.error ?? new Error("Failed to open the trip library."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(TRIPS_STORE, mode);
+    const request = makeRequest(transaction.objectStore(TRIPS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Trip library transaction aborted."));
+  });
+};
+
+export const createTripId = (): string =>
+  window.crypto?.randomUUID ? window.crypto.randomUUID() : `trip-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * All saved trips, most recently updated first.
+ */
+export const listTrips = async (): Promise<SavedTrip[]> => {
+  const trips = await runRequest<SavedTrip[]>('readonly', store => store.getAll());
+  return trips.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getTrip = async (id: string): Promise<SavedTrip | undefined> =>
+  runRequest<SavedTrip | undefined>('readonly', store => store.get(id));
+
+export const saveTrip = async (trip: SavedTrip): Promise<void> => {
+  await runRequest('readwrite', store => store.put({ ...trip, updatedAt: Date.now() }));
+};
+
+export const renameTrip = async (id: string, name: string): Promise<void> => {
+  const trip = await getTrip(id);
+  if (!trip) throw new Error("Trip not found.");
+  await saveTrip({ ...trip, name });
+};
+
+export const deleteTrip = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
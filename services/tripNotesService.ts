@@ -0,0 +1,145 @@
+import { Message, NoteCategory, PinGroup, TripEvent } from '../types';
+import { resolveEventTimes } from './eventTimeService';
+import { isSameEvent } from './summaryPipelineService';
+
+/**
+ * Trip notes: answers the user pinned from the chat, filed under a trip day
+ * and a category, plus the user's own notes on timeline events.
+ */
+
+export type NoteGrouping = 'day' | 'category';
+
+// Also the order of the groups when notes are shown by category
+export const NOTE_CATEGORY_LABELS: Record<NoteCategory, string> = {
+  general: 'General',
+  flight: 'Flights',
+  hotel: 'Stays',
+  activity: 'Activities',
+  food: 'Food & drink',
+  other: 'Other bookings',
+};
+
+// For answers that name no event, e.g. "what's the Wi-Fi code?"
+const CATEGORY_KEYWORDS: [Exclude<NoteCategory, 'general'>, RegExp][] = [
+  ['flight', /\b(flights?|gate|boarding|baggage|luggage|airport|terminal|layover)\b/i],
+  ['hotel', /\b(hotel|check-?in|check-?out|room|wi-?fi|stay|reception)\b/i],
+  ['food', /\b(restaurant|dinner|lunch|breakfast|table|menu)\b/i],
+  ['activity', /\b(tour|tickets?|museum|excursion|guide)\b/i],
+];
+
+export interface PinnedAnswer {
+  question?: Message; // The user message the answer replied to
+  answer: Message;
+}
+
+const findQuestion = (messages: Message[], index: number): Message | undefined =>
+  messages.slice(0, index).reverse().find(m => m.role === 'user');
+
+export const getPinnedAnswers = (messages: Message[]): PinnedAnswer[] =>
+  messages.flatMap((message, idx) =>
+    message.isPinned && message.role === 'model' ? [{ question: findQuestion(messages, idx), answer: message }] : []
+  );
+
+export const getPinnedAnswer = (messages: Message[], answerId: string): PinnedAnswer | undefined => {
+  const index = messages.findIndex(m => m.id === answerId);
+  return index === -1 ? undefined : { question: findQuestion(messages, index), answer: messages[index] };
+};
+
+// The event an answer is about: one whose page it cites, else one it names
+const findAnswerEvent = ({ question, answer }: PinnedAnswer, events: TripEvent[]): TripEvent | undefined => {
+  const cited = (answer.citations ?? []).filter(c => c.isValid);
+  const bySource = events.find(event =>
+    event.sources?.some(s => cited.some(c => c.fileName === s.fileName && c.pageNumber === s.pageNumber))
+  );
+  if (bySource) return bySource;
+
+  const text = `${question?.content ?? ''}\n${answer.content}`.toLowerCase();
+  return events.find(event =>
+    (event.confirmationNumber && text.includes(event.confirmationNumber.toLowerCase()))
+    || (event.activity.length >= 4 && text.includes(event.activity.toLowerCase()))
+  );
+};
+
+/** Where a newly pinned answer goes: the day and type of the event it is about. */
+export const fileAnswer = (pinned: PinnedAnswer, events: TripEvent[]): PinGroup => {
+  const event = findAnswerEvent(pinned, events);
+  if (event) return { date: resolveEventTimes(event).start.slice(0, 10), category: event.type };
+
+  const text = `${pinned.question?.content ?? ''}\n${pinned.answer.content}`;
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text));
+  return { category: match ? match[0] : 'general' };
+};
+
+export const withEventNote = (event: TripEvent, note: string): TripEvent => {
+  const { note: _previous, ...rest } = event;
+  return note.trim() ? { ...rest, note: note.trim() } as TripEvent : rest as TripEvent;
+};
+
+export interface EventNote {
+  event: TripEvent;
+  index: number; // Position in summary.events
+}
+
+export interface NoteGroup {
+  key: string;
+  date?: string; // Set when grouped by day; missing for the whole-trip group
+  category?: NoteCategory; // Set when grouped by category
+  eventNotes: EventNote[];
+  answers: PinnedAnswer[];
+}
+
+const eventDay = (event: TripEvent) => resolveEventTimes(event).start.slice(0, 10);
+
+/**
+ * Event notes and pinned answers, grouped by trip day (whole-trip notes
+ * first) or by category. Empty groups are left out.
+ */
+export const groupTripNotes = (events: TripEvent[], messages: Message[], grouping: NoteGrouping): NoteGroup[] => {
+  const groups = new Map<string, NoteGroup>();
+  const groupFor = (date: string | undefined, category: NoteCategory): NoteGroup => {
+    const key = grouping === 'day' ? date ?? 'trip' : category;
+    if (!groups.has(key)) {
+      groups.set(key, grouping === 'day'
+        ? { key, date, eventNotes: [], answers: [] }
+        : { key, category, eventNotes: [], answers: [] });
+    }
+    return groups.get(key);
+  };
+
+  events.forEach((event, index) => {
+    if (event.note) groupFor(eventDay(event), event.type).eventNotes.push({ event, index });
+  });
+  getPinnedAnswers(messages).forEach(pinned => {
+    // Answers pinned before filing existed count as general
+    const { date, category } = pinned.answer.pinnedTo ?? { category: 'general' as NoteCategory };
+    groupFor(date, category).answers.push(pinned);
+  });
+
+  const categoryOrder = Object.keys(NOTE_CATEGORY_LABELS);
+  return [...groups.values()].sort((a, b) =>
+    grouping === 'day'
+      ? (a.date ?? '').localeCompare(b.date ?? '')
+      : categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category)
+  );
+};
+
+const sameReference = (a: TripEvent, b: TripEvent) =>
+  !!a.confirmationNumber && a.type === b.type
+  && a.confirmationNumber.replace(/\s/g, '').toUpperCase() === b.confirmationNumber?.replace(/\s/g, '').toUpperCase();
+
+/**
+ * Moves the user's notes onto a freshly analyzed timeline. Events whose note
+ * can't be placed are returned, so the caller can tell the user.
+ */
+export const carryOverNotes = (previous: TripEvent[], next: TripEvent[]): { events: TripEvent[]; orphaned: TripEvent[] } => {
+  const events = [...next];
+  const orphaned: TripEvent[] = [];
+  previous.filter(event => event.note).forEach(old => {
+    let index = events.findIndex(event => !event.note && isSameEvent(event, old));
+    // Edited events no longer match on time, but keep their booking reference
+    if (index === -1) index = events.findIndex(event => !event.note && sameReference(event, old));
+    if (index === -1) orphaned.push(old);
+    else events[index] = withEventNote(events[index], old.note);
+  });
+  return { events, orphaned };
+};
@@ -1,24 +1,213 @@
+export interface Citation {
+  id: string;
+  raw: string; // Marker as written by the model, e.g. "[hotel.pdf, Page 2]"
+  fileName: string | null; // Resolved uploaded file, null if none matches
+  pageNumber: number;
+  claim: string; // The sentence of the answer this citation supports
+  isValid: boolean; // False when the file or page doesn't exist
+}
+
+// Why a model request failed; see requestService for how errors are sorted
+export type ModelErrorKind = 'auth' | 'quota' | 'safety' | 'context-length' | 'network' | 'timeout' | 'bad-request' | 'unknown';
+
+export type NoteCategory = TripEventType | 'general';
+
+export interface PinGroup {
+  date?: string; // YYYY-MM-DD trip day; none for answers about the whole trip
+  category: NoteCategory;
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'model' | 'system';
   content: string;
   timestamp: number;
   isError?: boolean;
+  errorKind?: ModelErrorKind; // Set on errors from the model; older saved errors lack it
+  isStreaming?: boolean; // Still receiving tokens
+  isTruncated?: boolean; // Stopped by the user before the answer finished
+  citations?: Citation[];
+  traveler?: string; // Set on questions asked for one traveler only
+  isPinned?: boolean; // Kept in the trip notes and the briefing
+  pinnedTo?: PinGroup; // Where a pinned answer is filed in the trip notes
+}
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+  isOcr?: boolean; // Text was recognized from the rendered page image
+}
+
+export interface ExtractionProgress {
+  fileName: string;
+  page: number;
+  totalPages: number;
+  stage: 'text' | 'ocr';
+  ocrProgress?: number; // 0..1 within the current page
 }
 
 export interface UploadedFile {
   name: string;
   content: string; // Extracted text content
+  pages: PageText[]; // Same text, indexed by page for citation lookup
   size: number;
   pageCount: number;
+  events?: TripEvent[]; // Exact events from structured sources (e.g. .ics), no AI needed
 }
 
-export interface TripEvent {
-  date: string;
-  time: string;
+export interface DocumentChunk {
+  id: string;
+  fileName: string;
+  pageNumber: number;
+  text: string;
+}
+
+export interface RetrievedPassage {
+  chunk: DocumentChunk;
+  score: number; // Cosine similarity to the query
+}
+
+export type TripEventType = 'flight' | 'hotel' | 'activity' | 'food' | 'other';
+
+// Category-specific booking fields. All optional: documents rarely have them all.
+export interface FlightDetails {
+  airline?: string;
+  flightNumber?: string; // e.g. "LH 401"
+  departureAirport?: string; // IATA code or name
+  arrivalAirport?: string;
+  departureTerminal?: string;
+  arrivalTerminal?: string;
+  gate?: string;
+  seat?: string;
+  cabin?: string; // e.g. "Economy", "Business"
+}
+
+export interface HotelDetails {
+  address?: string;
+  checkInTime?: string; // HH:MM
+  checkOutTime?: string;
+  roomType?: string;
+  guests?: string;
+  phone?: string;
+}
+
+export interface ActivityDetails {
+  address?: string;
+  provider?: string; // Tour operator, venue or rail company
+  meetingPoint?: string;
+  ticketType?: string;
+}
+
+export interface FoodDetails {
+  address?: string;
+  partySize?: string;
+  reservationName?: string;
+  phone?: string;
+}
+
+export interface EventDetailsByType {
+  flight: FlightDetails;
+  hotel: HotelDetails;
+  activity: ActivityDetails;
+  food: FoodDetails;
+  other: Record<string, never>;
+}
+
+export interface EventSource {
+  fileName: string;
+  pageNumber: number;
+}
+
+export type CostStatus = 'paid' | 'due';
+
+// One amount of a booking; deposits and balances are separate entries
+export interface EventCost {
+  amount: number;
+  currency: string; // ISO 4217 code, e.g. "EUR"
+  status: CostStatus;
+  dueDate?: string; // YYYY-MM-DD, when an unpaid amount must be paid
+  label?: string; // e.g. "Deposit", "City tax (pay at property)"
+}
+
+// Someone on a booking, e.g. one passenger of a group flight
+export interface EventParticipant {
+  name: string; // As normalized by travelerService, e.g. "Priya Sharma"
+  detail?: string; // What is theirs alone, e.g. "Seat 14C", "Room 212"
+}
+
+interface TripEventBase {
+  id?: string; // Set when extracted or added, kept through edits; older saved trips lack it
+  date: string; // YYYY-MM-DD, local to where the event starts
+  time: string; // HH:MM (24h), same clock as date
   activity: string;
   location: string;
-  type: 'flight' | 'hotel' | 'activity' | 'food' | 'other';
+  confirmationNumber?: string; // Booking reference / PNR, whatever the type
+  userEdited?: boolean; // Changed or added by the user in the timeline
+  sources?: EventSource[]; // Pages the event was read from, when known
+  note?: string; // Free-form, written by the user in the trip notes
+  costs?: EventCost[]; // Prices found in the booking, in their own currency
+  participants?: EventParticipant[]; // Who the booking is for; none means the whole party
+  // Times below are wall-clock times in their own zone, never UTC.
+  // Older saved trips lack them; see resolveEventTimes in eventTimeService.
+  start?: string; // YYYY-MM-DDTHH:MM, or YYYY-MM-DD when allDay
+  end?: string; // Same form; for allDay spans the exclusive end (check-out day)
+  timeZone?: string; // IANA zone of the start (departure airport for flights)
+  endTimeZone?: string; // IANA zone of the end (arrival airport for flights)
+  allDay?: boolean; // Whole-day or multi-night spans, e.g. hotel stays
+}
+
+export interface FlightEvent extends TripEventBase {
+  type: 'flight';
+  details?: FlightDetails;
+}
+
+export interface HotelEvent extends TripEventBase {
+  type: 'hotel';
+  details?: HotelDetails;
+}
+
+export interface ActivityEvent extends TripEventBase {
+  type: 'activity';
+  details?: ActivityDetails;
+}
+
+export interface FoodEvent extends TripEventBase {
+  type: 'food';
+  details?: FoodDetails;
+}
+
+export interface OtherEvent extends TripEventBase {
+  type: 'other';
+  details?: undefined;
+}
+
+export type TripEvent = FlightEvent | HotelEvent | ActivityEvent | FoodEvent | OtherEvent;
+
+// Set on a summary when part of the analysis didn't succeed
+export interface SummaryAnalysis {
+  state: 'failed' | 'partial'; // Failed: nothing could be read from the documents
+  problems: string[]; // Shown to the user, one per step that went wrong
+}
+
+export type ChecklistCategory = 'documents' | 'visa' | 'check-in' | 'payment' | 'packing';
+
+// The booking a checklist item comes from; matched again by checklistService
+export interface ChecklistEventRef {
+  date: string;
+  activity: string;
+  confirmationNumber?: string;
+}
+
+// Something to do or bring before the trip, generated from the timeline
+export interface ChecklistItem {
+  id: string;
+  category: ChecklistCategory;
+  text: string; // e.g. "Check in online for LH 1234"
+  quote?: string; // The document's own words, e.g. an entry requirement
+  due?: string; // YYYY-MM-DD, or YYYY-MM-DDTHH:MM when e.g. check-in opens
+  event?: ChecklistEventRef;
+  sources?: EventSource[];
+  done?: boolean;
 }
 
 export interface TripSummary {
@@ -27,12 +216,30 @@ export interface TripSummary {
   dates: string;
   events: TripEvent[];
   suggestedQuestions: string[];
+  checklist?: ChecklistItem[]; // Missing for trips analyzed before checklists existed
+  editedAt?: number; // Set once the user changes the timeline (including deletions)
+  analysis?: SummaryAnalysis; // Missing when the analysis went through
+}
+
+export interface SummaryProgress {
+  completed: number; // Model requests finished so far
+  total: number;
+}
+
+export interface SavedTrip {
+  id: string;
+  name: string;
+  files: UploadedFile[];
+  summary: TripSummary | null;
+  messages: Message[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface ChatState {
   isLoading: boolean;
   messages: Message[];
-  currentFile: UploadedFile | null;
+  files: UploadedFile[];
   summary: TripSummary | null;
 }
 
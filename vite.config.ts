@@ -1,19 +1,21 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiServerPlugin } from './server/vitePlugin';
 
 export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+    // Read on the server only; API keys stay out of the client bundle
+    const env = { ...process.env, ...loadEnv(mode, '.', '') };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        port: 3000,
+        host: '0.0.0.0',
       },
+      plugins: [react(), apiServerPlugin(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),